@@ -10,7 +10,10 @@
         title: document.getElementById('view-title'),
         subtitle: document.getElementById('view-subtitle'),
         banner: document.getElementById('sync-banner'),
+        conflicts: document.getElementById('conflicts'),
         quickInput: document.getElementById('quick-add-input'),
+        quickHighlight: document.getElementById('quick-add-highlight'),
+        quickSummary: document.getElementById('quick-add-summary'),
         list: document.getElementById('list'),
         empty: document.getElementById('empty-state'),
         detail: document.getElementById('detail-pane'),
@@ -18,6 +21,22 @@
         detailSubtitle: document.getElementById('detail-subtitle'),
         detailDescription: document.getElementById('detail-description'),
         detailFields: document.getElementById('detail-fields'),
+        detailChecklist: document.getElementById('detail-checklist'),
+        detailChecklistProgress: document.getElementById('detail-checklist-progress'),
+        detailChecklistInput: document.getElementById('detail-checklist-input'),
+        detailLinksWrap: document.getElementById('detail-links-wrap'),
+        detailHistoryWrap: document.getElementById('detail-history-wrap'),
+        detailHistory: document.getElementById('detail-history'),
+        detailCommentsWrap: document.getElementById('detail-comments-wrap'),
+        detailComments: document.getElementById('detail-comments'),
+        detailCommentInput: document.getElementById('detail-comment-input'),
+        detailCommentPost: document.getElementById('detail-comment-post'),
+        detailLinks: document.getElementById('detail-links'),
+        detailAddLink: document.getElementById('detail-add-link'),
+        detailChildProgress: document.getElementById('detail-child-progress'),
+        detailAttachmentsWrap: document.getElementById('detail-attachments-wrap'),
+        detailAttachments: document.getElementById('detail-attachments'),
+        detailAttachFile: document.getElementById('detail-attach-file'),
         detailNotesWrap: document.getElementById('detail-notes-wrap'),
         detailNotes: document.getElementById('detail-notes'),
         detailClose: document.getElementById('detail-close'),
@@ -51,7 +70,23 @@
         return new Date(iso + 'T00:00:00') < today;
     }
 
-    function renderTask(task) {
+    // Append a task row and, indented beneath it, its nested sub-tasks.
+    // Returns how many rows were added.
+    function appendTask(task, depth) {
+        const row = renderTask(task, depth);
+        if (depth > 0) {
+            row.classList.add('subtask');
+            row.style.setProperty('--depth', String(depth));
+        }
+        els.list.appendChild(row);
+        let count = 1;
+        for (const child of task.children || []) {
+            count += appendTask(child, depth + 1);
+        }
+        return count;
+    }
+
+    function renderTask(task, depth) {
         const row = el('div', 'task-row' + (task.completed ? ' done' : ''));
         row.dataset.uuid = task.uuid;
         row.setAttribute('role', 'listitem');
@@ -105,10 +140,27 @@
             ado.title = 'Open in browser';
             ado.addEventListener('click', (e) => {
                 e.stopPropagation();
-                send({ type: 'openWorkItem', adoId: task.adoId });
+                send({ type: 'openWorkItem', workItemKey: task.workItemKey });
             });
             meta.appendChild(ado);
         }
+        if (task.childProgress) {
+            const rollup = el('span', 'chip rollup' + (task.childProgress.done === task.childProgress.total ? ' complete' : ''),
+                '▾ ' + task.childProgress.done + '/' + task.childProgress.total);
+            rollup.title = 'Sub-tasks done';
+            meta.appendChild(rollup);
+        }
+        // Nested rows sit under their parent already; top-level ones say whose they are.
+        if (task.parent && !depth) {
+            const parent = el('span', 'chip parent', '↑ #' + task.parent.adoId + (task.parent.title ? ' ' + task.parent.title : ''));
+            parent.title = 'Parent work item';
+            meta.appendChild(parent);
+        }
+        if (task.checklist) {
+            const progress = el('span', 'chip checklist', '☑ ' + task.checklist.done + '/' + task.checklist.total);
+            progress.title = 'Checklist progress';
+            meta.appendChild(progress);
+        }
         for (const tag of task.tags || []) {
             meta.appendChild(el('span', 'chip', tag));
         }
@@ -156,8 +208,7 @@
                 els.list.appendChild(el('div', 'group-header', group.header));
             }
             for (const task of group.tasks) {
-                els.list.appendChild(renderTask(task));
-                total++;
+                total += appendTask(task, 0);
             }
         }
 
@@ -210,10 +261,18 @@
         // Metadata fields.
         els.detailFields.innerHTML = '';
         for (const field of detail.fields) {
-            els.detailFields.appendChild(el('dt', null, field.label));
+            const dt = el('dt', field.required ? 'required' : null, field.label);
+            if (field.helpText) dt.title = field.helpText;
+            els.detailFields.appendChild(dt);
             els.detailFields.appendChild(renderFieldValue(detail, field));
         }
 
+        renderChecklist(detail);
+        renderLinks(detail);
+        renderAttachments(detail);
+        renderComments(detail.uuid, detail.adoId ? detail.comments || [] : undefined);
+        renderHistory(detail.uuid, detail.adoId ? detail.history || [] : undefined);
+
         // Local notes.
         if (detail.notes) {
             els.detailNotes.textContent = detail.notes;
@@ -225,7 +284,7 @@
         // Open-in-ADO button.
         if (detail.adoId) {
             els.detailOpenAdo.classList.remove('hidden');
-            els.detailOpenAdo.onclick = () => send({ type: 'openWorkItem', adoId: detail.adoId });
+            els.detailOpenAdo.onclick = () => send({ type: 'openWorkItem', workItemKey: detail.workItemKey });
         } else {
             els.detailOpenAdo.classList.add('hidden');
         }
@@ -233,6 +292,198 @@
         els.detail.classList.remove('hidden');
     }
 
+    // Checklist: tick, reorder, delete, or (for ADO-linked tasks) convert an
+    // item into a child Task work item.
+    function renderChecklist(detail) {
+        const items = detail.checklist || [];
+        const uuid = detail.uuid;
+        els.detailChecklistInput.dataset.uuid = uuid;
+        els.detailChecklistProgress.textContent = items.length
+            ? items.filter((i) => i.done).length + '/' + items.length
+            : '';
+        els.detailChecklist.innerHTML = '';
+        items.forEach((item, idx) => {
+            const li = el('li', 'checklist-item' + (item.done ? ' done' : ''));
+            const box = el('input');
+            box.type = 'checkbox';
+            box.checked = item.done;
+            box.setAttribute('aria-label', item.text);
+            box.addEventListener('change', () => send({ type: 'toggleChecklistItem', uuid, id: item.id }));
+            li.appendChild(box);
+            li.appendChild(el('span', 'checklist-text', item.text));
+
+            const actions = el('span', 'checklist-actions');
+            const button = (label, title, onClick) => {
+                const b = el('button', 'action-btn', label);
+                b.title = title;
+                b.setAttribute('aria-label', title);
+                b.addEventListener('click', onClick);
+                actions.appendChild(b);
+            };
+            const idOf = (i) => (items[i] ? items[i].id : undefined);
+            if (idx > 0) {
+                button('↑', 'Move up', () => send({ type: 'reorderChecklistItem', uuid, id: item.id, beforeId: idOf(idx - 2), afterId: idOf(idx - 1) }));
+            }
+            if (idx < items.length - 1) {
+                button('↓', 'Move down', () => send({ type: 'reorderChecklistItem', uuid, id: item.id, beforeId: idOf(idx + 1), afterId: idOf(idx + 2) }));
+            }
+            if (detail.adoId) {
+                button('→ Task', 'Convert to a child Task in Azure DevOps', () => send({ type: 'convertChecklistItem', uuid, id: item.id }));
+            }
+            button('✕', 'Delete item', () => send({ type: 'deleteChecklistItem', uuid, id: item.id }));
+            li.appendChild(actions);
+            els.detailChecklist.appendChild(li);
+        });
+    }
+
+    // Work item links (ADO-linked tasks only).
+    function renderLinks(detail) {
+        if (!detail.adoId) {
+            els.detailLinksWrap.classList.add('hidden');
+            return;
+        }
+        els.detailAddLink.onclick = () => send({ type: 'addLink', uuid: detail.uuid });
+        els.detailLinks.innerHTML = '';
+        els.detailChildProgress.textContent = detail.childProgress
+            ? detail.childProgress.done + '/' + detail.childProgress.total + ' children done'
+            : '';
+        for (const link of detail.links || []) {
+            const li = el('li', 'link-item' + (link.done ? ' done' : ''));
+            li.appendChild(el('span', 'link-kind', link.label));
+            const target = el('a', 'link-target', '#' + link.targetId + (link.title ? ' ' + link.title : ''));
+            target.href = '#';
+            target.title = 'Open in browser';
+            target.addEventListener('click', (e) => {
+                e.preventDefault();
+                send({ type: 'openWorkItem', workItemKey: link.targetKey });
+            });
+            li.appendChild(target);
+            const remove = el('button', 'action-btn', '✕');
+            remove.title = 'Remove link';
+            remove.setAttribute('aria-label', 'Remove ' + link.label.toLowerCase() + ' link to #' + link.targetId);
+            remove.addEventListener('click', () => send({ type: 'removeLink', uuid: detail.uuid, kind: link.kind, targetId: link.targetId }));
+            li.appendChild(remove);
+            els.detailLinks.appendChild(li);
+        }
+        els.detailLinksWrap.classList.remove('hidden');
+    }
+
+    // Attached files (ADO-linked tasks only); opening one downloads it on first use.
+    function renderAttachments(detail) {
+        if (!detail.adoId) {
+            els.detailAttachmentsWrap.classList.add('hidden');
+            return;
+        }
+        els.detailAttachFile.onclick = () => send({ type: 'attachFile', uuid: detail.uuid });
+        els.detailAttachments.innerHTML = '';
+        for (const file of detail.attachments || []) {
+            const li = el('li', 'attachment-item' + (file.pending ? ' pending' : ''));
+            if (file.url) {
+                const name = el('a', 'attachment-name', file.name);
+                name.href = '#';
+                name.title = 'Open ' + file.name;
+                name.addEventListener('click', (e) => {
+                    e.preventDefault();
+                    send({ type: 'openAttachment', uuid: detail.uuid, url: file.url, name: file.name });
+                });
+                li.appendChild(name);
+            } else {
+                li.appendChild(el('span', 'attachment-name', file.name));
+            }
+            const meta = file.pending ? 'uploading…' : file.size;
+            if (meta) li.appendChild(el('span', 'attachment-size', meta));
+            els.detailAttachments.appendChild(li);
+        }
+        els.detailAttachmentsWrap.classList.remove('hidden');
+    }
+
+    // Comments keep their line breaks; the rest of ADO's markup is dropped.
+    function commentText(html) {
+        return htmlToText(html.replace(/<br\s*\/?>/gi, '\n').replace(/<\/(p|div|li)>/gi, '\n')).trim();
+    }
+
+    // Work item discussion (ADO-linked tasks only); `comments` undefined hides it.
+    function renderComments(uuid, comments) {
+        if (!comments) {
+            els.detailCommentsWrap.classList.add('hidden');
+            return;
+        }
+        // A draft survives re-renders of the same task, not a switch to another.
+        if (els.detailCommentInput.dataset.uuid !== uuid) els.detailCommentInput.value = '';
+        els.detailCommentInput.dataset.uuid = uuid;
+        els.detailComments.innerHTML = '';
+        for (const comment of comments) {
+            const li = el('li', 'comment' + (comment.pending ? ' pending' : ''));
+            const meta = el('div', 'comment-meta');
+            meta.appendChild(el('span', 'comment-author', comment.author));
+            meta.appendChild(el('span', 'comment-date', comment.pending ? 'Waiting to sync' : comment.date));
+            li.appendChild(meta);
+            li.appendChild(el('div', 'comment-text', commentText(comment.html)));
+            els.detailComments.appendChild(li);
+        }
+        if (comments.length === 0) els.detailComments.appendChild(el('li', 'comment-empty', 'No comments yet.'));
+        els.detailCommentsWrap.classList.remove('hidden');
+    }
+
+    // Revision timeline (ADO-linked tasks only); newer revisions load when the section opens.
+    function renderHistory(uuid, history) {
+        if (!history) {
+            els.detailHistoryWrap.classList.add('hidden');
+            return;
+        }
+        if (els.detailHistoryWrap.dataset.uuid !== uuid) els.detailHistoryWrap.open = false;
+        els.detailHistoryWrap.dataset.uuid = uuid;
+        els.detailHistory.innerHTML = '';
+        for (const entry of history) {
+            const li = el('li', 'history-entry');
+            const meta = el('div', 'history-meta');
+            meta.appendChild(el('span', 'history-by', entry.by + (entry.created ? ' created this' : '')));
+            meta.appendChild(el('span', 'history-date', entry.date));
+            li.appendChild(meta);
+            const changes = el('dl', 'history-changes');
+            for (const change of entry.changes) {
+                changes.appendChild(el('dt', null, change.label));
+                const dd = el('dd');
+                if (change.from) dd.appendChild(el('del', 'history-from', change.from));
+                if (change.from && change.to) dd.appendChild(el('span', 'history-arrow', ' → '));
+                if (change.to) dd.appendChild(el('span', 'history-to', change.to));
+                if (!change.to) dd.appendChild(el('span', 'history-arrow', ' (cleared)'));
+                changes.appendChild(dd);
+            }
+            li.appendChild(changes);
+            els.detailHistory.appendChild(li);
+        }
+        if (history.length === 0) els.detailHistory.appendChild(el('li', 'history-empty', els.detailHistoryWrap.open ? 'No changes recorded.' : 'Loading…'));
+        els.detailHistoryWrap.classList.remove('hidden');
+    }
+
+    els.detailHistoryWrap.addEventListener('toggle', () => {
+        if (els.detailHistoryWrap.open) send({ type: 'loadHistory', uuid: els.detailHistoryWrap.dataset.uuid });
+    });
+
+    function postComment() {
+        const text = els.detailCommentInput.value.trim();
+        if (!text) return;
+        send({ type: 'addComment', uuid: els.detailCommentInput.dataset.uuid, text });
+        els.detailCommentInput.value = '';
+    }
+
+    els.detailCommentPost.addEventListener('click', postComment);
+    els.detailCommentInput.addEventListener('keydown', (e) => {
+        if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+            e.preventDefault();
+            postComment();
+        }
+    });
+
+    els.detailChecklistInput.addEventListener('keydown', (e) => {
+        if (e.key !== 'Enter') return;
+        const text = els.detailChecklistInput.value.trim();
+        if (!text) return;
+        send({ type: 'addChecklistItem', uuid: els.detailChecklistInput.dataset.uuid, text });
+        els.detailChecklistInput.value = '';
+    });
+
     function closeDetail() {
         els.detail.classList.add('hidden');
         send({ type: 'closeTask' });
@@ -243,12 +494,12 @@
         const dd = el('dd');
 
         // Fields with a discrete action (e.g. State -> transition picker).
-        if (field.action === 'changeState') {
+        if (field.action === 'changeState' || field.action === 'moveToProject') {
             const wrap = el('div', 'identity-edit');
             wrap.appendChild(el('span', null, field.value || '—'));
-            const btn = el('button', 'action-btn assign-me', 'Change…');
-            btn.title = 'Change state';
-            btn.addEventListener('click', () => send({ type: 'changeState', uuid: detail.uuid }));
+            const btn = el('button', 'action-btn assign-me', field.action === 'changeState' ? 'Change…' : 'Move…');
+            btn.title = field.action === 'changeState' ? 'Change state' : 'Move to project';
+            btn.addEventListener('click', () => send({ type: field.action, uuid: detail.uuid }));
             wrap.appendChild(btn);
             dd.appendChild(wrap);
             return dd;
@@ -342,6 +593,60 @@
         }
     }
 
+    // Queued sync conflicts: base / mine / theirs side by side, with who
+    // changed it on the server, and Keep Mine / Keep Theirs / merged value.
+    function renderConflicts(conflicts) {
+        els.conflicts.innerHTML = '';
+        if (!conflicts || conflicts.length === 0) {
+            els.conflicts.classList.add('hidden');
+            return;
+        }
+        els.conflicts.appendChild(el('div', 'group-header',
+            conflicts.length === 1 ? '1 conflict needs review' : conflicts.length + ' conflicts need review'));
+        for (const c of conflicts) {
+            const card = el('div', 'conflict-card');
+            const heading = el('div', 'conflict-title', '#' + c.adoId + (c.title ? ' ' + c.title : '') + ' — ' + c.label);
+            heading.title = 'Open in browser';
+            heading.addEventListener('click', () => send({ type: 'openWorkItem', workItemKey: c.workItemKey }));
+            card.appendChild(heading);
+            if (c.changedBy || c.changedDate) {
+                card.appendChild(el('div', 'conflict-meta',
+                    'Changed in Azure DevOps' + (c.changedBy ? ' by ' + c.changedBy : '') + (c.changedDate ? ' · ' + c.changedDate : '')));
+            }
+
+            const grid = el('dl', 'conflict-values');
+            const row = (label, value, cls) => {
+                grid.appendChild(el('dt', null, label));
+                grid.appendChild(el('dd', cls, value));
+            };
+            if (c.base !== undefined) row('Base', c.base, 'base');
+            row('Mine', c.mine, 'mine');
+            row('Theirs', c.theirs, 'theirs');
+            card.appendChild(grid);
+
+            const merged = document.createElement('input');
+            merged.type = 'text';
+            merged.className = 'detail-input';
+            merged.value = c.mergeValue;
+            merged.setAttribute('aria-label', 'Merged value for ' + c.label);
+
+            const actions = el('div', 'conflict-actions');
+            const button = (label, title, onClick) => {
+                const b = el('button', 'action-btn', label);
+                b.title = title;
+                b.addEventListener('click', onClick);
+                actions.appendChild(b);
+            };
+            button('Keep Mine', 'Push your value over the server change', () => send({ type: 'resolveConflict', id: c.id, choice: 'mine' }));
+            button('Keep Theirs', 'Drop your change and keep the server value', () => send({ type: 'resolveConflict', id: c.id, choice: 'theirs' }));
+            actions.appendChild(merged);
+            button('Use Merged', 'Push the edited value', () => send({ type: 'resolveConflict', id: c.id, choice: 'merged', value: merged.value }));
+            card.appendChild(actions);
+            els.conflicts.appendChild(card);
+        }
+        els.conflicts.classList.remove('hidden');
+    }
+
     // Quick capture: Enter creates a task in the current list's bucket.
     els.quickInput.addEventListener('keydown', (e) => {
         if (e.key === 'Enter') {
@@ -349,10 +654,40 @@
             if (title) {
                 send({ type: 'createTask', title, view: currentView });
                 els.quickInput.value = '';
+                renderQuickEntryPreview('', []);
             }
         }
     });
 
+    // The host parses as we type; recognised tokens are highlighted in a
+    // backdrop behind the (transparent) input and summarised underneath.
+    els.quickInput.addEventListener('input', () => {
+        send({ type: 'previewQuickEntry', text: els.quickInput.value });
+    });
+    els.quickInput.addEventListener('scroll', () => {
+        els.quickHighlight.scrollLeft = els.quickInput.scrollLeft;
+    });
+
+    function renderQuickEntryPreview(text, tokens) {
+        // Ignore replies for text the user has since changed.
+        if (text !== els.quickInput.value) return;
+        els.quickHighlight.innerHTML = '';
+        let from = 0;
+        for (const t of tokens) {
+            els.quickHighlight.appendChild(document.createTextNode(text.slice(from, t.start)));
+            els.quickHighlight.appendChild(el('mark', 'qe-token qe-' + t.kind, text.slice(t.start, t.end)));
+            from = t.end;
+        }
+        els.quickHighlight.appendChild(document.createTextNode(text.slice(from)));
+        els.quickHighlight.scrollLeft = els.quickInput.scrollLeft;
+
+        els.quickSummary.innerHTML = '';
+        for (const t of tokens) {
+            els.quickSummary.appendChild(el('span', 'qe-chip qe-' + t.kind, t.label));
+        }
+        els.quickSummary.classList.toggle('hidden', tokens.length === 0);
+    }
+
     // Keyboard navigation across rows: ArrowUp/Down to move, Space/Enter to
     // toggle completion, 't' to flag for Today, 'o' to open the work item.
     function rows() {
@@ -395,6 +730,18 @@
             case 'taskDetail':
                 renderDetail(msg.detail);
                 break;
+            case 'history':
+                if (els.detailHistoryWrap.dataset.uuid === msg.uuid) renderHistory(msg.uuid, msg.history);
+                break;
+            case 'comments':
+                if (els.detailCommentInput.dataset.uuid === msg.uuid) renderComments(msg.uuid, msg.comments);
+                break;
+            case 'conflict':
+                renderConflicts(msg.conflicts);
+                break;
+            case 'quickEntryPreview':
+                renderQuickEntryPreview(msg.text, msg.tokens);
+                break;
         }
     });
 
@@ -4,6 +4,7 @@ import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as os from 'os';
 import * as path from 'path';
+import { normalizeOrgUrl } from './AdoRestClient';
 
 /**
  * Work item from ADO
@@ -15,6 +16,65 @@ export interface WorkItem {
     _links?: {
         html?: { href: string };
     };
+    /** Present when fetched with `$expand=relations`. */
+    relations?: WorkItemRelation[];
+}
+
+/** A work item relation as the REST API returns it (`url` points at the target). */
+export interface WorkItemRelation {
+    rel: string;
+    url: string;
+    attributes?: Record<string, unknown>;
+}
+
+/** A work item comment as the comments REST API returns it. */
+export interface AdoComment {
+    id: number;
+    /** HTML. */
+    text: string;
+    createdBy?: { displayName?: string; uniqueName?: string };
+    createdDate: string;
+    isDeleted?: boolean;
+}
+
+/** One entry from a work item's updates API: what a single save changed. */
+export interface AdoWorkItemUpdate {
+    id: number;
+    rev?: number;
+    revisedBy?: { displayName?: string; uniqueName?: string };
+    revisedDate?: string;
+    fields?: Record<string, { oldValue?: unknown; newValue?: unknown }>;
+    relations?: { added?: WorkItemRelation[]; removed?: WorkItemRelation[] };
+}
+
+/** A field as the project-level fields API returns it. */
+export interface AdoFieldDefinition {
+    referenceName: string;
+    name: string;
+    type: string;
+    readOnly?: boolean;
+    isIdentity?: boolean;
+}
+
+/** A field on one work item type, from the work item type fields API (`$expand=allowedValues`). */
+export interface AdoWorkItemTypeField {
+    referenceName: string;
+    name: string;
+    alwaysRequired?: boolean;
+    allowedValues?: unknown[];
+    helpText?: string;
+}
+
+/** A folder or saved query in a project's query tree, as the queries REST API returns it. */
+export interface AdoQueryItem {
+    id: string;
+    name: string;
+    /** Full path, e.g. "Shared Queries/Team/Active Bugs". */
+    path: string;
+    isFolder?: boolean;
+    hasChildren?: boolean;
+    /** Present only down to the requested `$depth`. */
+    children?: AdoQueryItem[];
 }
 
 /**
@@ -119,20 +179,9 @@ export class AdoClient {
         return args;
     }
 
-    /**
-     * Normalize organization to a full URL
-     * Accepts: "myorg", "https://dev.azure.com/myorg", "https://myorg.visualstudio.com"
-     */
+    /** Organization (or configured collection) base URL, as the CLI's `--org` takes it. */
     private normalizeOrgUrl(org: string): string {
-        org = org.trim();
-        
-        // Already a full URL
-        if (org.startsWith('https://') || org.startsWith('http://')) {
-            return org;
-        }
-        
-        // Just org name - convert to full URL
-        return `https://dev.azure.com/${org}`;
+        return normalizeOrgUrl(org, Settings.collectionUrls);
     }
 
     /**
@@ -288,8 +337,8 @@ export class AdoClient {
     /**
      * Get the HTML URL for a work item
      */
-    async getWorkItemUrl(id: number): Promise<string | undefined> {
-        const result = await this.fetchSingleWorkItem(id);
+    async getWorkItemUrl(id: number, org?: string, project?: string): Promise<string | undefined> {
+        const result = await this.fetchSingleWorkItem(id, org ? { name: `#${id}`, organization: org, project } : undefined);
         
         if (result.success && result.data) {
             // Try to get canonical URL from _links
@@ -299,11 +348,11 @@ export class AdoClient {
             }
             
             // Fallback: construct URL
-            return this.constructWorkItemUrl(id);
+            return this.constructWorkItemUrl(id, org, project);
         }
         
         // Fallback even on failure
-        return this.constructWorkItemUrl(id);
+        return this.constructWorkItemUrl(id, org, project);
     }
 
     /**
@@ -370,13 +419,15 @@ export class AdoClient {
             args.push('--id', queryDef.queryId);
         } else if (queryDef.queryPath) {
             args.push('--path', queryDef.queryPath);
+        } else if (queryDef.wiql) {
+            args.push('--wiql', queryDef.wiql);
         } else {
             return {
                 success: false,
                 exitCode: -1,
                 error: {
                     type: 'unknown',
-                    message: `Query "${queryDef.name}" has no queryId or queryPath configured`,
+                    message: `Query "${queryDef.name}" has no queryId, queryPath or wiql configured`,
                     stderr: '',
                     command: ''
                 }
@@ -455,6 +506,7 @@ export class AdoClient {
             project: queryDef.project ?? Settings.project,
             queryId: queryDef.queryId,
             queryPath: queryDef.queryPath,
+            wiql: queryDef.wiql,
             name: queryDef.name
         });
     }
@@ -1,9 +1,12 @@
 import { TokenProvider } from '../auth/TokenProvider';
-import { WorkItem } from './AdoClient';
+import { orgKey } from '../model/workItemKey';
+import { AdoComment, AdoFieldDefinition, AdoQueryItem, AdoWorkItemTypeField, AdoWorkItemUpdate, WorkItem, WorkItemTypeState } from './AdoClient';
 
 export interface RestError {
     status: number;
     message: string;
+    /** How long the server asked us to wait before trying again, if it said. */
+    retryAfterMs?: number;
 }
 
 export interface PatchResult {
@@ -16,6 +19,26 @@ export interface PatchResult {
     conflict?: boolean;
 }
 
+export interface CommentResult {
+    success: boolean;
+    comment?: AdoComment;
+    error?: RestError;
+}
+
+export interface SavedQueryResult {
+    success: boolean;
+    /** The matching work item IDs. */
+    ids?: number[];
+    error?: RestError;
+}
+
+export interface UploadResult {
+    success: boolean;
+    /** The uploaded attachment's URL, to link from a work item. */
+    url?: string;
+    error?: RestError;
+}
+
 /** A single JSON-Patch operation for a work item update. */
 export interface JsonPatchOp {
     op: 'add' | 'replace' | 'remove' | 'test';
@@ -23,14 +46,86 @@ export interface JsonPatchOp {
     value?: unknown;
 }
 
-function normalizeOrgUrl(org: string): string {
+/**
+ * An organization's base URL, from its name or URL. Names listed in
+ * `collectionUrls` map to their configured collection (Azure DevOps Server,
+ * e.g. `https://tfs.corp/tfs/DefaultCollection`); other names are Services
+ * organizations on dev.azure.com.
+ */
+export function normalizeOrgUrl(org: string, collectionUrls: Record<string, string> = {}): string {
     org = org.trim();
     if (org.startsWith('http://') || org.startsWith('https://')) {
-        return org.replace(/\/$/, '');
+        return org.replace(/\/+$/, '');
     }
+    const key = orgKey(org);
+    const configured = Object.entries(collectionUrls).find(([name, url]) => orgKey(name) === key && url.trim());
+    if (configured) return configured[1].trim().replace(/\/+$/, '');
     return `https://dev.azure.com/${org}`;
 }
 
+/**
+ * The newest REST API version a server supports, from the error it returns
+ * for a request made with a newer one. Azure DevOps Server answers
+ * "The requested REST API version of 7.1 is out of range for this server.
+ * The latest REST API version for this server is 6.0."
+ */
+export function latestApiVersionFromError(message: string): string | undefined {
+    return /latest REST API version for this server is (\d+\.\d+)/i.exec(message)?.[1];
+}
+
+/**
+ * `url` with its `api-version` lowered to `version`. Preview versions stay
+ * previews but drop their resource revision, which differs between releases.
+ */
+export function withApiVersion(url: string, version: string): string {
+    return url.replace(/([?&]api-version=)([^&#]+)/i, (_match, prefix: string, requested: string) =>
+        `${prefix}${version}${/-preview/i.test(requested) ? '-preview' : ''}`);
+}
+
+/** REST URL of a work item, the form relation links point at. */
+export function workItemApiUrl(org: string, id: number): string {
+    return `${normalizeOrgUrl(org)}/_apis/wit/workItems/${id}`;
+}
+
+/** The work item id a relation URL points at, if it points at one. */
+export function relationTargetId(url: string): number | undefined {
+    const match = /\/workItems\/(\d+)$/i.exec(url);
+    return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * Read the server's requested wait from response headers: `Retry-After`
+ * (seconds or an HTTP date), else `X-RateLimit-Reset` (epoch seconds) once
+ * `X-RateLimit-Remaining` has hit zero. Undefined when neither applies.
+ */
+export function retryDelayFromHeaders(headers: Headers, now = Date.now()): number | undefined {
+    const retryAfter = headers.get('retry-after')?.trim();
+    if (retryAfter) {
+        const ms = /^\d+(\.\d+)?$/.test(retryAfter) ? Number(retryAfter) * 1000 : Date.parse(retryAfter) - now;
+        if (!Number.isNaN(ms)) return Math.max(0, ms);
+    }
+    const reset = Number(headers.get('x-ratelimit-reset'));
+    if (headers.get('x-ratelimit-remaining')?.trim() === '0' && reset > 0) {
+        return Math.max(0, reset * 1000 - now);
+    }
+    return undefined;
+}
+
+/** Extract work item IDs from a WIQL response (flat or link query). */
+function idsFromWiqlResult(raw: unknown): number[] {
+    const body = raw as {
+        workItems?: { id: number }[];
+        workItemRelations?: { target?: { id: number } }[];
+    };
+    if (body.workItems) return body.workItems.map((w) => w.id);
+    if (body.workItemRelations) {
+        return body.workItemRelations
+            .map((r) => r.target?.id)
+            .filter((id): id is number => typeof id === 'number');
+    }
+    return [];
+}
+
 /**
  * Pure HTTP transport for Azure DevOps REST APIs.
  *
@@ -40,81 +135,372 @@ function normalizeOrgUrl(org: string): string {
  */
 export class AdoRestClient {
     private readonly apiVersion = '7.1';
+    /** The work item comments API is still versioned as a preview. */
+    private readonly commentsApiVersion = '7.1-preview.4';
+    /** Per-organization time (epoch ms) before which writes are held back. */
+    private readonly blockedUntil = new Map<string, number>();
+
+    /** REST API version per organization URL, for servers older than {@link apiVersion}. */
+    private readonly apiVersions = new Map<string, string>();
+
+    constructor(
+        private readonly tokens: TokenProvider,
+        private readonly collectionUrls: () => Record<string, string> = () => ({})
+    ) {}
 
-    constructor(private readonly tokens: TokenProvider) {}
+    /** `org`'s base URL, honouring configured Azure DevOps Server collections. */
+    orgUrl(org: string): string {
+        return normalizeOrgUrl(org, this.collectionUrls());
+    }
+
+    /**
+     * `fetch` at the API version `org`'s server supports. An older Azure
+     * DevOps Server rejects our version naming its latest one; that is
+     * remembered for the organization and the request retried once.
+     */
+    private async send(org: string, url: string, init: RequestInit): Promise<Response> {
+        const orgUrl = this.orgUrl(org);
+        const negotiated = this.apiVersions.get(orgUrl);
+        const res = await fetch(negotiated ? withApiVersion(url, negotiated) : url, init);
+        if (res.status !== 400 || negotiated) return res;
+        const latest = latestApiVersionFromError(await res.clone().text());
+        if (!latest) return res;
+        this.apiVersions.set(orgUrl, latest);
+        return fetch(withApiVersion(url, latest), init);
+    }
 
-    private async headers(extra?: Record<string, string>): Promise<Record<string, string> | undefined> {
-        const token = await this.tokens.getToken();
-        if (!token) return undefined;
+    /** Remaining wait (ms) the server imposed on `org`, or 0 if writes may proceed. */
+    private throttledFor(org: string): number {
+        return Math.max(0, (this.blockedUntil.get(this.orgUrl(org)) ?? 0) - Date.now());
+    }
+
+    /**
+     * Remember a wait the server asked for. ADO sends `Retry-After` on
+     * successful responses too when it starts delaying a caller, so this runs
+     * for every write, not just 429s.
+     */
+    private noteRateLimit(org: string, res: Response): number | undefined {
+        const delay = retryDelayFromHeaders(res.headers);
+        if (delay) this.blockedUntil.set(this.orgUrl(org), Date.now() + delay);
+        return delay;
+    }
+
+    private throttledError(org: string): PatchResult | undefined {
+        const wait = this.throttledFor(org);
+        if (wait <= 0) return undefined;
+        return { success: false, error: { status: 429, message: 'Throttled (waiting for Retry-After)', retryAfterMs: wait } };
+    }
+
+    /** Request headers carrying `org`'s credential (bearer token or PAT). */
+    private async headers(org: string, extra?: Record<string, string>): Promise<Record<string, string> | undefined> {
+        const authorization = await this.tokens.getAuthorization(org);
+        if (!authorization) return undefined;
         return {
-            Authorization: `Bearer ${token}`,
+            Authorization: authorization,
             'Content-Type': 'application/json',
             ...extra
         };
     }
 
     private baseUrl(org: string, project?: string): string {
-        const orgUrl = normalizeOrgUrl(org);
+        const orgUrl = this.orgUrl(org);
         return project ? `${orgUrl}/${encodeURIComponent(project)}/_apis` : `${orgUrl}/_apis`;
     }
 
-    /** Run a saved query by GUID and return the matching work item IDs. */
-    async runSavedQuery(org: string, project: string, queryId: string): Promise<number[] | undefined> {
-        const headers = await this.headers();
-        if (!headers) return undefined;
+    /**
+     * Run a saved query by GUID. The error's status tells a query that's gone
+     * (404) from one that merely failed this time.
+     */
+    async runSavedQuery(org: string, project: string, queryId: string): Promise<SavedQueryResult> {
+        const headers = await this.headers(org);
+        if (!headers) {
+            return { success: false, error: { status: 401, message: 'Not authenticated' } };
+        }
         const url = `${this.baseUrl(org, project)}/wit/wiql/${queryId}?api-version=${this.apiVersion}`;
-        const res = await fetch(url, { headers });
+        const res = await this.send(org, url, { headers });
+        if (!res.ok) {
+            return { success: false, error: { status: res.status, message: `HTTP ${res.status}` } };
+        }
+        return { success: true, ids: idsFromWiqlResult(await res.json()) };
+    }
+
+    /**
+     * Run an ad-hoc WIQL statement and return the matching work item IDs.
+     * `timePrecision` lets date comparisons honour the time of day, which the
+     * incremental pull relies on for its ChangedDate watermark.
+     */
+    async runWiql(org: string, project: string, wiql: string): Promise<number[] | undefined> {
+        const headers = await this.headers(org);
+        if (!headers) return undefined;
+        const url = `${this.baseUrl(org, project)}/wit/wiql?timePrecision=true&api-version=${this.apiVersion}`;
+        const res = await this.send(org, url, { method: 'POST', headers, body: JSON.stringify({ query: wiql }) });
         if (!res.ok) return undefined;
-        const body = (await res.json()) as {
-            workItems?: { id: number }[];
-            workItemRelations?: { target?: { id: number } }[];
-        };
-        if (body.workItems) return body.workItems.map((w) => w.id);
-        if (body.workItemRelations) {
-            return body.workItemRelations
-                .map((r) => r.target?.id)
-                .filter((id): id is number => typeof id === 'number');
+        return idsFromWiqlResult(await res.json());
+    }
+
+    /**
+     * The folders and queries directly inside a query folder, or the root
+     * folders ("My Queries", "Shared Queries") when no path is given.
+     */
+    async getQueryFolder(org: string, project: string, folderPath?: string): Promise<AdoQueryItem[] | undefined> {
+        const headers = await this.headers(org);
+        if (!headers) return undefined;
+        const route = folderPath ? '/' + folderPath.split('/').map(encodeURIComponent).join('/') : '';
+        const url = `${this.baseUrl(org, project)}/wit/queries${route}?$depth=1&api-version=${this.apiVersion}`;
+        const res = await this.send(org, url, { headers });
+        if (!res.ok) return undefined;
+        const body = (await res.json()) as AdoQueryItem & { value?: AdoQueryItem[] };
+        return folderPath ? body.children ?? [] : body.value ?? [];
+    }
+
+    /** Every saved query below a folder, walking its subfolders. */
+    async getQueriesUnder(org: string, project: string, folderPath: string): Promise<AdoQueryItem[] | undefined> {
+        const children = await this.getQueryFolder(org, project, folderPath);
+        if (!children) return undefined;
+        const queries: AdoQueryItem[] = [];
+        for (const child of children) {
+            if (!child.isFolder) {
+                queries.push(child);
+                continue;
+            }
+            if (child.hasChildren === false) continue;
+            const nested = await this.getQueriesUnder(org, project, child.path);
+            if (!nested) return undefined;
+            queries.push(...nested);
         }
-        return [];
+        return queries;
+    }
+
+    /** Saved queries and folders whose name contains `text`, anywhere in the project. */
+    async searchQueries(org: string, project: string, text: string): Promise<AdoQueryItem[] | undefined> {
+        const headers = await this.headers(org);
+        if (!headers) return undefined;
+        const url = `${this.baseUrl(org, project)}/wit/queries?$filter=${encodeURIComponent(text)}&$top=50&api-version=${this.apiVersion}`;
+        const res = await this.send(org, url, { headers });
+        if (!res.ok) return undefined;
+        const body = (await res.json()) as { value?: AdoQueryItem[] };
+        return body.value ?? [];
     }
 
-    /** Batch-fetch work items by ID (max 200 per call). */
+    /** Every field defined in the project's process: its type and whether it's read-only. */
+    async getFieldDefinitions(org: string, project: string): Promise<AdoFieldDefinition[] | undefined> {
+        const headers = await this.headers(org);
+        if (!headers) return undefined;
+        const url = `${this.baseUrl(org, project)}/wit/fields?api-version=${this.apiVersion}`;
+        const res = await this.send(org, url, { headers });
+        if (!res.ok) return undefined;
+        const body = (await res.json()) as { value?: AdoFieldDefinition[] };
+        return body.value ?? [];
+    }
+
+    /** The fields on one work item type, with allowed values and required flags. */
+    async getWorkItemTypeFields(org: string, project: string, workItemType: string): Promise<AdoWorkItemTypeField[] | undefined> {
+        const headers = await this.headers(org);
+        if (!headers) return undefined;
+        const url = `${this.baseUrl(org, project)}/wit/workitemtypes/${encodeURIComponent(workItemType)}/fields?$expand=allowedValues&api-version=${this.apiVersion}`;
+        const res = await this.send(org, url, { headers });
+        if (!res.ok) return undefined;
+        const body = (await res.json()) as { value?: AdoWorkItemTypeField[] };
+        return body.value ?? [];
+    }
+
+    /** A work item type's states, in process order, with their categories. */
+    async getWorkItemTypeStates(org: string, project: string, workItemType: string): Promise<WorkItemTypeState[] | undefined> {
+        const headers = await this.headers(org);
+        if (!headers) return undefined;
+        const url = `${this.baseUrl(org, project)}/wit/workitemtypes/${encodeURIComponent(workItemType)}/states?api-version=${this.apiVersion}`;
+        const res = await this.send(org, url, { headers });
+        if (!res.ok) return undefined;
+        const body = (await res.json()) as { value?: WorkItemTypeState[] };
+        return body.value ?? [];
+    }
+
+    /** The saved query or folder at `path`, e.g. "Shared Queries/Team/Active Bugs". */
+    async getQueryByPath(org: string, project: string, path: string): Promise<AdoQueryItem | undefined> {
+        const headers = await this.headers(org);
+        if (!headers) return undefined;
+        const route = path.split('/').filter(Boolean).map(encodeURIComponent).join('/');
+        const url = `${this.baseUrl(org, project)}/wit/queries/${route}?api-version=${this.apiVersion}`;
+        const res = await this.send(org, url, { headers });
+        if (!res.ok) return undefined;
+        return (await res.json()) as AdoQueryItem;
+    }
+
+    /** Fetch the WIQL text behind a saved query. */
+    async getQueryWiql(org: string, project: string, queryId: string): Promise<string | undefined> {
+        const headers = await this.headers(org);
+        if (!headers) return undefined;
+        const url = `${this.baseUrl(org, project)}/wit/queries/${queryId}?$expand=wiql&api-version=${this.apiVersion}`;
+        const res = await this.send(org, url, { headers });
+        if (!res.ok) return undefined;
+        const body = (await res.json()) as { wiql?: string };
+        return body.wiql;
+    }
+
+    /**
+     * Batch-fetch work items by ID (max 200 per call). IDs that no longer exist
+     * (deleted, or moved out of reach) are omitted rather than failing the batch,
+     * so callers can detect them by absence.
+     *
+     * With `expandRelations`, each item comes back with its `relations`. The API
+     * refuses `fields` alongside `$expand`, so the request asks for every field
+     * and the response is trimmed back to `fields` here.
+     */
     async batchGetWorkItems(
         org: string,
         project: string,
         ids: number[],
-        fields: string[]
+        fields: string[],
+        expandRelations = false
     ): Promise<WorkItem[] | undefined> {
         if (ids.length === 0) return [];
-        const headers = await this.headers();
+        const headers = await this.headers(org);
         if (!headers) return undefined;
         const all: WorkItem[] = [];
         for (let i = 0; i < ids.length; i += 200) {
             const chunk = ids.slice(i, i + 200);
             const url = `${this.baseUrl(org, project)}/wit/workitemsbatch?api-version=${this.apiVersion}`;
-            const res = await fetch(url, {
+            const res = await this.send(org, url, {
                 method: 'POST',
                 headers,
-                body: JSON.stringify({ ids: chunk, fields })
+                body: JSON.stringify(expandRelations
+                    ? { ids: chunk, $expand: 'Relations', errorPolicy: 'omit' }
+                    : { ids: chunk, fields, errorPolicy: 'omit' })
             });
             if (!res.ok) return undefined;
-            const body = (await res.json()) as { value?: WorkItem[] };
-            all.push(...(body.value ?? []));
+            const body = (await res.json()) as { value?: (WorkItem | null)[] };
+            const items = (body.value ?? []).filter((w): w is WorkItem => !!w);
+            if (expandRelations) {
+                const wanted = new Set(fields);
+                for (const wi of items) {
+                    wi.fields = Object.fromEntries(Object.entries(wi.fields ?? {}).filter(([ref]) => wanted.has(ref)));
+                }
+            }
+            all.push(...items);
         }
         return all;
     }
 
-    /** Fetch a single work item and its ETag (for conflict detection). */
-    async getWorkItem(org: string, project: string, id: number): Promise<{ workItem: WorkItem; etag?: string; rev?: number } | undefined> {
-        const headers = await this.headers();
+    /** Fetch a single work item and its ETag (for conflict detection), optionally with its relations. */
+    async getWorkItem(
+        org: string,
+        project: string,
+        id: number,
+        expandRelations = false
+    ): Promise<{ workItem: WorkItem; etag?: string; rev?: number } | undefined> {
+        const headers = await this.headers(org);
         if (!headers) return undefined;
-        const url = `${this.baseUrl(org, project)}/wit/workitems/${id}?api-version=${this.apiVersion}`;
-        const res = await fetch(url, { headers });
+        const expand = expandRelations ? '$expand=relations&' : '';
+        const url = `${this.baseUrl(org, project)}/wit/workitems/${id}?${expand}api-version=${this.apiVersion}`;
+        const res = await this.send(org, url, { headers });
         if (!res.ok) return undefined;
         const workItem = (await res.json()) as WorkItem & { rev?: number };
         return { workItem, etag: res.headers.get('etag') ?? undefined, rev: workItem.rev };
     }
 
+    /** A work item's discussion, oldest first, following continuation tokens. */
+    async getComments(org: string, project: string, id: number): Promise<AdoComment[] | undefined> {
+        const headers = await this.headers(org);
+        if (!headers) return undefined;
+        const all: AdoComment[] = [];
+        let continuation: string | undefined;
+        do {
+            const token = continuation ? `&continuationToken=${encodeURIComponent(continuation)}` : '';
+            const url = `${this.baseUrl(org, project)}/wit/workItems/${id}/comments?order=asc&$top=200${token}&api-version=${this.commentsApiVersion}`;
+            const res = await this.send(org, url, { headers });
+            if (!res.ok) return undefined;
+            const body = (await res.json()) as { comments?: AdoComment[]; continuationToken?: string };
+            all.push(...(body.comments ?? []).filter(c => !c.isDeleted));
+            continuation = body.continuationToken || undefined;
+        } while (continuation);
+        return all;
+    }
+
+    /**
+     * A work item's updates in order, after the first `skip` (updates never
+     * change once made, so a cache only needs what follows its last one).
+     */
+    async getUpdates(org: string, project: string, id: number, skip = 0): Promise<AdoWorkItemUpdate[] | undefined> {
+        const headers = await this.headers(org);
+        if (!headers) return undefined;
+        const pageSize = 200;
+        const all: AdoWorkItemUpdate[] = [];
+        for (;;) {
+            const url = `${this.baseUrl(org, project)}/wit/workItems/${id}/updates?$top=${pageSize}&$skip=${skip + all.length}&api-version=${this.apiVersion}`;
+            const res = await this.send(org, url, { headers });
+            if (!res.ok) return undefined;
+            const page = ((await res.json()) as { value?: AdoWorkItemUpdate[] }).value ?? [];
+            all.push(...page);
+            if (page.length < pageSize) return all;
+        }
+    }
+
+    /** Upload a file to the attachments store; link it from a work item afterwards. */
+    async uploadAttachment(org: string, project: string, fileName: string, content: Uint8Array): Promise<UploadResult> {
+        const headers = await this.headers(org, { 'Content-Type': 'application/octet-stream' });
+        if (!headers) {
+            return { success: false, error: { status: 401, message: 'Not authenticated' } };
+        }
+        const throttled = this.throttledError(org);
+        if (throttled) return throttled;
+        const url = `${this.baseUrl(org, project)}/wit/attachments?fileName=${encodeURIComponent(fileName)}&api-version=${this.apiVersion}`;
+        const res = await this.send(org, url, { method: 'POST', headers, body: content });
+        const retryAfterMs = this.noteRateLimit(org, res);
+
+        if (res.status === 429) {
+            return { success: false, error: { status: 429, message: 'Throttled', retryAfterMs } };
+        }
+        if (!res.ok) {
+            let detail = `HTTP ${res.status}`;
+            try {
+                const body = (await res.json()) as { message?: string };
+                if (body.message) detail = body.message;
+            } catch {
+                /* ignore */
+            }
+            return { success: false, error: { status: res.status, message: detail, retryAfterMs } };
+        }
+        return { success: true, url: ((await res.json()) as { url?: string }).url };
+    }
+
+    /** Download an attachment's content from its relation URL. */
+    async downloadAttachment(org: string, attachmentUrl: string): Promise<Uint8Array | undefined> {
+        const headers = await this.headers(org, { Accept: 'application/octet-stream' });
+        if (!headers) return undefined;
+        const sep = attachmentUrl.includes('?') ? '&' : '?';
+        const res = await this.send(org, `${attachmentUrl}${sep}download=true&api-version=${this.apiVersion}`, { headers });
+        if (!res.ok) return undefined;
+        return new Uint8Array(await res.arrayBuffer());
+    }
+
+    /** Post a comment (HTML) to a work item's discussion. */
+    async addComment(org: string, project: string, id: number, text: string): Promise<CommentResult> {
+        const headers = await this.headers(org);
+        if (!headers) {
+            return { success: false, error: { status: 401, message: 'Not authenticated' } };
+        }
+        const throttled = this.throttledError(org);
+        if (throttled) return throttled;
+        const url = `${this.baseUrl(org, project)}/wit/workItems/${id}/comments?api-version=${this.commentsApiVersion}`;
+        const res = await this.send(org, url, { method: 'POST', headers, body: JSON.stringify({ text }) });
+        const retryAfterMs = this.noteRateLimit(org, res);
+
+        if (res.status === 429) {
+            return { success: false, error: { status: 429, message: 'Throttled', retryAfterMs } };
+        }
+        if (!res.ok) {
+            let detail = `HTTP ${res.status}`;
+            try {
+                const body = (await res.json()) as { message?: string };
+                if (body.message) detail = body.message;
+            } catch {
+                /* ignore */
+            }
+            return { success: false, error: { status: res.status, message: detail, retryAfterMs } };
+        }
+        return { success: true, comment: (await res.json()) as AdoComment };
+    }
+
     /**
      * PATCH a work item with a JSON-Patch document, optionally guarded by an
      * ETag for optimistic concurrency. Returns conflict=true on HTTP 412.
@@ -128,21 +514,31 @@ export class AdoRestClient {
     ): Promise<PatchResult> {
         const extra: Record<string, string> = { 'Content-Type': 'application/json-patch+json' };
         if (etag) extra['If-Match'] = etag;
-        const headers = await this.headers(extra);
+        const headers = await this.headers(org, extra);
         if (!headers) {
             return { success: false, error: { status: 401, message: 'Not authenticated' } };
         }
+        const throttled = this.throttledError(org);
+        if (throttled) return throttled;
         const url = `${this.baseUrl(org, project)}/wit/workitems/${id}?api-version=${this.apiVersion}`;
-        const res = await fetch(url, { method: 'PATCH', headers, body: JSON.stringify(ops) });
+        const res = await this.send(org, url, { method: 'PATCH', headers, body: JSON.stringify(ops) });
+        const retryAfterMs = this.noteRateLimit(org, res);
 
         if (res.status === 412) {
             return { success: false, conflict: true, error: { status: 412, message: 'Precondition failed (item changed on server)' } };
         }
         if (res.status === 429) {
-            return { success: false, error: { status: 429, message: 'Throttled' } };
+            return { success: false, error: { status: 429, message: 'Throttled', retryAfterMs } };
         }
         if (!res.ok) {
-            return { success: false, error: { status: res.status, message: `HTTP ${res.status}` } };
+            let detail = `HTTP ${res.status}`;
+            try {
+                const body = (await res.json()) as { message?: string };
+                if (body.message) detail = body.message;
+            } catch {
+                /* ignore */
+            }
+            return { success: false, error: { status: res.status, message: detail, retryAfterMs } };
         }
         const workItem = (await res.json()) as WorkItem & { rev?: number };
         return { success: true, workItem, etag: res.headers.get('etag') ?? undefined, rev: workItem.rev };
@@ -150,27 +546,39 @@ export class AdoRestClient {
 
     /**
      * Create a new work item of `type` (e.g. "Task", "Bug") with the given
-     * fields. Returns the new item (including its server-assigned id) on success.
+     * fields, linked under `parentId` when given. Returns the new item
+     * (including its server-assigned id) on success.
      */
     async createWorkItem(
         org: string,
         project: string,
         type: string,
-        fields: Record<string, unknown>
+        fields: Record<string, unknown>,
+        parentId?: number
     ): Promise<PatchResult> {
-        const headers = await this.headers({ 'Content-Type': 'application/json-patch+json' });
+        const headers = await this.headers(org, { 'Content-Type': 'application/json-patch+json' });
         if (!headers) {
             return { success: false, error: { status: 401, message: 'Not authenticated' } };
         }
         const ops: JsonPatchOp[] = Object.entries(fields)
             .filter(([, v]) => v !== undefined && v !== null && v !== '')
             .map(([path, value]) => ({ op: 'add', path: `/fields/${path}`, value }));
+        if (parentId !== undefined) {
+            ops.push({
+                op: 'add',
+                path: '/relations/-',
+                value: { rel: 'System.LinkTypes.Hierarchy-Reverse', url: workItemApiUrl(this.orgUrl(org), parentId) }
+            });
+        }
 
+        const throttled = this.throttledError(org);
+        if (throttled) return throttled;
         const url = `${this.baseUrl(org, project)}/wit/workitems/$${encodeURIComponent(type)}?api-version=${this.apiVersion}`;
-        const res = await fetch(url, { method: 'POST', headers, body: JSON.stringify(ops) });
+        const res = await this.send(org, url, { method: 'POST', headers, body: JSON.stringify(ops) });
+        const retryAfterMs = this.noteRateLimit(org, res);
 
         if (res.status === 429) {
-            return { success: false, error: { status: 429, message: 'Throttled' } };
+            return { success: false, error: { status: 429, message: 'Throttled', retryAfterMs } };
         }
         if (!res.ok) {
             let detail = `HTTP ${res.status}`;
@@ -180,7 +588,7 @@ export class AdoRestClient {
             } catch {
                 /* ignore */
             }
-            return { success: false, error: { status: res.status, message: detail } };
+            return { success: false, error: { status: res.status, message: detail, retryAfterMs } };
         }
         const workItem = (await res.json()) as WorkItem & { rev?: number };
         return { success: true, workItem, etag: res.headers.get('etag') ?? undefined, rev: workItem.rev };
@@ -1,5 +1,15 @@
 import * as vscode from 'vscode';
 import { AzCliRunner } from '../ado/AzCliRunner';
+import { normalizeOrgUrl } from '../ado/AdoRestClient';
+import { Settings } from '../config/Settings';
+import { orgKey } from '../model/workItemKey';
+import { configuredTenant, tenantFromHeaders } from './tenant';
+import { StoredPat, basicAuthorization, parsePatOrgs, parseStoredPat } from './pat';
+
+/** SecretStorage key of an organization's PAT. */
+const patSecretKey = (key: string) => `adoQueries.pat:${key}`;
+/** SecretStorage key of the organizations that have a PAT stored. */
+const PAT_INDEX_KEY = 'adoQueries.pat.orgs';
 
 /**
  * The well-known Azure DevOps application (resource) ID. Requesting a token for
@@ -17,8 +27,18 @@ interface CachedToken {
     expiresAt: number;
 }
 
+/** Which account serves an organization, for the Manage Accounts list. */
+export interface OrgAccount {
+    org: string;
+    /** The account's label (usually its UPN), when signed in. */
+    account?: string;
+    source?: 'microsoft' | 'azureCli' | 'pat';
+    tenant?: string;
+    tenantSource?: 'configured' | 'discovered';
+}
+
 /**
- * Single source of bearer tokens for Azure DevOps.
+ * Single source of bearer tokens for Azure DevOps, per organization.
  *
  * Primary: VS Code's built-in **Microsoft authentication provider** — reuses the
  * user's interactive corporate sign-in (MFA / Conditional Access / device
@@ -28,67 +48,165 @@ interface CachedToken {
  * Fallback: the **Azure CLI** access token (the extension already depends on
  * `az login`), used only when the VS Code provider can't return a session.
  *
- * The rest of the app depends only on {@link getToken}; it never knows or cares
- * which source produced the token.
+ * Opt-in: a **personal access token** saved per organization in SecretStorage
+ * (for devboxes and Azure DevOps Server where neither of the above is allowed).
+ * An org with a PAT always uses it, sent as Basic auth.
+ *
+ * Organizations can live in different Entra tenants, so tokens are requested
+ * and cached per organization, in the org's tenant: the one configured in
+ * `adoQueries.tenants`, else the one the org's sign-in redirect names.
+ *
+ * The rest of the app depends only on {@link getAuthorization}; it never knows
+ * or cares which source produced the credential.
  */
 export class TokenProvider {
-    private cached: CachedToken | undefined;
+    /** Tokens by {@link orgKey}. */
+    private readonly cached = new Map<string, CachedToken>();
+    /** Discovered tenants by {@link orgKey}; null when the org reported none. */
+    private readonly discovered = new Map<string, string | null>();
+    /** Stored PATs by {@link orgKey}; null when the org has none. */
+    private readonly pats = new Map<string, StoredPat | null>();
+    /** The account that last served each org, by {@link orgKey}. */
+    private readonly accounts = new Map<string, Pick<OrgAccount, 'account' | 'source'>>();
     private readonly _onDidChangeAuth = new vscode.EventEmitter<void>();
     readonly onDidChangeAuth = this._onDidChangeAuth.event;
 
-    constructor(private readonly cliRunner: AzCliRunner = new AzCliRunner()) {
+    constructor(
+        private readonly cliRunner: AzCliRunner = new AzCliRunner(),
+        private readonly secrets?: vscode.SecretStorage
+    ) {
         // React to the user signing in/out elsewhere in VS Code.
         try {
             vscode.authentication.onDidChangeSessions((e) => {
                 if (e.provider.id === 'microsoft') {
-                    this.cached = undefined;
+                    this.cached.clear();
+                    this.accounts.clear();
                     this._onDidChangeAuth.fire();
                 }
             });
         } catch {
             // authentication API may be unavailable in some hosts; degrade gracefully.
         }
+        secrets?.onDidChange((e) => {
+            if (e.key.startsWith('adoQueries.pat')) {
+                this.pats.clear();
+                this._onDidChangeAuth.fire();
+            }
+        });
+        // A changed tenant means different sessions; start over.
+        vscode.workspace.onDidChangeConfiguration((e) => {
+            if (e.affectsConfiguration('adoQueries.tenants') || e.affectsConfiguration('adoQueries.collectionUrls')) {
+                this.cached.clear();
+                this.accounts.clear();
+                this._onDidChangeAuth.fire();
+            }
+        });
     }
 
-    /** True if we currently hold (or can silently obtain) a session. */
-    async isSignedIn(): Promise<boolean> {
-        const session = await this.getMicrosoftSession(false);
+    /** True if we currently hold (or can silently obtain) a session for `org` (default: the configured one). */
+    async isSignedIn(org?: string): Promise<boolean> {
+        if (await this.getPat(org)) return true;
+        const session = await this.getMicrosoftSession(false, await this.tenantFor(org));
         return !!session;
     }
 
     /**
-     * Return a valid bearer token, or undefined if none can be obtained without
-     * interaction. Callers should degrade to offline mode on undefined.
+     * Return a valid bearer token for `org` (default: the configured one), or
+     * undefined if none can be obtained without interaction. Callers should
+     * degrade to offline mode on undefined.
      */
-    async getToken(): Promise<string | undefined> {
+    async getToken(org?: string): Promise<string | undefined> {
+        const key = this.keyOf(org);
         const now = Date.now();
-        if (this.cached && this.cached.expiresAt - now > 5 * 60 * 1000) {
-            return this.cached.token;
+        const cached = this.cached.get(key);
+        if (cached && cached.expiresAt - now > 5 * 60 * 1000) {
+            return cached.token;
         }
 
         // Primary: VS Code Microsoft provider (silent).
-        const session = await this.getMicrosoftSession(false);
+        const tenant = await this.tenantFor(org);
+        const session = await this.getMicrosoftSession(false, tenant);
         if (session?.accessToken) {
             // VS Code refreshes silently; we cache for an hour minus a margin.
-            this.cached = { token: session.accessToken, expiresAt: now + 55 * 60 * 1000 };
+            this.remember(key, { token: session.accessToken, expiresAt: now + 55 * 60 * 1000 }, session.account.label, 'microsoft');
             return session.accessToken;
         }
 
         // Fallback: Azure CLI token.
-        const cliToken = await this.getCliToken();
+        const cliToken = await this.getCliToken(tenant);
         if (cliToken) {
-            this.cached = cliToken;
+            this.remember(key, cliToken, undefined, 'azureCli');
             return cliToken.token;
         }
 
         return undefined;
     }
 
-    /** Force an interactive sign-in (e.g. from a "Sign in" button). */
-    async signIn(): Promise<boolean> {
-        const session = await this.getMicrosoftSession(true);
+    /** The `Authorization` header value for `org`: its PAT if it has one, else a bearer token. */
+    async getAuthorization(org?: string): Promise<string | undefined> {
+        const pat = await this.getPat(org);
+        if (pat) return basicAuthorization(pat.token);
+        const token = await this.getToken(org);
+        return token ? `Bearer ${token}` : undefined;
+    }
+
+    /** The PAT stored for `org` (default: the configured one), if any. */
+    async getPat(org?: string): Promise<StoredPat | undefined> {
+        if (!this.secrets) return undefined;
+        const key = this.keyOf(org);
+        if (!this.pats.has(key)) {
+            this.pats.set(key, parseStoredPat(await this.secrets.get(patSecretKey(key))) ?? null);
+        }
+        return this.pats.get(key) ?? undefined;
+    }
+
+    /** Organizations (as entered) with a stored PAT. */
+    async patOrgs(): Promise<string[]> {
+        return parsePatOrgs(await this.secrets?.get(PAT_INDEX_KEY));
+    }
+
+    /** Save (or with undefined, remove) `org`'s PAT. */
+    async setPat(org: string, pat: StoredPat | undefined): Promise<void> {
+        if (!this.secrets) return;
+        const key = this.keyOf(org);
+        const orgs = (await this.patOrgs()).filter(o => orgKey(o) !== key);
+        if (pat) {
+            await this.secrets.store(patSecretKey(key), JSON.stringify(pat));
+            orgs.push(org);
+        } else {
+            await this.secrets.delete(patSecretKey(key));
+        }
+        await this.secrets.store(PAT_INDEX_KEY, JSON.stringify(orgs));
+        this.pats.set(key, pat ?? null);
+        this.cached.delete(key);
+    }
+
+    /**
+     * Check a PAT against `org`: the identity it signs in as, or undefined when
+     * ADO rejects it (revoked, expired or lacking scope). Throws when the org
+     * can't be reached, so offline isn't mistaken for invalid.
+     */
+    async verifyPat(org: string, token: string): Promise<string | undefined> {
+        const res = await fetch(`${normalizeOrgUrl(org, Settings.collectionUrls)}/_apis/connectionData`, {
+            headers: { Authorization: basicAuthorization(token) },
+            redirect: 'manual'
+        });
+        // A rejected PAT gets a 401, or a 203/302 to the sign-in page.
+        if (res.status !== 200) return undefined;
+        const data = await res.json() as { authenticatedUser?: { providerDisplayName?: string; properties?: { Account?: { $value?: string } } } };
+        const user = data.authenticatedUser;
+        return user?.properties?.Account?.$value ?? user?.providerDisplayName;
+    }
+
+    /**
+     * Force an interactive sign-in for `org` (e.g. from a "Sign in" button).
+     * With `chooseAccount`, VS Code asks which account to use instead of
+     * reusing the remembered one.
+     */
+    async signIn(org?: string, chooseAccount = false): Promise<boolean> {
+        const session = await this.getMicrosoftSession(true, await this.tenantFor(org), chooseAccount);
         if (session?.accessToken) {
-            this.cached = { token: session.accessToken, expiresAt: Date.now() + 55 * 60 * 1000 };
+            this.remember(this.keyOf(org), { token: session.accessToken, expiresAt: Date.now() + 55 * 60 * 1000 }, session.account.label, 'microsoft');
             this._onDidChangeAuth.fire();
             return true;
         }
@@ -96,11 +214,13 @@ export class TokenProvider {
     }
 
     /**
-     * The signed-in user's unique name (email/UPN), used to default the
+     * The signed-in user's unique name (email/UPN) in `org`, used to default the
      * "Assigned To" field. Falls back to the Azure CLI's signed-in user.
      */
-    async getSignedInUser(): Promise<string | undefined> {
-        const session = await this.getMicrosoftSession(false);
+    async getSignedInUser(org?: string): Promise<string | undefined> {
+        const pat = await this.getPat(org);
+        if (pat?.user) return pat.user;
+        const session = await this.getMicrosoftSession(false, await this.tenantFor(org));
         // account.label is typically the UPN/email; fall back to the CLI user.
         const label = session?.account?.label;
         if (label && label.includes('@')) return label;
@@ -116,21 +236,74 @@ export class TokenProvider {
         return label;
     }
 
-    private async getMicrosoftSession(createIfNone: boolean): Promise<vscode.AuthenticationSession | undefined> {
+    /** Which account and tenant serve each of `orgs`, signing in silently where possible. */
+    async describeAccounts(orgs: string[]): Promise<OrgAccount[]> {
+        const described: OrgAccount[] = [];
+        for (const org of orgs) {
+            const configured = configuredTenant(Settings.tenants, org);
+            const tenant = await this.tenantFor(org);
+            const pat = await this.getPat(org);
+            if (!pat) await this.getToken(org);
+            described.push({
+                org,
+                ...(pat ? { account: pat.user, source: 'pat' as const } : this.accounts.get(this.keyOf(org))),
+                tenant,
+                tenantSource: configured ? 'configured' : tenant ? 'discovered' : undefined
+            });
+        }
+        return described;
+    }
+
+    private keyOf(org: string | undefined): string {
+        return orgKey(org || Settings.organization);
+    }
+
+    private remember(key: string, token: CachedToken, account: string | undefined, source: OrgAccount['source']): void {
+        this.cached.set(key, token);
+        this.accounts.set(key, { account, source });
+    }
+
+    /** The org's tenant: configured, else discovered once from its sign-in redirect. */
+    private async tenantFor(org: string | undefined): Promise<string | undefined> {
+        org ||= Settings.organization;
+        if (!org) return undefined;
+        const configured = configuredTenant(Settings.tenants, org);
+        if (configured) return configured;
+
+        const key = orgKey(org);
+        if (!this.discovered.has(key)) {
+            try {
+                const res = await fetch(`${normalizeOrgUrl(org, Settings.collectionUrls)}/_apis/connectionData`, { redirect: 'manual' });
+                this.discovered.set(key, tenantFromHeaders(res.headers) ?? null);
+            } catch {
+                // Offline: try again next time rather than remembering "no tenant".
+                return undefined;
+            }
+        }
+        return this.discovered.get(key) ?? undefined;
+    }
+
+    private async getMicrosoftSession(
+        createIfNone: boolean,
+        tenant?: string,
+        clearSessionPreference = false
+    ): Promise<vscode.AuthenticationSession | undefined> {
+        const scopes = tenant ? [...ADO_SCOPES, `VSCODE_TENANT:${tenant}`] : ADO_SCOPES;
         try {
-            return await vscode.authentication.getSession('microsoft', ADO_SCOPES, {
+            return await vscode.authentication.getSession('microsoft', scopes, {
                 createIfNone,
-                silent: !createIfNone
+                silent: !createIfNone,
+                clearSessionPreference
             });
         } catch {
             return undefined;
         }
     }
 
-    private async getCliToken(): Promise<CachedToken | undefined> {
+    private async getCliToken(tenant?: string): Promise<CachedToken | undefined> {
         try {
             const result = await this.cliRunner.execute<{ accessToken: string; expiresOn?: string; expires_on?: number }>(
-                ['account', 'get-access-token', '--resource', ADO_RESOURCE_ID]
+                ['account', 'get-access-token', '--resource', ADO_RESOURCE_ID, ...(tenant ? ['--tenant', tenant] : [])]
             );
             if (result.success && result.data?.accessToken) {
                 let expiresAt = Date.now() + 50 * 60 * 1000;
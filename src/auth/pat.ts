@@ -0,0 +1,55 @@
+/** Days before a PAT's expiry that we start warning about it. */
+export const PAT_EXPIRY_WARNING_DAYS = 7;
+
+/** A personal access token as kept in SecretStorage, one per organization. */
+export interface StoredPat {
+    token: string;
+    /** The identity the token signed in as when it was saved. */
+    user?: string;
+    /**
+     * Expiry date (YYYY-MM-DD) as entered when saving; a PAT can't read its own
+     * expiry, so this is what the user copied from the token's page.
+     */
+    expiresOn?: string;
+}
+
+/** The `Authorization` header value for a PAT: Basic auth with an empty user name. */
+export function basicAuthorization(pat: string): string {
+    return `Basic ${Buffer.from(`:${pat}`).toString('base64')}`;
+}
+
+/** Read a stored PAT back; undefined for anything that isn't one. */
+export function parseStoredPat(raw: string | undefined): StoredPat | undefined {
+    if (!raw) return undefined;
+    try {
+        const parsed = JSON.parse(raw) as Partial<StoredPat>;
+        return typeof parsed.token === 'string' && parsed.token ? parsed as StoredPat : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Read the stored list of organizations with a PAT back; empty for a corrupt
+ * or hand-edited value, so one bad entry can't break sign-in for every org.
+ */
+export function parsePatOrgs(raw: string | undefined): string[] {
+    if (!raw) return [];
+    try {
+        const parsed: unknown = JSON.parse(raw);
+        return Array.isArray(parsed) ? parsed.filter((org): org is string => typeof org === 'string') : [];
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Whole days left before a PAT expires (negative once it has), or undefined
+ * when its expiry isn't known. A token lasts through its expiry date.
+ */
+export function daysUntilExpiry(pat: StoredPat, now = new Date()): number | undefined {
+    if (!pat.expiresOn) return undefined;
+    const end = Date.parse(`${pat.expiresOn}T23:59:59Z`);
+    if (Number.isNaN(end)) return undefined;
+    return Math.floor((end - now.getTime()) / (24 * 60 * 60 * 1000));
+}
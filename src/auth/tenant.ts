@@ -0,0 +1,29 @@
+import { orgKey } from '../model/workItemKey';
+
+const GUID = /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/i;
+/** The tenant ADO reports for organizations backed by personal Microsoft accounts. */
+const NO_TENANT = '00000000-0000-0000-0000-000000000000';
+
+/**
+ * The Entra tenant an organization signs in through, from the headers of an
+ * anonymous request to it: `X-VSS-ResourceTenant`, else the login authority in
+ * `WWW-Authenticate`. Undefined for organizations without a tenant.
+ */
+export function tenantFromHeaders(headers: Headers): string | undefined {
+    const candidates = [
+        ...(headers.get('x-vss-resourcetenant') ?? '').split(','),
+        /authorization_uri="?https:\/\/[^/\s"]+\/([^/\s",]+)/i.exec(headers.get('www-authenticate') ?? '')?.[1] ?? ''
+    ];
+    for (const candidate of candidates) {
+        const tenant = GUID.exec(candidate.trim())?.[0].toLowerCase();
+        if (tenant && tenant !== NO_TENANT) return tenant;
+    }
+    return undefined;
+}
+
+/** The configured tenant for `org`, matching organization names and URLs alike. */
+export function configuredTenant(tenants: Record<string, string>, org: string): string | undefined {
+    const key = orgKey(org);
+    const entry = Object.entries(tenants).find(([name, tenant]) => orgKey(name) === key && tenant.trim());
+    return entry?.[1].trim();
+}
@@ -1,4 +1,6 @@
 import * as vscode from 'vscode';
+import { RemovedItemAction, StateCategoryOverrides } from '../model/types';
+import { orgKey } from '../model/workItemKey';
 
 /**
  * Group-by specification for a single grouping level
@@ -20,10 +22,24 @@ export interface QueryDefinition {
     project?: string;
     queryId?: string;
     queryPath?: string;
+    /** An inline WIQL statement, run directly instead of a saved query. */
+    wiql?: string;
     groupBy?: GroupSpec[];
     collapsed?: boolean;
 }
 
+/**
+ * A saved-query folder whose queries (including ones added later) all appear
+ * in the tree
+ */
+export interface QueryFolderDefinition {
+    /** Folder path, e.g. "Shared Queries/Team". */
+    path: string;
+    organization?: string;
+    project?: string;
+    groupBy?: GroupSpec[];
+}
+
 /**
  * Full extension settings
  */
@@ -32,6 +48,7 @@ export interface AdoSettings {
     project: string;
     detectFromGit: boolean;
     queries: QueryDefinition[];
+    queryFolders: QueryFolderDefinition[];
     groupBy: GroupSpec[];
     maxItems: number;
     refreshIntervalSeconds: number;
@@ -85,6 +102,13 @@ export class Settings {
         return this.getConfig().get<QueryDefinition[]>('queries', []);
     }
 
+    /**
+     * Get subscribed query folders
+     */
+    static get queryFolders(): QueryFolderDefinition[] {
+        return this.getConfig().get<QueryFolderDefinition[]>('queryFolders', []);
+    }
+
     /**
      * Get all active query definitions
      */
@@ -123,6 +147,33 @@ export class Settings {
         return this.getConfig().get<boolean>('alwaysPromptOnPush', false);
     }
 
+    /** What to do with a task whose work item left every query or was deleted. */
+    static get removedItemAction(): RemovedItemAction {
+        return this.getConfig().get<RemovedItemAction>('removedItemAction', 'logbook');
+    }
+
+    /** Per work item type state → category overrides for the process's own categories. */
+    static get stateCategories(): StateCategoryOverrides {
+        return this.getConfig().get<StateCategoryOverrides>('stateCategories', {});
+    }
+
+    /** Entra tenant ID per organization, for orgs whose sign-in redirect doesn't name one. */
+    static get tenants(): Record<string, string> {
+        return this.getConfig().get<Record<string, string>>('tenants', {});
+    }
+
+    /** Azure DevOps Server collection URL per organization name, for on-premises servers. */
+    static get collectionUrls(): Record<string, string> {
+        return this.getConfig().get<Record<string, string>>('collectionUrls', {});
+    }
+
+    /** Set (or with undefined, clear) the tenant used to sign in to `org`. */
+    static async setTenant(org: string, tenant: string | undefined): Promise<void> {
+        const tenants = Object.fromEntries(Object.entries(this.tenants).filter(([name]) => orgKey(name) !== orgKey(org)));
+        if (tenant) tenants[org] = tenant;
+        await this.getConfig().update('tenants', tenants, vscode.ConfigurationTarget.Global);
+    }
+
     static get cacheTtlSeconds(): number {
         return this.getConfig().get<number>('cacheTtlSeconds', 30);
     }
@@ -137,7 +188,7 @@ export class Settings {
      * Check if the extension is properly configured
      */
     static isConfigured(): boolean {
-        const hasQueries = this.queries.length > 0;
+        const hasQueries = this.queries.length > 0 || this.queryFolders.length > 0;
         const hasConnection = !!(this.organization && this.project) || this.detectFromGit;
         return hasQueries && hasConnection;
     }
@@ -148,8 +199,8 @@ export class Settings {
     static validate(): string[] {
         const issues: string[] = [];
 
-        if (this.queries.length === 0) {
-            issues.push('No queries configured. Add queries to adoQueries.queries');
+        if (this.queries.length === 0 && this.queryFolders.length === 0) {
+            issues.push('No queries configured. Add queries to adoQueries.queries or folders to adoQueries.queryFolders');
         }
 
         if (!this.organization && !this.detectFromGit) {
@@ -176,6 +227,7 @@ export class Settings {
             project: this.project,
             detectFromGit: this.detectFromGit,
             queries: this.queries,
+            queryFolders: this.queryFolders,
             groupBy: this.groupBy,
             maxItems: this.maxItems,
             refreshIntervalSeconds: this.refreshIntervalSeconds,
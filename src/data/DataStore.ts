@@ -1,6 +1,6 @@
 import { CliResult } from '../ado/AzCliRunner';
 import { WorkItem, AdoClient, WorkItemTypeState } from '../ado/AdoClient';
-import { QueryDefinition } from '../config/Settings';
+import { QueryDefinition, QueryFolderDefinition } from '../config/Settings';
 
 /**
  * DataStore is the seam between the UI and the underlying source of work items.
@@ -16,8 +16,14 @@ export interface DataStore {
     /** Fetch the work items for a single query definition. */
     getWorkItemsForQuery(queryDef: QueryDefinition): Promise<CliResult<WorkItem[]>>;
 
-    /** Resolve the canonical browser URL for a work item. */
-    getWorkItemUrl(id: number): Promise<string | undefined>;
+    /**
+     * The saved queries currently under a subscribed folder, or undefined
+     * when the folder can't be listed (the caller keeps what it had).
+     */
+    listFolderQueries(folder: QueryFolderDefinition): Promise<QueryDefinition[] | undefined>;
+
+    /** Resolve the canonical browser URL for a work item (in `org`, else the configured organization). */
+    getWorkItemUrl(id: number, org?: string, project?: string): Promise<string | undefined>;
 
     /** Build the browser URL for a query. */
     getQueryUrl(queryId?: string, org?: string, project?: string): string | undefined;
@@ -46,8 +52,13 @@ export class LiveDataStore implements DataStore {
         return this.adoClient.getWorkItemsForQuery(queryDef);
     }
 
-    getWorkItemUrl(id: number): Promise<string | undefined> {
-        return this.adoClient.getWorkItemUrl(id);
+    /** Folder listing needs the REST transport, which this store doesn't have. */
+    listFolderQueries(_folder: QueryFolderDefinition): Promise<QueryDefinition[] | undefined> {
+        return Promise.resolve(undefined);
+    }
+
+    getWorkItemUrl(id: number, org?: string, project?: string): Promise<string | undefined> {
+        return this.adoClient.getWorkItemUrl(id, org, project);
     }
 
     getQueryUrl(queryId?: string, org?: string, project?: string): string | undefined {
@@ -1,5 +1,6 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import { siblingKey, workItemKey } from '../model/workItemKey';
 
 /**
  * Shape of the persisted database file. Each top-level key is a "table"
@@ -20,13 +21,35 @@ export interface DbData {
     sync_state: any[];
     /** Per-query snapshot of returned work items, for offline reads. */
     query_cache: any[];
+    /** Persisted undo/redo history, oldest first (see UndoStack). */
+    undo_journal: any[];
+    /** Mirrored links between work items, one row per direction. */
+    work_item_links: any[];
+    /** Cached work item discussions, plus comments waiting to post. */
+    work_item_comments: any[];
+    /** Cached work item revision history (see HistoryRepository). */
+    work_item_updates: any[];
+    /** Work item attachments from `AttachedFile` relations, plus pending uploads. */
+    work_item_attachments: any[];
+    /** Per work item type field metadata (type, allowed values, flags) from the process. */
+    field_metadata: any[];
+    /** Per work item type states and their categories from the process. */
+    work_item_type_states: any[];
+    /** Saved query paths resolved to query IDs (see QueryPathRepository). */
+    query_paths: any[];
 }
 
 /** A migration mutates the in-memory data to bring it to `version`. */
 export interface Migration {
     version: number;
     name: string;
-    up(data: DbData): void;
+    up(data: DbData, context: MigrationContext): void;
+}
+
+/** What migrations may need to know beyond the data itself. */
+export interface MigrationContext {
+    /** The configured default organization, for rows that don't say theirs. */
+    defaultOrg?: string;
 }
 
 function emptyData(): DbData {
@@ -42,7 +65,15 @@ function emptyData(): DbData {
         saved_views: [],
         sync_queue: [],
         sync_state: [],
-        query_cache: []
+        query_cache: [],
+        undo_journal: [],
+        work_item_links: [],
+        work_item_comments: [],
+        work_item_updates: [],
+        work_item_attachments: [],
+        field_metadata: [],
+        work_item_type_states: [],
+        query_paths: []
     };
 }
 
@@ -73,6 +104,122 @@ export const MIGRATIONS: Migration[] = [
                 }
             }
         }
+    },
+    {
+        version: 3,
+        name: 'undo_journal',
+        up(data) {
+            if (!Array.isArray(data.undo_journal)) data.undo_journal = [];
+        }
+    },
+    {
+        version: 4,
+        name: 'work_item_links',
+        up(data) {
+            if (!Array.isArray(data.work_item_links)) data.work_item_links = [];
+        }
+    },
+    {
+        version: 5,
+        name: 'work_item_comments',
+        up(data) {
+            if (!Array.isArray(data.work_item_comments)) data.work_item_comments = [];
+        }
+    },
+    {
+        version: 6,
+        name: 'work_item_updates',
+        up(data) {
+            if (!Array.isArray(data.work_item_updates)) data.work_item_updates = [];
+        }
+    },
+    {
+        version: 7,
+        name: 'work_item_attachments',
+        up(data) {
+            if (!Array.isArray(data.work_item_attachments)) data.work_item_attachments = [];
+        }
+    },
+    {
+        version: 8,
+        name: 'field_metadata',
+        up(data) {
+            if (!Array.isArray(data.field_metadata)) data.field_metadata = [];
+        }
+    },
+    {
+        version: 9,
+        name: 'work_item_type_states',
+        up(data) {
+            if (!Array.isArray(data.work_item_type_states)) data.work_item_type_states = [];
+        }
+    },
+    {
+        version: 10,
+        name: 'org_qualified_work_items',
+        up(data, context) {
+            // Work item IDs are only unique within an organization. Key every row
+            // that held a bare ID by `<org>/<id>`, taking the org from the mirror.
+            const keys = new Map<number, string>();
+            for (const row of data.work_items) {
+                row.key ??= workItemKey(row.org, row.adoId);
+                keys.set(row.adoId, row.key);
+            }
+            // IDs missing from the mirror take their task's project's org, else the default.
+            const projectOrgs = new Map<string, string>();
+            for (const project of data.projects) {
+                if (project.adoBinding?.organization) projectOrgs.set(project.uuid, project.adoBinding.organization);
+            }
+            const taskOrgs = new Map<number, string>();
+            for (const task of data.tasks) {
+                const org = task.projectUuid && projectOrgs.get(task.projectUuid);
+                if (typeof task.adoId === 'number' && org) taskOrgs.set(task.adoId, org);
+            }
+            const keyOf = (id: number, sameOrgAs?: number): string => keys.get(id)
+                ?? (sameOrgAs !== undefined && keys.has(sameOrgAs) ? siblingKey(keys.get(sameOrgAs)!, id) : undefined)
+                ?? workItemKey(taskOrgs.get(id) ?? context.defaultOrg, id);
+
+            for (const task of data.tasks) {
+                if (typeof task.adoId === 'number') task.workItemKey = keyOf(task.adoId);
+                delete task.adoId;
+            }
+            for (const link of data.work_item_links) {
+                if (typeof link.sourceId !== 'number') continue;
+                link.sourceKey = keyOf(link.sourceId, link.targetId);
+                link.targetKey = siblingKey(link.sourceKey, link.targetId);
+                delete link.sourceId;
+                delete link.targetId;
+            }
+            for (const row of [...data.work_item_comments, ...data.work_item_updates, ...data.work_item_attachments]) {
+                if (typeof row.adoId !== 'number') continue;
+                row.workItemKey = keyOf(row.adoId);
+                delete row.adoId;
+            }
+            for (const op of data.sync_queue) {
+                if (op.entity === 'workitem' && /^\d+$/.test(op.targetId)) op.targetId = keyOf(Number(op.targetId));
+            }
+            for (const entry of data.undo_journal) {
+                if (entry.kind === 'task') {
+                    // Undo and redo write these snapshots back as they are.
+                    for (const snap of [entry.before, entry.after]) {
+                        if (!snap || typeof snap !== 'object') continue;
+                        if (typeof snap.adoId === 'number') snap.workItemKey = keyOf(snap.adoId);
+                        delete snap.adoId;
+                    }
+                    continue;
+                }
+                if (entry.kind !== 'adoField' || typeof entry.adoId !== 'number') continue;
+                entry.workItemKey = keyOf(entry.adoId);
+                delete entry.adoId;
+            }
+        }
+    },
+    {
+        version: 11,
+        name: 'query_paths',
+        up(data) {
+            if (!Array.isArray(data.query_paths)) data.query_paths = [];
+        }
     }
 ];
 
@@ -90,11 +237,11 @@ export class Database {
     private saveTimer: NodeJS.Timeout | undefined;
     private closed = false;
 
-    private constructor(private readonly filePath: string) {}
+    private constructor(private readonly filePath: string, private readonly context: MigrationContext = {}) {}
 
     /** Open (or create) the database at `filePath` and run pending migrations. */
-    static async open(filePath: string): Promise<Database> {
-        const db = new Database(filePath);
+    static async open(filePath: string, context: MigrationContext = {}): Promise<Database> {
+        const db = new Database(filePath, context);
         await db.load();
         db.migrate();
         db.saveNow();
@@ -130,7 +277,7 @@ export class Database {
         const current = this.data.meta.schemaVersion ?? 0;
         for (const migration of MIGRATIONS) {
             if (migration.version > current) {
-                migration.up(this.data);
+                migration.up(this.data, this.context);
                 this.data.meta.schemaVersion = migration.version;
             }
         }
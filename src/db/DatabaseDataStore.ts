@@ -1,12 +1,18 @@
 import { CliResult } from '../ado/AzCliRunner';
 import { WorkItem, AdoClient, WorkItemTypeState } from '../ado/AdoClient';
 import { AdoRestClient } from '../ado/AdoRestClient';
-import { DEFAULT_FIELDS } from '../sync/SyncEngine';
-import { QueryDefinition, Settings } from '../config/Settings';
+import { fieldsToMirror } from '../sync/SyncEngine';
+import { runQueryAtPath } from '../sync/queryPaths';
+import { QueryDefinition, QueryFolderDefinition, Settings } from '../config/Settings';
+import { folderQueryDefinitions } from '../utils/queryFolders';
 import { DataStore } from '../data/DataStore';
 import { Database } from './Database';
 import { WorkItemRepository, workItemRowFromAdo } from './repositories/WorkItemRepository';
 import { TaskRepository } from './repositories/TaskRepository';
+import { FieldMetadataRepository } from './repositories/FieldMetadataRepository';
+import { WorkItemStateRepository } from './repositories/WorkItemStateRepository';
+import { QueryPathRepository } from './repositories/QueryPathRepository';
+import { workItemKey } from '../model/workItemKey';
 
 interface QueryCacheRow {
     key: string;
@@ -24,6 +30,9 @@ interface QueryCacheRow {
 export class DatabaseDataStore implements DataStore {
     private readonly workItems: WorkItemRepository;
     private readonly tasks: TaskRepository;
+    private readonly fieldMetadata: FieldMetadataRepository;
+    private readonly states: WorkItemStateRepository;
+    private readonly queryPaths: QueryPathRepository;
 
     constructor(
         private readonly db: Database,
@@ -32,6 +41,9 @@ export class DatabaseDataStore implements DataStore {
     ) {
         this.workItems = new WorkItemRepository(db);
         this.tasks = new TaskRepository(db);
+        this.fieldMetadata = new FieldMetadataRepository(db);
+        this.states = new WorkItemStateRepository(db, () => Settings.stateCategories);
+        this.queryPaths = new QueryPathRepository(db);
     }
 
     private cacheKey(queryDef: QueryDefinition): string {
@@ -40,6 +52,7 @@ export class DatabaseDataStore implements DataStore {
             project: queryDef.project ?? Settings.project,
             queryId: queryDef.queryId,
             queryPath: queryDef.queryPath,
+            wiql: queryDef.wiql,
             name: queryDef.name
         });
     }
@@ -65,10 +78,10 @@ export class DatabaseDataStore implements DataStore {
         const org = queryDef.organization ?? Settings.organization;
         const project = queryDef.project ?? Settings.project;
         for (const wi of items) {
-            this.workItems.upsert(workItemRowFromAdo(wi.id, wi.fields, 0, org, project, wi.url));
+            const row = workItemRowFromAdo(wi.id, wi.fields, 0, org, project, wi.url);
+            this.workItems.upsert(row);
             const title = typeof wi.fields['System.Title'] === 'string' ? (wi.fields['System.Title'] as string) : `#${wi.id}`;
-            const state = typeof wi.fields['System.State'] === 'string' ? (wi.fields['System.State'] as string) : undefined;
-            this.tasks.reconcileFromWorkItem(wi.id, title, state);
+            this.tasks.reconcileFromWorkItem(row.key, title, row.state, this.states.categoryOf(row));
         }
         this.writeSnapshot(key, items);
     }
@@ -78,12 +91,20 @@ export class DatabaseDataStore implements DataStore {
         if (!this.rest) return undefined;
         const org = queryDef.organization ?? Settings.organization;
         const project = queryDef.project ?? Settings.project;
-        if (!org || !project || !queryDef.queryId) return undefined;
-
-        const ids = await this.rest.runSavedQuery(org, project, queryDef.queryId);
+        if (!org || !project) return undefined;
+
+        // Saved queries (by ID, then by path) win over inline WIQL.
+        let ids: number[] | undefined;
+        if (queryDef.queryId) {
+            ids = (await this.rest.runSavedQuery(org, project, queryDef.queryId)).ids;
+        } else if (queryDef.queryPath) {
+            ids = await runQueryAtPath(this.rest, this.queryPaths, org, project, queryDef.queryPath);
+        } else if (queryDef.wiql) {
+            ids = await this.rest.runWiql(org, project, queryDef.wiql);
+        }
         if (ids === undefined) return undefined;
         const limited = ids.slice(0, Settings.maxItems);
-        const items = await this.rest.batchGetWorkItems(org, project, limited, DEFAULT_FIELDS);
+        const items = await this.rest.batchGetWorkItems(org, project, limited, fieldsToMirror(this.fieldMetadata, org, project));
         return items ?? undefined;
     }
 
@@ -116,12 +137,24 @@ export class DatabaseDataStore implements DataStore {
         return result;
     }
 
-    getWorkItemUrl(id: number): Promise<string | undefined> {
-        const cached = this.workItems.getById(id);
+    async listFolderQueries(folder: QueryFolderDefinition): Promise<QueryDefinition[] | undefined> {
+        const org = folder.organization ?? Settings.organization;
+        const project = folder.project ?? Settings.project;
+        if (!this.rest || !org || !project) return undefined;
+        try {
+            const queries = await this.rest.getQueriesUnder(org, project, folder.path);
+            return queries && folderQueryDefinitions(folder, queries);
+        } catch {
+            return undefined;
+        }
+    }
+
+    getWorkItemUrl(id: number, org?: string, project?: string): Promise<string | undefined> {
+        const cached = this.workItems.get(workItemKey(org ?? Settings.organization, id));
         if (cached?.fields?.['_url'] && typeof cached.fields['_url'] === 'string') {
             return Promise.resolve(cached.fields['_url'] as string);
         }
-        return this.live.getWorkItemUrl(id);
+        return this.live.getWorkItemUrl(id, org ?? cached?.org, project ?? cached?.project);
     }
 
     getQueryUrl(queryId?: string, org?: string, project?: string): string | undefined {
@@ -0,0 +1,67 @@
+import { Database } from '../Database';
+import { WorkItemKey, WorkItemAttachment } from '../../model/types';
+import { WorkItemRelation } from '../../ado/AdoClient';
+
+/** The relation type ADO uses for a file attached to a work item. */
+export const ATTACHMENT_REL = 'AttachedFile';
+
+/** The attachments among a work item's ADO relations, with name and size from their attributes. */
+export function attachmentsFromRelations(key: WorkItemKey, relations: WorkItemRelation[]): WorkItemAttachment[] {
+    return relations
+        .filter(r => r.rel === ATTACHMENT_REL)
+        .map(r => {
+            const attrs = r.attributes ?? {};
+            const size = Number(attrs['resourceSize']);
+            return {
+                workItemKey: key,
+                url: r.url,
+                name: typeof attrs['name'] === 'string' ? attrs['name'] : r.url.split('/').pop() ?? 'attachment',
+                size: Number.isFinite(size) ? size : undefined,
+                addedDate: typeof attrs['authorizedDate'] === 'string' ? attrs['authorizedDate'] : undefined
+            };
+        });
+}
+
+/** Work item attachments mirrored from ADO, plus uploads still waiting in the outbox. */
+export class AttachmentRepository {
+    constructor(private readonly db: Database) {}
+
+    private rows(): WorkItemAttachment[] {
+        return this.db.table<WorkItemAttachment>('work_item_attachments');
+    }
+
+    /** A work item's attachments by name; pending uploads last. */
+    forWorkItem(key: WorkItemKey): WorkItemAttachment[] {
+        return this.rows()
+            .filter(a => a.workItemKey === key)
+            .sort((a, b) => Number(!!a.opId) - Number(!!b.opId) || a.name.localeCompare(b.name));
+    }
+
+    /** Replace a work item's attachments with what ADO just reported, keeping pending uploads. */
+    replaceFor(key: WorkItemKey, attachments: WorkItemAttachment[]): void {
+        const kept = this.rows().filter(a => a.workItemKey !== key || a.opId);
+        this.db.setTable('work_item_attachments', [...kept, ...attachments]);
+        this.db.save();
+    }
+
+    /** Show a file right away while its outbox op uploads it. */
+    addPending(key: WorkItemKey, opId: string, name: string, size?: number): void {
+        this.rows().push({ workItemKey: key, opId, name, size, addedDate: new Date().toISOString() });
+        this.db.save();
+    }
+
+    /** Mark a pending upload as attached at `url`. */
+    confirm(opId: string, url: string): void {
+        const row = this.rows().find(a => a.opId === opId);
+        if (!row) return;
+        row.url = url;
+        delete row.opId;
+        this.db.save();
+    }
+
+    /** Forget a pending upload (its op was discarded). */
+    removePending(opId: string): void {
+        this.db.setTable('work_item_attachments', this.rows().filter(a => a.opId !== opId));
+        this.db.save();
+    }
+}
@@ -0,0 +1,59 @@
+import { Database } from '../Database';
+import { ChecklistItem } from '../../model/types';
+import { orderBetween } from '../../views/ordering';
+
+/** Local-only checklist items inside a task (Things' sub-steps). */
+export class ChecklistRepository {
+    constructor(private readonly db: Database) {}
+
+    private rows(): ChecklistItem[] {
+        return this.db.table<ChecklistItem>('checklist_items');
+    }
+
+    get(id: number): ChecklistItem | undefined {
+        return this.rows().find(i => i.id === id);
+    }
+
+    /** A task's items in display order. */
+    forTask(taskUuid: string): ChecklistItem[] {
+        return this.rows().filter(i => i.taskUuid === taskUuid).sort((a, b) => a.sortOrder - b.sortOrder);
+    }
+
+    /** Append an item to the end of a task's checklist. */
+    add(taskUuid: string, text: string): ChecklistItem {
+        const id = this.rows().reduce((max, i) => Math.max(max, i.id), 0) + 1;
+        const last = this.forTask(taskUuid).pop();
+        const item: ChecklistItem = { id, taskUuid, text, done: 0, sortOrder: orderBetween(last?.sortOrder, undefined) };
+        this.rows().push(item);
+        this.db.save();
+        return item;
+    }
+
+    toggle(id: number): void {
+        const item = this.get(id);
+        if (!item) return;
+        item.done = item.done ? 0 : 1;
+        this.db.save();
+    }
+
+    /** Reposition an item between two siblings (fractional indexing). */
+    reorder(id: number, beforeId?: number, afterId?: number): void {
+        const item = this.get(id);
+        if (!item) return;
+        const before = beforeId !== undefined ? this.get(beforeId)?.sortOrder : undefined;
+        const after = afterId !== undefined ? this.get(afterId)?.sortOrder : undefined;
+        item.sortOrder = orderBetween(before, after);
+        this.db.save();
+    }
+
+    remove(id: number): void {
+        this.db.setTable('checklist_items', this.rows().filter(i => i.id !== id));
+        this.db.save();
+    }
+
+    /** How many of a task's items are ticked off. */
+    progress(taskUuid: string): { done: number; total: number } {
+        const items = this.forTask(taskUuid);
+        return { done: items.filter(i => i.done).length, total: items.length };
+    }
+}
@@ -0,0 +1,52 @@
+import { Database } from '../Database';
+import { WorkItemKey, WorkItemComment } from '../../model/types';
+import { AdoComment } from '../../ado/AdoClient';
+
+/** Map a comment from the REST API to its cached row. */
+export function commentFromAdo(key: WorkItemKey, c: AdoComment): WorkItemComment {
+    return { workItemKey: key, commentId: c.id, text: c.text, author: c.createdBy?.displayName, createdDate: c.createdDate };
+}
+
+/** Cached work item discussions, plus comments still waiting in the outbox. */
+export class CommentRepository {
+    constructor(private readonly db: Database) {}
+
+    private rows(): WorkItemComment[] {
+        return this.db.table<WorkItemComment>('work_item_comments');
+    }
+
+    /** A work item's comments, oldest first; pending ones follow the posted ones. */
+    forWorkItem(key: WorkItemKey): WorkItemComment[] {
+        return this.rows()
+            .filter(c => c.workItemKey === key)
+            .sort((a, b) => Number(!!a.opId) - Number(!!b.opId) || a.createdDate.localeCompare(b.createdDate));
+    }
+
+    /** Replace the cached discussion with what ADO just returned, keeping unposted comments. */
+    replaceFor(key: WorkItemKey, comments: WorkItemComment[]): void {
+        const kept = this.rows().filter(c => c.workItemKey !== key || c.opId);
+        this.db.setTable('work_item_comments', [...kept, ...comments]);
+        this.db.save();
+    }
+
+    /** Show a comment right away while its outbox op waits to post it. */
+    addPending(key: WorkItemKey, opId: string, text: string, author?: string): WorkItemComment {
+        const comment: WorkItemComment = { workItemKey: key, opId, text, author, createdDate: new Date().toISOString() };
+        this.rows().push(comment);
+        this.db.save();
+        return comment;
+    }
+
+    /** Swap a pending comment for the one ADO created. */
+    confirm(opId: string, posted: WorkItemComment): void {
+        const rows = this.rows().filter(c => c.opId !== opId && !(c.workItemKey === posted.workItemKey && c.commentId === posted.commentId));
+        this.db.setTable('work_item_comments', [...rows, posted]);
+        this.db.save();
+    }
+
+    /** Forget a pending comment (its op was discarded). */
+    removePending(opId: string): void {
+        this.db.setTable('work_item_comments', this.rows().filter(c => c.opId !== opId));
+        this.db.save();
+    }
+}
@@ -0,0 +1,82 @@
+import { Database } from '../Database';
+import { FieldMetadata } from '../../model/types';
+import { AdoFieldDefinition, AdoWorkItemTypeField } from '../../ado/AdoClient';
+
+/**
+ * Map a work item type's fields to cached rows. The type fields API gives
+ * allowed values and required flags; the project's field definitions add the
+ * data type and read-only flag.
+ */
+export function fieldMetadataFromAdo(
+    org: string,
+    project: string,
+    workItemType: string,
+    typeFields: AdoWorkItemTypeField[],
+    definitions: AdoFieldDefinition[],
+    fetchedAt = new Date().toISOString()
+): FieldMetadata[] {
+    const byRef = new Map(definitions.map(d => [d.referenceName, d]));
+    return typeFields.map(f => {
+        const def = byRef.get(f.referenceName);
+        const allowed = (f.allowedValues ?? []).filter(v => v !== null && v !== undefined).map(String);
+        return {
+            org,
+            project,
+            workItemType,
+            ref: f.referenceName,
+            name: f.name,
+            type: def?.isIdentity ? 'identity' : def?.type ?? 'string',
+            readOnly: !!def?.readOnly,
+            required: !!f.alwaysRequired,
+            allowedValues: allowed.length > 0 ? allowed : undefined,
+            helpText: f.helpText || undefined,
+            fetchedAt
+        };
+    });
+}
+
+/** Cached field metadata per work item type, so the detail pane knows custom fields and picklists offline. */
+export class FieldMetadataRepository {
+    constructor(private readonly db: Database) {}
+
+    private rows(): FieldMetadata[] {
+        return this.db.table<FieldMetadata>('field_metadata');
+    }
+
+    /** A work item type's fields, by name. */
+    forType(org: string, project: string, workItemType: string): FieldMetadata[] {
+        return this.rows()
+            .filter(f => f.org === org && f.project === project && f.workItemType === workItemType)
+            .sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    /** When a work item type's fields were last fetched, if ever. */
+    fetchedAt(org: string, project: string, workItemType: string): string | undefined {
+        return this.rows().find(f => f.org === org && f.project === project && f.workItemType === workItemType)?.fetchedAt;
+    }
+
+    /** Every field cached for one org/project once (the first type's copy wins), by name. */
+    forProject(org: string, project: string): FieldMetadata[] {
+        return this.unique(this.rows().filter(f => f.org === org && f.project === project));
+    }
+
+    /** Every cached field once (the first type's copy wins), by name. */
+    allFields(): FieldMetadata[] {
+        return this.unique(this.rows());
+    }
+
+    private unique(rows: FieldMetadata[]): FieldMetadata[] {
+        const byRef = new Map<string, FieldMetadata>();
+        for (const f of rows) {
+            if (!byRef.has(f.ref)) byRef.set(f.ref, f);
+        }
+        return [...byRef.values()].sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    /** Replace a work item type's cached fields with a fresh fetch. */
+    replaceForType(org: string, project: string, workItemType: string, fields: FieldMetadata[]): void {
+        const kept = this.rows().filter(f => f.org !== org || f.project !== project || f.workItemType !== workItemType);
+        this.db.setTable('field_metadata', [...kept, ...fields]);
+        this.db.save();
+    }
+}
@@ -0,0 +1,74 @@
+import { Database } from '../Database';
+import { WorkItemKey, WorkItemUpdate } from '../../model/types';
+import { AdoWorkItemUpdate } from '../../ado/AdoClient';
+import { relationTargetId } from '../../ado/AdoRestClient';
+
+/** Fields every save touches; they'd bury the real changes in the timeline. */
+const BOOKKEEPING_FIELDS = new Set([
+    'System.Rev',
+    'System.Watermark',
+    'System.ChangedDate',
+    'System.ChangedBy',
+    'System.AuthorizedDate',
+    'System.AuthorizedAs',
+    'System.RevisedDate',
+    'System.PersonId',
+    'System.History',
+    'System.CommentCount',
+    'System.Id',
+    'System.AreaId',
+    'System.IterationId',
+    'System.NodeName',
+    'System.TeamProject',
+    'System.CreatedDate',
+    'System.CreatedBy'
+]);
+
+/** Map an update from the REST API to its cached row. */
+export function updateFromAdo(key: WorkItemKey, u: AdoWorkItemUpdate): WorkItemUpdate {
+    const changed = u.fields?.['System.ChangedDate']?.newValue;
+    const fields = Object.entries(u.fields ?? {})
+        .filter(([field]) => !BOOKKEEPING_FIELDS.has(field))
+        .map(([field, change]) => ({ field, oldValue: change.oldValue, newValue: change.newValue }));
+    const relations = [
+        ...(u.relations?.added ?? []).map(r => ({ action: 'added' as const, rel: r.rel, targetId: relationTargetId(r.url) })),
+        ...(u.relations?.removed ?? []).map(r => ({ action: 'removed' as const, rel: r.rel, targetId: relationTargetId(r.url) }))
+    ];
+    return {
+        workItemKey: key,
+        updateId: u.id,
+        rev: u.rev,
+        revisedBy: u.revisedBy?.displayName,
+        changedDate: typeof changed === 'string' ? changed : u.revisedDate ?? '',
+        fields,
+        relations
+    };
+}
+
+/** Cached work item revision history, so the timeline reads offline once loaded. */
+export class HistoryRepository {
+    constructor(private readonly db: Database) {}
+
+    private rows(): WorkItemUpdate[] {
+        return this.db.table<WorkItemUpdate>('work_item_updates');
+    }
+
+    /** A work item's cached updates, oldest first. */
+    forWorkItem(key: WorkItemKey): WorkItemUpdate[] {
+        return this.rows().filter(u => u.workItemKey === key).sort((a, b) => a.updateId - b.updateId);
+    }
+
+    /** The newest cached update's number (0 if none), i.e. how many to skip when fetching more. */
+    lastUpdateId(key: WorkItemKey): number {
+        return this.rows().reduce((max, u) => (u.workItemKey === key ? Math.max(max, u.updateId) : max), 0);
+    }
+
+    /** Add newly fetched updates, ignoring any already cached. */
+    append(updates: WorkItemUpdate[]): void {
+        const rows = this.rows();
+        for (const u of updates) {
+            if (!rows.some(r => r.workItemKey === u.workItemKey && r.updateId === u.updateId)) rows.push(u);
+        }
+        this.db.save();
+    }
+}
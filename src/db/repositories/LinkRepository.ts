@@ -0,0 +1,109 @@
+import { Database } from '../Database';
+import { LinkKind, WorkItemKey, WorkItemLink } from '../../model/types';
+import { siblingKey } from '../../model/workItemKey';
+import { WorkItemRelation } from '../../ado/AdoClient';
+import { relationTargetId } from '../../ado/AdoRestClient';
+
+/** ADO relation type reference name for each link kind. */
+export const LINK_RELS: Record<LinkKind, string> = {
+    parent: 'System.LinkTypes.Hierarchy-Reverse',
+    child: 'System.LinkTypes.Hierarchy-Forward',
+    related: 'System.LinkTypes.Related',
+    predecessor: 'System.LinkTypes.Dependency-Reverse',
+    successor: 'System.LinkTypes.Dependency-Forward'
+};
+
+export const LINK_LABELS: Record<LinkKind, string> = {
+    parent: 'Parent',
+    child: 'Child',
+    related: 'Related',
+    predecessor: 'Predecessor',
+    successor: 'Successor'
+};
+
+const INVERSE: Record<LinkKind, LinkKind> = {
+    parent: 'child',
+    child: 'parent',
+    related: 'related',
+    predecessor: 'successor',
+    successor: 'predecessor'
+};
+
+/** The link kind for an ADO relation type, or undefined for kinds we don't manage. */
+export function linkKindForRel(rel: string): LinkKind | undefined {
+    return (Object.keys(LINK_RELS) as LinkKind[]).find(k => LINK_RELS[k] === rel);
+}
+
+/** The same link seen from the other end. */
+export function inverseLink(link: WorkItemLink): WorkItemLink {
+    return { sourceKey: link.targetKey, targetKey: link.sourceKey, kind: INVERSE[link.kind] };
+}
+
+/** The links we manage among a work item's ADO relations (hyperlinks, commits etc. are skipped). */
+export function linksFromRelations(key: WorkItemKey, relations: WorkItemRelation[]): WorkItemLink[] {
+    const links: WorkItemLink[] = [];
+    for (const r of relations) {
+        const kind = linkKindForRel(r.rel);
+        const targetId = relationTargetId(r.url);
+        if (kind && targetId !== undefined) links.push({ sourceKey: key, targetKey: siblingKey(key, targetId), kind });
+    }
+    return links;
+}
+
+function sameLink(a: WorkItemLink, b: WorkItemLink): boolean {
+    return a.sourceKey === b.sourceKey && a.targetKey === b.targetKey && a.kind === b.kind;
+}
+
+/** Local mirror of work item links (parent/child, related, dependencies). */
+export class LinkRepository {
+    constructor(private readonly db: Database) {}
+
+    private rows(): WorkItemLink[] {
+        return this.db.table<WorkItemLink>('work_item_links');
+    }
+
+    /** Every link from `key`'s side. */
+    linksOf(key: WorkItemKey): WorkItemLink[] {
+        return this.rows().filter(l => l.sourceKey === key);
+    }
+
+    has(link: WorkItemLink): boolean {
+        return this.rows().some(l => sameLink(l, link));
+    }
+
+    parentOf(key: WorkItemKey): WorkItemKey | undefined {
+        return this.linksOf(key).find(l => l.kind === 'parent')?.targetKey;
+    }
+
+    childrenOf(key: WorkItemKey): WorkItemKey[] {
+        return this.linksOf(key).filter(l => l.kind === 'child').map(l => l.targetKey);
+    }
+
+    /** Record a link (and its inverse). */
+    add(link: WorkItemLink): void {
+        const rows = this.rows();
+        for (const l of [link, inverseLink(link)]) {
+            if (!rows.some(r => sameLink(r, l))) rows.push(l);
+        }
+        this.db.save();
+    }
+
+    /**
+     * Replace everything known about `key`'s links with what ADO just
+     * reported. A work item's relations list every link it takes part in, so
+     * the inverse rows held by the other ends are rewritten too.
+     */
+    replaceFor(key: WorkItemKey, links: WorkItemLink[]): void {
+        const kept = this.rows().filter(l => l.sourceKey !== key && l.targetKey !== key);
+        const fresh = links.flatMap(l => [l, inverseLink(l)]);
+        this.db.setTable('work_item_links', [...kept, ...fresh.filter((l, i) => fresh.findIndex(o => sameLink(o, l)) === i)]);
+        this.db.save();
+    }
+
+    /** Forget a link from both ends. */
+    remove(link: WorkItemLink): void {
+        const inverse = inverseLink(link);
+        this.db.setTable('work_item_links', this.rows().filter(l => !sameLink(l, link) && !sameLink(l, inverse)));
+        this.db.save();
+    }
+}
@@ -1,8 +1,12 @@
 import { Database } from '../Database';
-import { Project, Area } from '../../model/types';
+import { Project, Area, ProjectAdoBinding } from '../../model/types';
 import { TaskRepository } from './TaskRepository';
 import { newUuid } from './WorkItemRepository';
 
+function normalizeName(name: string): string {
+    return name.trim().toLowerCase().replace(/[\s_-]+/g, ' ');
+}
+
 /** Projects and Areas (Things' "Areas of Responsibility"). */
 export class ProjectRepository {
     constructor(private readonly db: Database, private readonly tasks: TaskRepository) {}
@@ -27,7 +31,18 @@ export class ProjectRepository {
         return this.projects().find(p => p.uuid === uuid);
     }
 
-    createProject(name: string, areaUuid?: string, adoBinding?: Record<string, unknown>): Project {
+    /** Find a project by name, ignoring case and treating `-` / `_` as spaces. */
+    findProjectByName(name: string): Project | undefined {
+        const key = normalizeName(name);
+        return this.projects().find(p => normalizeName(p.name) === key);
+    }
+
+    /** Projects that sync their tasks from ADO. */
+    boundProjects(): Project[] {
+        return this.allProjects().filter(p => p.adoBinding);
+    }
+
+    createProject(name: string, areaUuid?: string, adoBinding?: ProjectAdoBinding): Project {
         const sortOrder = this.projects().reduce((m, p) => Math.max(m, p.sortOrder), 0) + 1;
         const project: Project = { uuid: newUuid(), name, areaUuid, adoBinding, sortOrder };
         this.projects().push(project);
@@ -35,6 +50,14 @@ export class ProjectRepository {
         return project;
     }
 
+    /** Bind a project to ADO, or unbind it with `undefined`. */
+    setBinding(uuid: string, adoBinding: ProjectAdoBinding | undefined): void {
+        const project = this.getProject(uuid);
+        if (!project) return;
+        project.adoBinding = adoBinding;
+        this.db.save();
+    }
+
     createArea(name: string): Area {
         const sortOrder = this.areas().reduce((m, a) => Math.max(m, a.sortOrder), 0) + 1;
         const area: Area = { uuid: newUuid(), name, sortOrder };
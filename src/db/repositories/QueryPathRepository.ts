@@ -0,0 +1,42 @@
+import { Database } from '../Database';
+import { QueryPathRow } from '../../model/types';
+import { orgKey } from '../../model/workItemKey';
+
+/**
+ * Saved query paths resolved to their IDs. ADO runs saved queries by ID only,
+ * so a path-based query is looked up once and then runs over REST like any
+ * other. Paths are matched case-insensitively, as ADO does.
+ */
+export class QueryPathRepository {
+    constructor(private readonly db: Database) {}
+
+    private rows(): QueryPathRow[] {
+        return this.db.table<QueryPathRow>('query_paths');
+    }
+
+    private matches(row: QueryPathRow, org: string, project: string, path: string): boolean {
+        return orgKey(row.org) === orgKey(org)
+            && row.project.toLowerCase() === project.toLowerCase()
+            && row.path.toLowerCase() === path.toLowerCase();
+    }
+
+    /** The cached ID of the query at `path`, if it has been resolved. */
+    get(org: string, project: string, path: string): string | undefined {
+        return this.rows().find(r => this.matches(r, org, project, path))?.queryId;
+    }
+
+    /** Remember the ID the query at `path` resolved to. */
+    set(org: string, project: string, path: string, queryId: string): void {
+        const kept = this.rows().filter(r => !this.matches(r, org, project, path));
+        this.db.setTable('query_paths', [...kept, { org, project, path, queryId, resolvedAt: new Date().toISOString() }]);
+        this.db.save();
+    }
+
+    /** Drop a mapping that stopped working (the query was moved or deleted). */
+    forget(org: string, project: string, path: string): void {
+        const kept = this.rows().filter(r => !this.matches(r, org, project, path));
+        if (kept.length === this.rows().length) return;
+        this.db.setTable('query_paths', kept);
+        this.db.save();
+    }
+}
@@ -2,6 +2,11 @@ import { Database } from '../Database';
 import { SyncOp, SyncOpStatus, SyncOpType } from '../../model/types';
 import { newUuid } from './WorkItemRepository';
 
+/** Whether an op's backoff (if any) has elapsed at `now` (epoch ms). */
+export function isDue(op: SyncOp, now = Date.now()): boolean {
+    return !op.nextAttemptAt || Date.parse(op.nextAttemptAt) <= now;
+}
+
 /** Persistence for the outbox (`sync_queue`). */
 export class SyncQueueRepository {
     constructor(private readonly db: Database) {}
@@ -10,7 +15,14 @@ export class SyncQueueRepository {
         return this.db.table<SyncOp>('sync_queue');
     }
 
-    enqueue(op: { entity: 'workitem' | 'task'; targetId: string; opType: SyncOpType; payload: Record<string, unknown>; baseEtag?: string }): SyncOp {
+    enqueue(op: {
+        entity: 'workitem' | 'task';
+        targetId: string;
+        opType: SyncOpType;
+        payload: Record<string, unknown>;
+        baseEtag?: string;
+        baseValues?: Record<string, unknown>;
+    }): SyncOp {
         const row: SyncOp = {
             opId: newUuid(),
             entity: op.entity,
@@ -18,6 +30,7 @@ export class SyncQueueRepository {
             opType: op.opType,
             payload: op.payload,
             baseEtag: op.baseEtag,
+            baseValues: op.baseValues,
             status: 'pending',
             attempts: 0,
             createdAt: new Date().toISOString()
@@ -27,21 +40,56 @@ export class SyncQueueRepository {
         return row;
     }
 
-    /** Pending ops in FIFO order. */
-    pending(): SyncOp[] {
+    /** Pending ops that are due at `now`, in FIFO order. Ops backing off are skipped. */
+    pending(now = Date.now()): SyncOp[] {
         return this.rows()
-            .filter(o => o.status === 'pending')
+            .filter(o => o.status === 'pending' && isDue(o, now))
             .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
     }
 
+    /** Ops not yet pushed, failed ones included — they're still unsynced changes. */
     pendingCount(): number {
-        return this.rows().filter(o => o.status === 'pending' || o.status === 'inflight').length;
+        return this.rows().filter(o => o.status !== 'done').length;
     }
 
     failed(): SyncOp[] {
         return this.rows().filter(o => o.status === 'failed');
     }
 
+    /** Every op not yet done (pending, inflight or failed) in FIFO order. */
+    unsynced(): SyncOp[] {
+        return this.rows()
+            .filter(o => o.status !== 'done')
+            .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    }
+
+    get(opId: string): SyncOp | undefined {
+        return this.rows().find(o => o.opId === opId);
+    }
+
+    /** Make an op due immediately with a fresh attempt budget. Inflight ops are left alone. */
+    resetForRetry(opId: string): boolean {
+        const op = this.get(opId);
+        if (!op || op.status === 'inflight' || op.status === 'done') return false;
+        op.status = 'pending';
+        op.attempts = 0;
+        delete op.nextAttemptAt;
+        this.db.save();
+        return true;
+    }
+
+    setPayload(opId: string, payload: Record<string, unknown>): void {
+        const op = this.get(opId);
+        if (!op) return;
+        op.payload = payload;
+        this.db.save();
+    }
+
+    remove(opId: string): void {
+        this.db.setTable('sync_queue', this.rows().filter(o => o.opId !== opId));
+        this.db.save();
+    }
+
     setStatus(opId: string, status: SyncOpStatus, lastError?: string): void {
         const op = this.rows().find(o => o.opId === opId);
         if (!op) return;
@@ -58,6 +106,14 @@ export class SyncQueueRepository {
         return op.attempts;
     }
 
+    /** Hold an op back until `at` (epoch ms); it stays out of {@link pending} until then. */
+    deferUntil(opId: string, at: number): void {
+        const op = this.rows().find(o => o.opId === opId);
+        if (!op) return;
+        op.nextAttemptAt = new Date(at).toISOString();
+        this.db.save();
+    }
+
     updateBaseEtag(opId: string, etag: string): void {
         const op = this.rows().find(o => o.opId === opId);
         if (op) {
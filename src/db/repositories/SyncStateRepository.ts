@@ -9,16 +9,55 @@ export class SyncStateRepository {
         return this.db.table<SyncStateRow>('sync_state').find(s => s.sourceKey === sourceKey);
     }
 
-    set(sourceKey: string, watermark: string | undefined): void {
+    /** Record a completed pull. `fullSync` marks that the whole ID list was re-run. */
+    set(sourceKey: string, watermark: string | undefined, fullSync = false): void {
         const rows = this.db.table<SyncStateRow>('sync_state');
         const existing = rows.find(s => s.sourceKey === sourceKey);
         const lastSyncedUtc = new Date().toISOString();
         if (existing) {
             existing.watermark = watermark;
             existing.lastSyncedUtc = lastSyncedUtc;
+            if (fullSync) existing.lastFullSyncUtc = lastSyncedUtc;
         } else {
-            rows.push({ sourceKey, watermark, lastSyncedUtc });
+            rows.push({ sourceKey, watermark, lastSyncedUtc, lastFullSyncUtc: fullSync ? lastSyncedUtc : undefined });
         }
         this.db.save();
     }
+
+    /** Replace the set of IDs (in `org`) a source currently matches. */
+    setIds(sourceKey: string, ids: number[], org?: string): void {
+        const rows = this.db.table<SyncStateRow>('sync_state');
+        const existing = rows.find(s => s.sourceKey === sourceKey);
+        if (existing) {
+            existing.ids = ids;
+            existing.org = org;
+        } else {
+            rows.push({ sourceKey, ids, org });
+        }
+        this.db.save();
+    }
+
+    /** Sources pulled before that aren't among `sourceKeys` (removed from settings). */
+    staleSources(sourceKeys: string[]): SyncStateRow[] {
+        const keys = new Set(sourceKeys);
+        return this.db.table<SyncStateRow>('sync_state').filter(s => !keys.has(s.sourceKey));
+    }
+
+    /** Forget sources entirely. */
+    remove(sourceKeys: string[]): void {
+        const keys = new Set(sourceKeys);
+        this.db.setTable('sync_state', this.db.table<SyncStateRow>('sync_state').filter(s => !keys.has(s.sourceKey)));
+        this.db.save();
+    }
+
+    /** Union of the IDs held by the given sources. */
+    idsHeldBy(sourceKeys: string[]): Set<number> {
+        const keys = new Set(sourceKeys);
+        const held = new Set<number>();
+        for (const row of this.db.table<SyncStateRow>('sync_state')) {
+            if (!keys.has(row.sourceKey)) continue;
+            for (const id of row.ids ?? []) held.add(id);
+        }
+        return held;
+    }
 }
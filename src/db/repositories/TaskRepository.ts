@@ -1,17 +1,9 @@
 import { Database } from '../Database';
-import { Task, ListName } from '../../model/types';
+import { Task, ListName, RemovedItemAction, StateCategory, WorkItemKey } from '../../model/types';
 import { newUuid } from './WorkItemRepository';
+import { guessStateCategory, isClosedCategory } from './WorkItemStateRepository';
 import { orderBetween } from '../../views/ordering';
 
-const DONE_STATE_CATEGORIES = ['Completed', 'Resolved', 'Closed', 'Done'];
-
-/** States that should auto-complete a task (closed/done category). */
-export function isDoneState(state: string | undefined): boolean {
-    if (!state) return false;
-    const s = state.toLowerCase();
-    return ['closed', 'done', 'completed', 'resolved', 'removed'].includes(s);
-}
-
 function nowIso(): string {
     return new Date().toISOString();
 }
@@ -40,8 +32,8 @@ export class TaskRepository {
         return this.rows().find(t => t.uuid === uuid);
     }
 
-    getByAdoId(adoId: number): Task | undefined {
-        return this.rows().find(t => t.adoId === adoId);
+    getByWorkItem(key: WorkItemKey): Task | undefined {
+        return this.rows().find(t => t.workItemKey === key);
     }
 
     all(): Task[] {
@@ -116,13 +108,15 @@ export class TaskRepository {
      * Reconcile a work item into a task. Creates a linked task on first sight;
      * otherwise updates ONLY mirrored fields (title, state) and never touches
      * local-only fields (notes, whenDate, todayFlag, tags, sortOrder, list).
+     * `category` is the state's process category; without one it is guessed
+     * from the state name.
      */
-    reconcileFromWorkItem(adoId: number, title: string, state: string | undefined): Task {
-        let task = this.getByAdoId(adoId);
+    reconcileFromWorkItem(key: WorkItemKey, title: string, state: string | undefined, category: StateCategory | undefined = guessStateCategory(state)): Task {
+        let task = this.getByWorkItem(key);
         if (!task) {
             task = {
                 uuid: newUuid(),
-                adoId,
+                workItemKey: key,
                 title,
                 notes: '',
                 list: 'inbox',
@@ -138,14 +132,21 @@ export class TaskRepository {
             task.updatedAt = nowIso();
         }
 
-        // Auto-complete (move to Logbook) when ADO closes the item, but preserve
-        // history — never delete.
-        if (isDoneState(state) && !task.completedAt) {
-            task.completedAt = nowIso();
-            task.list = 'logbook';
-        } else if (!isDoneState(state) && task.completedAt && task.list === 'logbook') {
+        // Auto-complete (move to Logbook) when ADO completes the item, and cancel
+        // it when ADO removes it, but preserve history — never delete.
+        if (isClosedCategory(category)) {
+            if (!task.completedAt && !task.canceledAt) {
+                if (category === 'Removed') {
+                    task.canceledAt = nowIso();
+                } else {
+                    task.completedAt = nowIso();
+                }
+                task.list = 'logbook';
+            }
+        } else if ((task.completedAt || task.canceledAt) && task.list === 'logbook') {
             // Re-opened in ADO: bring it back.
             task.completedAt = undefined;
+            task.canceledAt = undefined;
             task.list = 'inbox';
         }
 
@@ -153,6 +154,39 @@ export class TaskRepository {
         return task;
     }
 
+    /**
+     * Retire the task linked to a work item that left every query or was deleted
+     * in ADO. Never deletes the task: depending on `action` it is unlinked and
+     * kept as local-only, completed into the Logbook, or canceled (archived).
+     * Extra tasks linked to the same work item are copies of it and are dropped
+     * first, so keeping it local leaves exactly one local task behind.
+     * Returns the affected task, or undefined if nothing changed.
+     */
+    retireFromWorkItem(key: WorkItemKey, action: RemovedItemAction): Task | undefined {
+        const [task, ...copies] = this.rows().filter(t => t.workItemKey === key);
+        if (!task) return undefined;
+        if (copies.length > 0) {
+            this.db.setTable('tasks', this.rows().filter(t => !copies.includes(t)));
+            this.db.save();
+        }
+        if (action === 'keepLocal') {
+            delete task.workItemKey;
+        } else if (!task.completedAt && !task.canceledAt) {
+            if (action === 'archive') {
+                task.canceledAt = nowIso();
+            } else {
+                task.completedAt = nowIso();
+            }
+            task.list = 'logbook';
+            task.todayFlag = 0;
+        } else {
+            return undefined;
+        }
+        task.updatedAt = nowIso();
+        this.db.save();
+        return task;
+    }
+
     update(uuid: string, patch: Partial<Task>): Task | undefined {
         const task = this.getByUuid(uuid);
         if (!task) return undefined;
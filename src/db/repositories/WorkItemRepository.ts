@@ -1,13 +1,14 @@
 import { randomUUID } from 'crypto';
 import { Database } from '../Database';
-import { WorkItemRow } from '../../model/types';
+import { WorkItemKey, WorkItemRow } from '../../model/types';
+import { workItemKey } from '../../model/workItemKey';
 
 /** Persistence for the canonical ADO mirror (`work_items`). */
 export class WorkItemRepository {
     constructor(private readonly db: Database) {}
 
-    getById(adoId: number): WorkItemRow | undefined {
-        return this.db.table<WorkItemRow>('work_items').find(w => w.adoId === adoId);
+    get(key: WorkItemKey): WorkItemRow | undefined {
+        return this.db.table<WorkItemRow>('work_items').find(w => w.key === key);
     }
 
     all(): WorkItemRow[] {
@@ -17,7 +18,7 @@ export class WorkItemRepository {
     /** Insert or update a work item mirror row, then persist. */
     upsert(row: WorkItemRow): void {
         const rows = this.db.table<WorkItemRow>('work_items');
-        const idx = rows.findIndex(w => w.adoId === row.adoId);
+        const idx = rows.findIndex(w => w.key === row.key);
         if (idx >= 0) {
             rows[idx] = { ...rows[idx], ...row };
         } else {
@@ -27,8 +28,8 @@ export class WorkItemRepository {
     }
 
     /** Update only the etag/rev after a successful push. */
-    setEtag(adoId: number, etag: string, rev: number): void {
-        const row = this.getById(adoId);
+    setEtag(key: WorkItemKey, etag: string, rev: number): void {
+        const row = this.get(key);
         if (row) {
             row.etag = etag;
             row.rev = rev;
@@ -36,8 +37,29 @@ export class WorkItemRepository {
         }
     }
 
-    markDeleted(adoId: number): void {
-        const row = this.getById(adoId);
+    /**
+     * Write field values into a mirror row (empty values delete the field) and
+     * keep the denormalized state column in step. Returns the updated row.
+     */
+    applyFields(key: WorkItemKey, changes: Map<string, unknown>): WorkItemRow | undefined {
+        const row = this.get(key);
+        if (!row) return undefined;
+        for (const [field, value] of changes) {
+            if (value === null || value === undefined || value === '') {
+                delete row.fields[field];
+            } else {
+                row.fields[field] = value;
+            }
+            if (field === 'System.State') {
+                row.state = typeof row.fields[field] === 'string' ? (row.fields[field] as string) : undefined;
+            }
+        }
+        this.db.save();
+        return row;
+    }
+
+    markDeleted(key: WorkItemKey): void {
+        const row = this.get(key);
         if (row) {
             row.deleted = 1;
             this.db.save();
@@ -60,6 +82,7 @@ export function workItemRowFromAdo(
         assignedTo = String((assigned as any).displayName);
     }
     return {
+        key: workItemKey(org, adoId),
         adoId,
         rev,
         etag,
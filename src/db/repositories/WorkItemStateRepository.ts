@@ -0,0 +1,112 @@
+import { Database } from '../Database';
+import { StateCategory, StateCategoryOverrides, WorkItemRow, WorkItemTypeStateRow } from '../../model/types';
+import { WorkItemTypeState } from '../../ado/AdoClient';
+
+const STATE_CATEGORIES: StateCategory[] = ['Proposed', 'InProgress', 'Resolved', 'Completed', 'Removed'];
+
+/**
+ * Best guess at a state's category from its name alone, for work item types
+ * whose process states aren't cached yet. Only the stock process names are
+ * recognized; anything else counts as in progress.
+ */
+export function guessStateCategory(state: string | undefined): StateCategory | undefined {
+    if (!state) return undefined;
+    switch (state.toLowerCase()) {
+        case 'new':
+        case 'proposed':
+        case 'to do':
+            return 'Proposed';
+        case 'resolved':
+            return 'Resolved';
+        case 'closed':
+        case 'done':
+        case 'completed':
+            return 'Completed';
+        case 'removed':
+            return 'Removed';
+        default:
+            return 'InProgress';
+    }
+}
+
+/** Whether a state category finishes the work: completed or removed. */
+export function isClosedCategory(category: StateCategory | undefined): boolean {
+    return category === 'Completed' || category === 'Removed';
+}
+
+/** Map a work item type's states to cached rows, keeping the process's order. */
+export function statesFromAdo(
+    org: string,
+    project: string,
+    workItemType: string,
+    states: WorkItemTypeState[],
+    fetchedAt = new Date().toISOString()
+): WorkItemTypeStateRow[] {
+    return states.map((s, order) => ({
+        org,
+        project,
+        workItemType,
+        name: s.name,
+        category: STATE_CATEGORIES.includes(s.category as StateCategory) ? s.category as StateCategory : 'InProgress',
+        color: s.color || undefined,
+        order,
+        fetchedAt
+    }));
+}
+
+/**
+ * Cached states per work item type, so completion follows the process's state
+ * categories (with per-type overrides) rather than state names.
+ */
+export class WorkItemStateRepository {
+    constructor(
+        private readonly db: Database,
+        private readonly overrides: () => StateCategoryOverrides = () => ({})
+    ) {}
+
+    private rows(): WorkItemTypeStateRow[] {
+        return this.db.table<WorkItemTypeStateRow>('work_item_type_states');
+    }
+
+    /** A work item type's states, in process order. */
+    forType(org: string, project: string, workItemType: string): WorkItemTypeStateRow[] {
+        return this.rows()
+            .filter(s => s.org === org && s.project === project && s.workItemType === workItemType)
+            .sort((a, b) => a.order - b.order);
+    }
+
+    /** When a work item type's states were last fetched, if ever. */
+    fetchedAt(org: string, project: string, workItemType: string): string | undefined {
+        return this.rows().find(s => s.org === org && s.project === project && s.workItemType === workItemType)?.fetchedAt;
+    }
+
+    /**
+     * The category of a mirrored work item's current state: an override for its
+     * type wins, then the cached process states, then a guess from the name.
+     */
+    categoryOf(row: WorkItemRow | undefined): StateCategory | undefined {
+        if (!row?.state) return undefined;
+        if (!row.type) return guessStateCategory(row.state);
+        const override = this.overrides()[row.type]?.[row.state];
+        if (override) return override;
+        if (!row.org || !row.project) return guessStateCategory(row.state);
+        return this.forType(row.org, row.project, row.type).find(s => s.name === row.state)?.category
+            ?? guessStateCategory(row.state);
+    }
+
+    /**
+     * The first state of a work item type whose category (after overrides) is
+     * `category`, or undefined when the type's states aren't cached.
+     */
+    firstStateIn(org: string, project: string, workItemType: string, category: StateCategory): string | undefined {
+        const overrides = this.overrides()[workItemType] ?? {};
+        return this.forType(org, project, workItemType).find(s => (overrides[s.name] ?? s.category) === category)?.name;
+    }
+
+    /** Replace a work item type's cached states with a fresh fetch. */
+    replaceForType(org: string, project: string, workItemType: string, states: WorkItemTypeStateRow[]): void {
+        const kept = this.rows().filter(s => s.org !== org || s.project !== project || s.workItemType !== workItemType);
+        this.db.setTable('work_item_type_states', [...kept, ...states]);
+        this.db.save();
+    }
+}
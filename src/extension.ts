@@ -1,25 +1,42 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
+import * as fs from 'fs';
 import { AdoTreeProvider, AdoTreeItem } from './tree/AdoTreeProvider';
-import { Settings, QueryDefinition } from './config/Settings';
+import { Settings, QueryDefinition, QueryFolderDefinition } from './config/Settings';
 import { WorkItemNode, QueryNode } from './grouping/GroupingEngine';
-import { extractQueryInfoFromUrl } from './utils/urlParser';
+import { extractQueryInfoFromUrl, workItemIdFromText } from './utils/urlParser';
+import { isSameQueryFolder } from './utils/queryFolders';
 import { AzCliRunner } from './ado/AzCliRunner';
-import { AdoClient } from './ado/AdoClient';
+import { AdoClient, AdoQueryItem } from './ado/AdoClient';
 import { AdoRestClient } from './ado/AdoRestClient';
 import { Database } from './db/Database';
 import { DatabaseDataStore } from './db/DatabaseDataStore';
 import { TokenProvider } from './auth/TokenProvider';
+import { PAT_EXPIRY_WARNING_DAYS, daysUntilExpiry } from './auth/pat';
 import { SyncEngine, SyncStatus } from './sync/SyncEngine';
-import { NavigatorProvider } from './views/NavigatorProvider';
+import { PendingConflict } from './sync/ConflictQueue';
+import { NavigatorProvider, NavItem } from './views/NavigatorProvider';
+import { SyncQueueProvider, SyncQueueItem } from './views/SyncQueueProvider';
 import { WorkbenchHost } from './views/WorkbenchHost';
 import { ViewModelBuilder } from './views/ViewModelBuilder';
 import { ViewId } from './views/protocol';
 import { TagRepository } from './db/repositories/TagRepository';
 import { ProjectRepository } from './db/repositories/ProjectRepository';
+import { ChecklistRepository } from './db/repositories/ChecklistRepository';
+import { LinkRepository, LINK_LABELS } from './db/repositories/LinkRepository';
+import { CommentRepository } from './db/repositories/CommentRepository';
+import { HistoryRepository } from './db/repositories/HistoryRepository';
+import { AttachmentRepository } from './db/repositories/AttachmentRepository';
+import { FieldMetadataRepository } from './db/repositories/FieldMetadataRepository';
+import { WorkItemStateRepository, isClosedCategory } from './db/repositories/WorkItemStateRepository';
+import { SyncQueueRepository } from './db/repositories/SyncQueueRepository';
 import { UndoStack } from './undo/UndoStack';
-import { parseQuickEntry } from './views/quickEntry';
-import { DETAIL_FIELD_CATALOG, DEFAULT_DETAIL_KEYS } from './views/detailFields';
+import { parseQuickEntry, describeToken, createTaskFromQuickEntry } from './views/quickEntry';
+import { DEFAULT_DETAIL_KEYS, buildFieldCatalog } from './views/detailFields';
+import { LinkKind, ProjectAdoBinding, ProjectBindingKind, RemovedItemAction, WorkItemKey } from './model/types';
+import { adoIdOf, orgKey, siblingKey, workItemKey } from './model/workItemKey';
+import { describeBinding } from './sync/projectBinding';
+import { WiqlCompletionProvider } from './views/WiqlCompletionProvider';
 
 let treeProvider: AdoTreeProvider | undefined;
 let treeView: vscode.TreeView<AdoTreeItem> | undefined;
@@ -31,34 +48,36 @@ let syncStatusBar: vscode.StatusBarItem | undefined;
 let navigatorProvider: NavigatorProvider | undefined;
 let workbench: WorkbenchHost | undefined;
 
+/** How each `adoQueries.removedItemAction` reads in the removal notice. */
+const REMOVED_ITEM_OUTCOMES: Record<RemovedItemAction, string> = {
+    keepLocal: 'kept as a local-only task',
+    logbook: 'moved to the Logbook',
+    archive: 'archived to the Logbook'
+};
+
+/** The largest file ADO takes in a single (non-chunked) attachment upload. */
+const MAX_ATTACHMENT_BYTES = 130 * 1024 * 1024;
+
 export async function activate(context: vscode.ExtensionContext) {
     console.log('Azure DevOps Queries extension is now active');
 
     // ── Local database (source of truth for the UI) ──────────────────
     const outputChannel = vscode.window.createOutputChannel('Azure DevOps Queries');
     const dbPath = path.join(context.globalStorageUri.fsPath, 'adothings.json');
-    database = await Database.open(dbPath);
+    database = await Database.open(dbPath, { defaultOrg: Settings.organization || undefined });
     outputChannel.appendLine(`[${new Date().toISOString()}] Local DB ready (schema v${database.schemaVersion}) at ${dbPath}`);
 
     const cliRunner = new AzCliRunner();
     const adoClient = new AdoClient(cliRunner, outputChannel);
 
-    // ── Auth + REST transport (no PAT, no app registration) ──────────
-    tokenProvider = new TokenProvider(cliRunner);
+    // ── Auth + REST transport (no app registration; PAT opt-in) ──────
+    tokenProvider = new TokenProvider(cliRunner, context.secrets);
     context.subscriptions.push({ dispose: () => tokenProvider?.dispose() });
-    const restClient = new AdoRestClient(tokenProvider);
+    const restClient = new AdoRestClient(tokenProvider, () => Settings.collectionUrls);
     dataStore = new DatabaseDataStore(database, adoClient, restClient);
 
     // ── Sync engine (pull) + status bar ──────────────────────────────
-    syncEngine = new SyncEngine(database, restClient, outputChannel, async (info) => {
-        const choice = await vscode.window.showWarningMessage(
-            `Conflict on #${info.adoId}: you set ${info.field.split('.').pop()} = "${String(info.mine)}", but ADO now has "${String(info.theirs)}".`,
-            { modal: true },
-            'Keep Mine',
-            'Keep Theirs'
-        );
-        return choice === 'Keep Mine' ? 'mine' : 'theirs';
-    });
+    syncEngine = new SyncEngine(database, restClient, outputChannel);
     context.subscriptions.push({ dispose: () => syncEngine?.dispose() });
     syncStatusBar = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 49);
     syncStatusBar.command = 'adoQueries.refresh';
@@ -66,6 +85,20 @@ export async function activate(context: vscode.ExtensionContext) {
     syncEngine.onDidChangeStatus((s) => updateSyncStatusBar(s));
     updateSyncStatusBar(syncEngine.status);
 
+    // Tell the user what happened to tasks whose work items are gone.
+    syncEngine.onDidRemoveItems((removed) => {
+        const outcome = REMOVED_ITEM_OUTCOMES[removed[0].action];
+        const message = removed.length === 1
+            ? `#${removed[0].adoId} "${removed[0].title}" ${removed[0].reason === 'deleted' ? 'was deleted in Azure DevOps' : 'is no longer in any of your queries'} — ${outcome}.`
+            : `${removed.length} work items were deleted or left your queries — ${outcome}.`;
+        const show = removed[0].action === 'keepLocal' ? 'Show Inbox' : 'Show Logbook';
+        void vscode.window.showInformationMessage(message, show).then(choice => {
+            if (choice === show) workbench?.openView(removed[0].action === 'keepLocal' ? 'inbox' : 'logbook');
+        });
+        navigatorProvider?.refresh();
+        workbench?.postSnapshot();
+    });
+
     // Reflect sign-in state in a context key (drives the welcome CTA).
     const refreshAuthContext = async () => {
         const signedIn = (await tokenProvider?.isSignedIn()) ?? false;
@@ -87,11 +120,172 @@ export async function activate(context: vscode.ExtensionContext) {
             } else {
                 vscode.window.showWarningMessage('Azure DevOps sign-in was canceled or failed.');
             }
-        })
+        }),
+        vscode.commands.registerCommand('adoQueries.manageAccounts', () => manageAccounts()),
+        vscode.commands.registerCommand('adoQueries.setPersonalAccessToken', (org?: string) => setPersonalAccessToken(org))
     );
 
-    // Background pull on activation (after first paint) and on focus.
-    const runPull = () => { void syncEngine?.pull(Settings.getActiveQueries()); };
+    // Organizations in use: configured, in queries and folders, or with a tenant or PAT.
+    const knownOrgs = async (): Promise<string[]> => {
+        const orgs = new Map<string, string>();
+        for (const org of [
+            Settings.organization,
+            ...Settings.queries.map(q => q.organization),
+            ...Settings.queryFolders.map(f => f.organization),
+            ...Object.keys(Settings.tenants),
+            ...(await tokenProvider?.patOrgs() ?? [])
+        ]) {
+            if (org && !orgs.has(orgKey(org))) orgs.set(orgKey(org), org);
+        }
+        return [...orgs.values()];
+    };
+
+    // Save a PAT for an organization (opting it into PAT auth), after checking
+    // it against ADO; or remove the one it has.
+    const setPersonalAccessToken = async (org?: string): Promise<void> => {
+        if (!tokenProvider) return;
+        if (!org) {
+            const orgs = await knownOrgs();
+            org = orgs.length > 0
+                ? (await vscode.window.showQuickPick([...orgs, '$(add) Another organization…'], { placeHolder: 'Organization to use a personal access token for' }))
+                : undefined;
+            if (!org || org.startsWith('$(add)')) {
+                org = (await vscode.window.showInputBox({ prompt: 'Azure DevOps organization (name or URL)' }))?.trim();
+            }
+            if (!org) return;
+        }
+
+        if (await tokenProvider.getPat(org)) {
+            const choice = await vscode.window.showQuickPick(['Replace personal access token', 'Remove personal access token'], { placeHolder: org });
+            if (!choice) return;
+            if (choice.startsWith('Remove')) {
+                await tokenProvider.setPat(org, undefined);
+                vscode.window.showInformationMessage(`Removed the personal access token for ${org}; it signs in with your Microsoft account again.`);
+                treeProvider?.forceRefresh();
+                return;
+            }
+        }
+
+        const token = (await vscode.window.showInputBox({
+            prompt: `Personal access token for ${org} (needs the Work Items read & write scope)`,
+            password: true,
+            ignoreFocusOut: true
+        }))?.trim();
+        if (!token) return;
+        const expiresOn = (await vscode.window.showInputBox({
+            prompt: 'When does the token expire? (YYYY-MM-DD, as shown on its page; leave empty to skip expiry warnings)',
+            ignoreFocusOut: true,
+            validateInput: (v) => !v.trim() || /^\d{4}-\d{2}-\d{2}$/.test(v.trim()) ? undefined : 'Use YYYY-MM-DD'
+        }))?.trim();
+        if (expiresOn === undefined) return;
+
+        let user: string | undefined;
+        try {
+            user = await tokenProvider.verifyPat(org, token);
+        } catch {
+            vscode.window.showErrorMessage(`Couldn't reach ${org} to check the token. Nothing was saved.`);
+            return;
+        }
+        if (!user) {
+            vscode.window.showErrorMessage(`Azure DevOps rejected that token for ${org} (revoked, expired or missing scopes). Nothing was saved.`);
+            return;
+        }
+        await tokenProvider.setPat(org, { token, user, expiresOn: expiresOn || undefined });
+        vscode.window.showInformationMessage(`Saved the personal access token for ${org} (signed in as ${user}).`);
+        treeProvider?.forceRefresh();
+        void checkPersonalAccessTokens();
+    };
+
+    // Warn about stored PATs that ADO rejects or that expire soon.
+    const checkPersonalAccessTokens = async (): Promise<void> => {
+        if (!tokenProvider) return;
+        for (const org of await tokenProvider.patOrgs()) {
+            const pat = await tokenProvider.getPat(org);
+            if (!pat) continue;
+            const days = daysUntilExpiry(pat);
+            let message: string | undefined;
+            if (days !== undefined && days < 0) {
+                message = `The personal access token for ${org} has expired.`;
+            } else {
+                // Unreachable isn't rejected: only warn when ADO answers no.
+                const rejected = await tokenProvider.verifyPat(org, pat.token).then(user => !user, () => false);
+                if (rejected) {
+                    message = `Azure DevOps no longer accepts the personal access token for ${org}.`;
+                } else if (days !== undefined && days <= PAT_EXPIRY_WARNING_DAYS) {
+                    message = days === 0
+                        ? `The personal access token for ${org} expires today.`
+                        : `The personal access token for ${org} expires in ${days} day${days === 1 ? '' : 's'}.`;
+                }
+            }
+            if (!message) continue;
+            void vscode.window.showWarningMessage(message, 'Update Token').then(choice => {
+                if (choice === 'Update Token') void setPersonalAccessToken(org);
+            });
+        }
+    };
+    void checkPersonalAccessTokens();
+    const patCheckTimer = setInterval(() => { void checkPersonalAccessTokens(); }, 12 * 60 * 60 * 1000);
+    context.subscriptions.push({ dispose: () => clearInterval(patCheckTimer) });
+
+    // Show which account and tenant serve each organization in use, and let
+    // the user sign in to one with another account or pin its tenant.
+    const manageAccounts = async (): Promise<void> => {
+        if (!tokenProvider) return;
+        const orgs = await knownOrgs();
+        if (orgs.length === 0) {
+            vscode.window.showInformationMessage('No Azure DevOps organizations are configured yet.');
+            return;
+        }
+        const accounts = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Window, title: 'Checking Azure DevOps accounts…' },
+            () => tokenProvider!.describeAccounts(orgs)
+        );
+        const pick = await vscode.window.showQuickPick(
+            accounts.map(a => ({
+                label: a.org,
+                description: a.source === 'pat'
+                    ? `Personal access token${a.account ? ` (${a.account})` : ''}`
+                    : a.account ?? (a.source === 'azureCli' ? 'Azure CLI' : 'Not signed in'),
+                detail: a.tenant ? `Tenant ${a.tenant} (${a.tenantSource})` : 'No tenant',
+                account: a
+            })),
+            { placeHolder: 'Which account serves each organization' }
+        );
+        if (!pick) return;
+
+        const action = await vscode.window.showQuickPick(
+            [
+                { label: 'Sign in with another account…', value: 'signIn' },
+                { label: pick.account.source === 'pat' ? 'Replace or remove personal access token…' : 'Use a personal access token…', value: 'pat' },
+                { label: 'Set tenant…', value: 'setTenant' },
+                ...(pick.account.tenantSource === 'configured' ? [{ label: 'Clear configured tenant', value: 'clearTenant' }] : [])
+            ],
+            { placeHolder: pick.account.org }
+        );
+        if (action?.value === 'signIn') {
+            if (await tokenProvider.signIn(pick.account.org, true)) {
+                treeProvider?.forceRefresh();
+            } else {
+                vscode.window.showWarningMessage(`Signing in to ${pick.account.org} was canceled or failed.`);
+            }
+        } else if (action?.value === 'pat') {
+            await setPersonalAccessToken(pick.account.org);
+        } else if (action?.value === 'setTenant') {
+            const tenant = await vscode.window.showInputBox({
+                prompt: `Entra tenant ID for ${pick.account.org}`,
+                value: pick.account.tenant,
+                validateInput: (v) => /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(v.trim()) ? undefined : 'Enter a tenant ID (GUID)'
+            });
+            if (!tenant) return;
+            await Settings.setTenant(pick.account.org, tenant.trim());
+        } else if (action?.value === 'clearTenant') {
+            await Settings.setTenant(pick.account.org, undefined);
+        }
+    };
+
+    // Background pull on activation (after first paint) and on focus,
+    // including the queries in subscribed folders.
+    const runPull = () => { void treeProvider?.syncedQueries().then(({ queries, allListed }) => syncEngine?.pull(queries, allListed)); };
     context.subscriptions.push(
         vscode.window.onDidChangeWindowState((st) => { if (st.focused) runPull(); })
     );
@@ -112,8 +306,23 @@ export async function activate(context: vscode.ExtensionContext) {
     const workItemRepo = dataStore.workItemRepository;
     const tagRepo = new TagRepository(database);
     const projectRepo = new ProjectRepository(database, taskRepo);
-    const undoStack = new UndoStack();
-    const vmBuilder = new ViewModelBuilder(taskRepo, workItemRepo, tagRepo);
+    const checklistRepo = new ChecklistRepository(database);
+    const linkRepo = new LinkRepository(database);
+    const commentRepo = new CommentRepository(database);
+    const historyRepo = new HistoryRepository(database);
+    const attachmentRepo = new AttachmentRepository(database);
+    const fieldMetadataRepo = new FieldMetadataRepository(database);
+    const workItemStateRepo = new WorkItemStateRepository(database, () => Settings.stateCategories);
+    // Opened attachments are downloaded once and kept here.
+    const attachmentCache = path.join(context.globalStorageUri.fsPath, 'attachments');
+    // Undo history lives in the DB; ADO edits are undone through the outbox.
+    const undoStack = new UndoStack(database, taskRepo, {
+        discard: (opId) => syncEngine?.discardOp(opId) ?? false,
+        enqueueFieldUpdate: async (adoId, field, value) => field === 'System.State'
+            ? syncEngine?.enqueueStateChange(adoId, String(value))
+            : syncEngine?.enqueueFieldUpdate(adoId, field, value)
+    });
+    const vmBuilder = new ViewModelBuilder(taskRepo, workItemRepo, tagRepo, checklistRepo, linkRepo, projectRepo, commentRepo, historyRepo, attachmentRepo, fieldMetadataRepo, workItemStateRepo);
 
     navigatorProvider = new NavigatorProvider(taskRepo, projectRepo);
     const navView = vscode.window.createTreeView('adoThings.navigator', {
@@ -121,25 +330,93 @@ export async function activate(context: vscode.ExtensionContext) {
     });
     context.subscriptions.push(navView);
 
+    // Outbox inspector: ops that haven't reached ADO yet, failed ones included.
+    const syncQueueProvider = new SyncQueueProvider(new SyncQueueRepository(database), workItemRepo, taskRepo);
+    context.subscriptions.push(vscode.window.createTreeView('adoThings.syncQueue', {
+        treeDataProvider: syncQueueProvider
+    }));
+
     workbench = new WorkbenchHost(context.extensionUri, taskRepo, vmBuilder, {
         onChangeState: (uuid) => changeStateForTask(uuid),
-        onOpenWorkItem: async (adoId) => {
-            const url = await dataStore?.getWorkItemUrl(adoId);
+        onTaskCompleted: (uuid) => completeWorkItemFor(uuid),
+        onOpenWorkItem: async (key) => {
+            const row = workItemRepo.get(key);
+            const url = await dataStore?.getWorkItemUrl(adoIdOf(key), row?.org, row?.project);
             if (url) { void vscode.env.openExternal(vscode.Uri.parse(url)); }
         },
         onPushToAdo: (uuid) => pushTaskToAdo(uuid),
         onUpdateField: async (uuid, ref, value) => {
             const task = taskRepo.getByUuid(uuid);
-            if (!task?.adoId) {
+            if (!task?.workItemKey) {
                 vscode.window.showInformationMessage('This task is local-only — push it to Azure DevOps before editing ADO fields.');
                 return;
             }
-            await syncEngine?.enqueueFieldUpdate(task.adoId, ref, value);
+            const before = workItemRepo.get(task.workItemKey)?.fields[ref];
+            const opId = await syncEngine?.enqueueFieldUpdate(task.workItemKey, ref, value);
+            undoStack.recordAdoField(`Edit ${ref.split('.').pop()}`, task.workItemKey, ref, before, value, opId);
+        },
+        onConvertChecklistItem: (uuid, id) => convertChecklistItem(uuid, id),
+        onMoveToProject: (uuid) => moveToProject(uuid),
+        onAddLink: async (uuid) => {
+            const key = taskRepo.getByUuid(uuid)?.workItemKey;
+            if (key !== undefined) await addLinkFor(key);
+        },
+        onRemoveLink: async (uuid, kind, targetId) => {
+            const key = taskRepo.getByUuid(uuid)?.workItemKey;
+            if (key !== undefined) await syncEngine?.enqueueLink(key, 'remove', kind, targetId);
+        },
+        onLoadComments: async (uuid) => {
+            const key = taskRepo.getByUuid(uuid)?.workItemKey;
+            if (key !== undefined) await syncEngine?.refreshComments(key);
+        },
+        onAddComment: async (uuid, html) => {
+            const key = taskRepo.getByUuid(uuid)?.workItemKey;
+            if (key === undefined) return;
+            const org = workItemRepo.get(key)?.org ?? Settings.organization;
+            await syncEngine?.enqueueComment(key, html, await tokenProvider?.getSignedInUser(org));
+        },
+        onLoadHistory: async (uuid) => {
+            const key = taskRepo.getByUuid(uuid)?.workItemKey;
+            if (key !== undefined) await syncEngine?.refreshHistory(key);
+        },
+        onOpenAttachment: async (uuid, url, name) => {
+            const key = taskRepo.getByUuid(uuid)?.workItemKey;
+            const org = (key !== undefined ? workItemRepo.get(key)?.org : undefined) ?? Settings.organization;
+            const local = await syncEngine?.downloadAttachment(org, url, name, attachmentCache);
+            if (local) {
+                await vscode.commands.executeCommand('vscode.open', vscode.Uri.file(local));
+            } else {
+                vscode.window.showWarningMessage(`Couldn't download ${name} from Azure DevOps.`);
+            }
+        },
+        onAttachFile: async (uuid) => {
+            const key = taskRepo.getByUuid(uuid)?.workItemKey;
+            if (key === undefined) return;
+            const file = await pickFileToAttach();
+            if (file) await attachFileTo(key, file);
         },
+        onResolveConflict: (id, decision) => syncEngine?.resolveConflict(id, decision),
         onDataChanged: () => navigatorProvider?.refresh()
-    }, tagRepo, undoStack);
+    }, tagRepo, undoStack, projectRepo, checklistRepo);
     context.subscriptions.push({ dispose: () => workbench?.dispose() });
 
+    // Conflicts queue up in the workbench; a quiet notice points there when
+    // new ones arrive instead of a modal interrupting the background sync.
+    let conflictCount = 0;
+    const showConflicts = (conflicts: PendingConflict[]) => {
+        workbench?.setConflicts(conflicts.map(c => vmBuilder.buildConflict(c)));
+        if (conflicts.length > conflictCount) {
+            const message = conflicts.length === 1
+                ? `#${conflicts[0].adoId} was changed in Azure DevOps while your edit to ${conflicts[0].field.split('.').pop()} was queued.`
+                : `${conflicts.length} queued changes conflict with edits made in Azure DevOps.`;
+            void vscode.window.showWarningMessage(message, 'Review').then(choice => {
+                if (choice === 'Review') workbench?.reveal();
+            });
+        }
+        conflictCount = conflicts.length;
+    };
+    syncEngine.onDidChangeConflicts(showConflicts);
+
     // Now that the workbench exists, populate the signed-in user for it.
     void refreshAuthContext();
 
@@ -147,17 +424,18 @@ export async function activate(context: vscode.ExtensionContext) {
     syncEngine.onDidChangeStatus((s) => {
         workbench?.setSyncStatus({ phase: s.phase, pendingCount: s.pendingCount, lastSyncedUtc: s.lastSyncedUtc });
         navigatorProvider?.refresh();
+        syncQueueProvider.refresh();
         workbench?.postSnapshot();
     });
 
     // Change a linked task's ADO state via quick-pick, then enqueue to outbox.
     const changeStateForTask = async (uuid: string): Promise<void> => {
         const task = taskRepo.getByUuid(uuid);
-        if (!task?.adoId) {
+        if (!task?.workItemKey) {
             vscode.window.showInformationMessage('This task is local-only (no Azure DevOps work item).');
             return;
         }
-        const wi = workItemRepo.getById(task.adoId);
+        const wi = workItemRepo.get(task.workItemKey);
         const witType = wi?.type;
         if (!witType) {
             vscode.window.showWarningMessage('Work item type is unknown — cannot determine valid states.');
@@ -170,18 +448,256 @@ export async function activate(context: vscode.ExtensionContext) {
             return;
         }
         const picked = await vscode.window.showQuickPick(items, {
-            placeHolder: `Change #${task.adoId} from "${wi?.state}" to...`
+            placeHolder: `Change #${adoIdOf(task.workItemKey)} from "${wi?.state}" to...`
         });
         if (!picked) return;
-        await syncEngine?.enqueueStateChange(task.adoId, picked.label);
+        const opId = await syncEngine?.enqueueStateChange(task.workItemKey, picked.label);
+        undoStack.recordAdoField(`Change state to ${picked.label}`, task.workItemKey, 'System.State', wi?.state, picked.label, opId);
+    };
+
+    // A linked task was completed in the workbench: move its work item to its
+    // type's Completed-category state, unless it's already closed.
+    const completeWorkItemFor = async (uuid: string): Promise<void> => {
+        const task = taskRepo.getByUuid(uuid);
+        if (!task?.workItemKey || !syncEngine) return;
+        const wi = workItemRepo.get(task.workItemKey);
+        if (!wi || isClosedCategory(workItemStateRepo.categoryOf(wi))) return;
+        const completed = await syncEngine.completedStateFor(task.workItemKey);
+        if (!completed) {
+            vscode.window.showWarningMessage(`Couldn't find a Completed state for "${wi.type ?? 'this type'}" — #${wi.adoId} stays "${wi.state}" in Azure DevOps.`);
+            return;
+        }
+        const opId = await syncEngine.enqueueStateChange(task.workItemKey, completed);
+        // Part of the "Complete task" change, so one undo reopens both.
+        undoStack.attachAdoField(uuid, `Change state to ${completed}`, task.workItemKey, 'System.State', wi.state, completed, opId);
+    };
+
+    // Link a work item to another: pick the link type, then a mirrored work
+    // item (or type its ID). Queued through the outbox and mirrored locally.
+    const addLinkFor = async (key: WorkItemKey): Promise<void> => {
+        const adoId = adoIdOf(key);
+        if (!syncEngine || !workItemRepo.get(key)) {
+            vscode.window.showWarningMessage(`Work item #${adoId} isn't in the local mirror yet — sync first, then add links.`);
+            return;
+        }
+        const kindPick = await vscode.window.showQuickPick(
+            (Object.keys(LINK_LABELS) as LinkKind[]).map(linkKind => ({ label: LINK_LABELS[linkKind], linkKind })),
+            { placeHolder: `Link #${adoId} to… (link type)` }
+        );
+        if (!kindPick) return;
+
+        // Links stay within one organization, so only offer its work items.
+        const existing = new Set(linkRepo.linksOf(key).filter(l => l.kind === kindPick.linkKind).map(l => l.targetKey));
+        const byId: { label: string; description?: string; targetId?: number }[] = workItemRepo.all()
+            .filter(row => !row.deleted && row.key !== key && row.key === siblingKey(key, row.adoId) && !existing.has(row.key))
+            .map(row => ({
+                label: `#${row.adoId} ${String(row.fields['System.Title'] ?? '')}`,
+                description: [row.type, row.state].filter(Boolean).join(' · '),
+                targetId: row.adoId
+            }));
+        const targetPick = await vscode.window.showQuickPick(
+            [{ label: '$(edit) Enter a work item ID…' }, ...byId],
+            { placeHolder: `${kindPick.label} of #${adoId}`, matchOnDescription: true }
+        );
+        if (!targetPick) return;
+        let targetId = targetPick.targetId;
+        if (targetId === undefined) {
+            const typed = await vscode.window.showInputBox({
+                prompt: `${kindPick.label} work item ID or link`,
+                validateInput: (v) => {
+                    const id = workItemIdFromText(v);
+                    return id !== undefined && id !== adoId ? undefined : 'Enter another work item\'s ID or paste its link';
+                }
+            });
+            if (!typed) return;
+            targetId = workItemIdFromText(typed)!;
+        }
+        await syncEngine.enqueueLink(key, 'add', kindPick.linkKind, targetId);
+        navigatorProvider?.refresh();
+        workbench?.postSnapshot();
+    };
+
+    const pickFileToAttach = async (): Promise<vscode.Uri | undefined> => {
+        const picked = await vscode.window.showOpenDialog({ canSelectMany: false, openLabel: 'Attach' });
+        return picked?.[0];
+    };
+
+    // Attach a local file to a work item. The upload goes through the outbox,
+    // so it retries while offline; the file must still exist when it runs.
+    const attachFileTo = async (key: WorkItemKey, file: vscode.Uri): Promise<void> => {
+        if (!syncEngine) return;
+        let size: number;
+        try {
+            size = (await fs.promises.stat(file.fsPath)).size;
+        } catch {
+            vscode.window.showWarningMessage(`Can't read ${file.fsPath}.`);
+            return;
+        }
+        if (size > MAX_ATTACHMENT_BYTES) {
+            vscode.window.showWarningMessage(`${path.basename(file.fsPath)} is larger than the 130 MB Azure DevOps accepts in one upload.`);
+            return;
+        }
+        await syncEngine.enqueueAttachment(key, file.fsPath, path.basename(file.fsPath), size);
+        workbench?.refreshOpenDetail();
+    };
+
+    // Pick what a project syncs from: an area path, an iteration or a parent
+    // Epic/Feature, offering values already seen in the mirror. Resolves to
+    // null for "local only" and undefined when the user backs out.
+    const pickBinding = async (projectName: string): Promise<ProjectAdoBinding | null | undefined> => {
+        const kindPick = await vscode.window.showQuickPick<vscode.QuickPickItem & { bindingKind?: ProjectBindingKind }>(
+            [
+                { label: 'Local only', description: 'Don\'t sync this project with Azure DevOps' },
+                { label: 'Area path', description: 'Pull work items under an area path', bindingKind: 'areaPath' },
+                { label: 'Iteration', description: 'Pull work items in an iteration', bindingKind: 'iteration' },
+                { label: 'Parent Epic or Feature', description: 'Pull the children of a work item', bindingKind: 'parent' }
+            ],
+            { placeHolder: `Sync "${projectName}" with Azure DevOps?` }
+        );
+        if (!kindPick) return undefined;
+        const kind = kindPick.bindingKind;
+        if (!kind) return null;
+
+        const firstQuery = Settings.getActiveQueries()[0];
+        const organization = firstQuery?.organization ?? Settings.organization;
+        const project = firstQuery?.project ?? Settings.project;
+        if (!organization || !project) {
+            vscode.window.showWarningMessage('Set an Azure DevOps organization and project (or add a query) before binding a project.');
+            return undefined;
+        }
+        const rows = workItemRepo.all().filter(row => !row.deleted && row.org === organization && row.project === project);
+
+        if (kind === 'parent') {
+            const parents = rows
+                .filter(row => row.type === 'Epic' || row.type === 'Feature')
+                .map(row => ({ label: `#${row.adoId} ${String(row.fields['System.Title'] ?? '')}`, description: row.type, parentId: row.adoId as number | undefined }));
+            const pick = await vscode.window.showQuickPick(
+                [{ label: '$(edit) Enter a work item ID…', description: undefined, parentId: undefined }, ...parents],
+                { placeHolder: 'Parent work item', matchOnDescription: true }
+            );
+            if (!pick) return undefined;
+            let parentId = pick.parentId;
+            if (parentId === undefined) {
+                const typed = await vscode.window.showInputBox({
+                    prompt: 'Parent work item ID or link',
+                    validateInput: (v) => workItemIdFromText(v) !== undefined ? undefined : 'Enter a work item ID or paste its link'
+                });
+                if (!typed) return undefined;
+                parentId = workItemIdFromText(typed)!;
+            }
+            return { kind, organization, project, parentId };
+        }
+
+        const field = kind === 'areaPath' ? 'System.AreaPath' : 'System.IterationPath';
+        const label = kind === 'areaPath' ? 'Area path' : 'Iteration path';
+        const seen = [...new Set(rows.map(row => row.fields[field]).filter((v): v is string => typeof v === 'string' && v !== ''))].sort();
+        const pick = await vscode.window.showQuickPick(
+            [{ label: `$(edit) Enter ${label.toLowerCase()}…`, path: undefined as string | undefined }, ...seen.map(path => ({ label: path, path }))],
+            { placeHolder: label }
+        );
+        if (!pick) return undefined;
+        let path = pick.path;
+        if (path === undefined) {
+            path = (await vscode.window.showInputBox({ prompt: label, placeHolder: `${project}\\Team` }))?.trim();
+            if (!path) return undefined;
+        }
+        return { kind, organization, project, path };
+    };
+
+    // File a task under another project. Moving into a bound project queues
+    // the area/iteration path or parent link that puts its work item there.
+    const moveToProject = async (uuid: string): Promise<void> => {
+        const task = taskRepo.getByUuid(uuid);
+        if (!task) return;
+        const pick = await vscode.window.showQuickPick(
+            [
+                { label: 'No project', projectUuid: undefined as string | undefined },
+                ...projectRepo.allProjects().map(p => ({
+                    label: p.name,
+                    description: p.adoBinding ? describeBinding(p.adoBinding) : undefined,
+                    projectUuid: p.uuid as string | undefined
+                }))
+            ].filter(p => p.projectUuid !== task.projectUuid),
+            { placeHolder: `Move "${task.title}" to…` }
+        );
+        if (!pick) return;
+        const before = taskRepo.snapshot(uuid);
+        if (syncEngine) await syncEngine.moveTaskToProject(uuid, pick.projectUuid);
+        else taskRepo.assignToProject(uuid, pick.projectUuid);
+        undoStack.recordTask(`Move to ${pick.label}`, uuid, before);
+        navigatorProvider?.refresh();
+        workbench?.postSnapshot();
+    };
+
+    // Remove one of a work item's mirrored links.
+    const removeLinkFor = async (key: WorkItemKey): Promise<void> => {
+        const adoId = adoIdOf(key);
+        const links = linkRepo.linksOf(key);
+        if (links.length === 0) {
+            vscode.window.showInformationMessage(`Work item #${adoId} has no links to remove.`);
+            return;
+        }
+        const pick = await vscode.window.showQuickPick(
+            links.map(l => ({
+                label: `${LINK_LABELS[l.kind]}: #${adoIdOf(l.targetKey)}`,
+                description: String(workItemRepo.get(l.targetKey)?.fields['System.Title'] ?? ''),
+                link: l
+            })),
+            { placeHolder: `Remove which link from #${adoId}?` }
+        );
+        if (!pick) return;
+        await syncEngine?.enqueueLink(key, 'remove', pick.link.kind, adoIdOf(pick.link.targetKey));
+        navigatorProvider?.refresh();
+        workbench?.postSnapshot();
+    };
+
+    // Turn a checklist item into a task of its own, created in ADO as a child
+    // Task of the parent task's work item.
+    const convertChecklistItem = async (uuid: string, id: number): Promise<void> => {
+        const parent = taskRepo.getByUuid(uuid);
+        const item = checklistRepo.get(id);
+        if (!parent || !item) return;
+        if (parent.workItemKey === undefined) {
+            vscode.window.showInformationMessage('This task is local-only — push it to Azure DevOps before converting checklist items into child tasks.');
+            return;
+        }
+        const signedIn = (await tokenProvider?.isSignedIn()) ?? false;
+        if (!signedIn) {
+            vscode.window.showWarningMessage('Sign in to Azure DevOps to create the child task.');
+            return;
+        }
+        const parentId = adoIdOf(parent.workItemKey);
+        const wi = workItemRepo.get(parent.workItemKey);
+        const org = wi?.org ?? Settings.organization;
+        const project = wi?.project ?? Settings.project;
+        if (!org || !project) {
+            vscode.window.showWarningMessage(`Could not tell which organization and project work item #${parentId} belongs to.`);
+            return;
+        }
+
+        const child = taskRepo.createLocal(item.text, parent.list === 'logbook' ? 'anytime' : parent.list);
+        if (parent.projectUuid) taskRepo.assignToProject(child.uuid, parent.projectUuid);
+        checklistRepo.remove(id);
+        await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: `Creating child Task of #${parentId}…` },
+            async () => { await syncEngine?.pushTaskToAdo(child.uuid, 'Task', org, project, undefined, parentId); }
+        );
+
+        const created = taskRepo.getByUuid(child.uuid);
+        if (created?.workItemKey) {
+            vscode.window.setStatusBarMessage(`Created Task #${adoIdOf(created.workItemKey)} under #${parentId}`, 3000);
+        } else {
+            vscode.window.showWarningMessage(`"${item.text}" is now a local task; creating it in Azure DevOps is queued. See the Sync Queue for details.`);
+        }
+        navigatorProvider?.refresh();
     };
 
     // Push a local-only task up to ADO as a brand-new work item.
     const pushTaskToAdo = async (uuid: string): Promise<void> => {
         const task = taskRepo.getByUuid(uuid);
         if (!task) return;
-        if (task.adoId !== undefined) {
-            vscode.window.showInformationMessage(`This task is already linked to Azure DevOps work item #${task.adoId}.`);
+        if (task.workItemKey !== undefined) {
+            vscode.window.showInformationMessage(`This task is already linked to Azure DevOps work item #${adoIdOf(task.workItemKey)}.`);
             return;
         }
 
@@ -197,11 +713,13 @@ export async function activate(context: vscode.ExtensionContext) {
             }
         }
 
-        // Resolve org/project: prefer a configured query's, fall back to globals,
-        // else prompt once and persist so future pushes are friction-free.
+        // Resolve org/project: a bound project's, else a configured query's, fall
+        // back to globals, else prompt once and persist so future pushes are
+        // friction-free.
+        const binding = task.projectUuid ? projectRepo.getProject(task.projectUuid)?.adoBinding : undefined;
         const firstQuery = Settings.getActiveQueries()[0];
-        let org = firstQuery?.organization ?? Settings.organization;
-        let project = firstQuery?.project ?? Settings.project;
+        let org = binding?.organization ?? firstQuery?.organization ?? Settings.organization;
+        let project = binding?.project ?? firstQuery?.project ?? Settings.project;
         const cfg = vscode.workspace.getConfiguration('adoQueries');
         if (!org) {
             org = (await vscode.window.showInputBox({ prompt: 'Azure DevOps organization (name or URL)', placeHolder: 'Saved for next time' })) ?? '';
@@ -218,9 +736,10 @@ export async function activate(context: vscode.ExtensionContext) {
 
         const promptEach = Settings.alwaysPromptOnPush;
 
-        // Work item type: use the configured default unless prompting is on.
-        let type = Settings.defaultWorkItemType || 'Task';
-        if (promptEach) {
+        // Work item type: the one given at capture (`type:Bug`), else the
+        // configured default unless prompting is on.
+        let type = task.workItemType || Settings.defaultWorkItemType || 'Task';
+        if (promptEach && !task.workItemType) {
             const picked = await vscode.window.showQuickPick(['Task', 'Bug', 'User Story', 'Feature', 'Issue'], {
                 placeHolder: 'Work item type to create'
             });
@@ -231,7 +750,7 @@ export async function activate(context: vscode.ExtensionContext) {
         // Assignee: use the configured default ('me' / 'unassigned') unless prompting.
         let assignedTo: string | undefined;
         if (promptEach) {
-            const me = await tokenProvider?.getSignedInUser();
+            const me = await tokenProvider?.getSignedInUser(org);
             const assignChoice = await vscode.window.showQuickPick(
                 [
                     { label: me ? `Assign to me (${me})` : 'Assign to me', value: 'me' },
@@ -242,7 +761,7 @@ export async function activate(context: vscode.ExtensionContext) {
             if (!assignChoice) return;
             assignedTo = assignChoice.value === 'me' ? me : undefined;
         } else if (Settings.defaultAssignee === 'me') {
-            assignedTo = await tokenProvider?.getSignedInUser();
+            assignedTo = await tokenProvider?.getSignedInUser(org);
         }
 
         await vscode.window.withProgress(
@@ -251,8 +770,8 @@ export async function activate(context: vscode.ExtensionContext) {
         );
 
         const updated = taskRepo.getByUuid(uuid);
-        if (updated?.adoId) {
-            vscode.window.showInformationMessage(`Created work item #${updated.adoId} for "${updated.title}".`);
+        if (updated?.workItemKey) {
+            vscode.window.showInformationMessage(`Created work item #${adoIdOf(updated.workItemKey)} for "${updated.title}".`);
         } else {
             vscode.window.showWarningMessage('Could not create the work item. See the Output log for details.');
         }
@@ -277,27 +796,35 @@ export async function activate(context: vscode.ExtensionContext) {
         vscode.commands.registerCommand('adoThings.quickCapture', async () => {
             const title = await vscode.window.showInputBox({
                 prompt: 'New To-Do',
-                placeHolder: 'What do you need to do? (try "#tag" or "tomorrow")'
+                placeHolder: 'What do you need to do? (try "#tag", "friday", "!nov 3", "@project", "p1" or "type:Bug")',
+                // Echo what the line will set, since the input box can't highlight tokens.
+                validateInput: (value) => {
+                    const tokens = parseQuickEntry(value).tokens;
+                    if (tokens.length === 0) return undefined;
+                    return { message: tokens.map(describeToken).join(' · '), severity: vscode.InputBoxValidationSeverity.Info };
+                }
             });
             if (title && title.trim()) {
                 const parsed = parseQuickEntry(title.trim());
-                const task = taskRepo.createLocal(parsed.title || title.trim(), 'inbox');
-                if (parsed.whenDate) taskRepo.setWhen(task.uuid, parsed.whenDate);
-                if (parsed.tags.length > 0) {
-                    taskRepo.setTags(task.uuid, parsed.tags.map(n => tagRepo.getOrCreate(n).id));
-                }
-                undoStack.push('Add task', () => taskRepo.remove(task.uuid));
+                const { task, unknownProject } = createTaskFromQuickEntry(parsed, title, 'inbox', {
+                    tasks: taskRepo, tags: tagRepo, projects: projectRepo
+                });
+                undoStack.recordTask('Add task', task.uuid, undefined);
                 navigatorProvider?.refresh();
                 workbench?.postSnapshot();
-                vscode.window.setStatusBarMessage(`Added to Inbox: ${parsed.title || title.trim()}`, 2000);
+                if (unknownProject) {
+                    vscode.window.showWarningMessage(`No project named "${unknownProject}" — "${task.title}" was added without one.`);
+                }
+                const where = task.list === 'inbox' ? 'Inbox' : task.list === 'someday' ? 'Someday' : 'Anytime';
+                vscode.window.setStatusBarMessage(`Added to ${where}: ${task.title}`, 2000);
             }
         })
     );
 
-    // Undo the most recent local change.
+    // Undo / redo the most recent local change.
     context.subscriptions.push(
-        vscode.commands.registerCommand('adoThings.undo', () => {
-            const label = undoStack.undo();
+        vscode.commands.registerCommand('adoThings.undo', async () => {
+            const label = await undoStack.undo();
             if (label) {
                 navigatorProvider?.refresh();
                 workbench?.postSnapshot();
@@ -305,6 +832,53 @@ export async function activate(context: vscode.ExtensionContext) {
             } else {
                 vscode.window.setStatusBarMessage('Nothing to undo', 1500);
             }
+        }),
+        vscode.commands.registerCommand('adoThings.redo', async () => {
+            const label = await undoStack.redo();
+            if (label) {
+                navigatorProvider?.refresh();
+                workbench?.postSnapshot();
+                vscode.window.setStatusBarMessage(`Redid: ${label}`, 2000);
+            } else {
+                vscode.window.setStatusBarMessage('Nothing to redo', 1500);
+            }
+        })
+    );
+
+    // Sync Queue actions.
+    context.subscriptions.push(
+        vscode.commands.registerCommand('adoThings.retrySyncOp', async (item?: SyncQueueItem) => {
+            if (item) await syncEngine?.retryOp(item.op.opId);
+        }),
+        vscode.commands.registerCommand('adoThings.retryAllSyncOps', async () => {
+            const count = (await syncEngine?.retryAllOps()) ?? 0;
+            vscode.window.setStatusBarMessage(count > 0 ? `Retrying ${count} failed change(s)` : 'No failed changes to retry', 2000);
+        }),
+        vscode.commands.registerCommand('adoThings.discardSyncOp', async (item?: SyncQueueItem) => {
+            if (!item) return;
+            const choice = await vscode.window.showWarningMessage(
+                `Discard "${item.label as string}"? The change will not be sent to Azure DevOps and is reverted locally.`,
+                { modal: true },
+                'Discard'
+            );
+            if (choice !== 'Discard') return;
+            if (!syncEngine?.discardOp(item.op.opId)) {
+                vscode.window.showInformationMessage('That change is being pushed right now and can no longer be discarded.');
+                return;
+            }
+            navigatorProvider?.refresh();
+            workbench?.postSnapshot();
+            treeProvider?.refresh();
+        }),
+        vscode.commands.registerCommand('adoThings.openSyncOpWorkItem', async (item?: SyncQueueItem) => {
+            const key = item?.workItemKey(taskRepo);
+            if (key === undefined) {
+                vscode.window.showInformationMessage('This change creates a new work item, which does not exist in Azure DevOps yet.');
+                return;
+            }
+            const row = workItemRepo.get(key);
+            const url = await dataStore?.getWorkItemUrl(adoIdOf(key), row?.org, row?.project);
+            if (url) void vscode.env.openExternal(vscode.Uri.parse(url));
         })
     );
 
@@ -313,11 +887,33 @@ export async function activate(context: vscode.ExtensionContext) {
         vscode.commands.registerCommand('adoThings.newProject', async () => {
             const name = await vscode.window.showInputBox({ prompt: 'New project name' });
             if (name && name.trim()) {
-                projectRepo.createProject(name.trim());
+                const binding = await pickBinding(name.trim());
+                projectRepo.createProject(name.trim(), undefined, binding ?? undefined);
                 navigatorProvider?.refresh();
+                if (binding) runPull();
             }
         })
     );
+    context.subscriptions.push(
+        vscode.commands.registerCommand('adoThings.bindProject', async (item?: NavItem) => {
+            let uuid = item?.viewId?.startsWith('project:') ? item.viewId.slice('project:'.length) : undefined;
+            if (!uuid) {
+                const pick = await vscode.window.showQuickPick(
+                    projectRepo.allProjects().map(p => ({ label: p.name, description: p.adoBinding ? describeBinding(p.adoBinding) : undefined, uuid: p.uuid })),
+                    { placeHolder: 'Project to sync with Azure DevOps' }
+                );
+                uuid = pick?.uuid;
+            }
+            const project = uuid ? projectRepo.getProject(uuid) : undefined;
+            if (!project) return;
+            const binding = await pickBinding(project.name);
+            if (binding === undefined) return;
+            projectRepo.setBinding(project.uuid, binding ?? undefined);
+            navigatorProvider?.refresh();
+            workbench?.postSnapshot();
+            if (binding) runPull();
+        })
+    );
     context.subscriptions.push(
         vscode.commands.registerCommand('adoThings.newArea', async () => {
             const name = await vscode.window.showInputBox({ prompt: 'New area name' });
@@ -328,10 +924,36 @@ export async function activate(context: vscode.ExtensionContext) {
         })
     );
 
+    // Attach a file from the Explorer, the active editor, or a file dialog to
+    // a mirrored work item.
+    context.subscriptions.push(
+        vscode.commands.registerCommand('adoThings.attachFile', async (uri?: vscode.Uri) => {
+            const active = vscode.window.activeTextEditor?.document.uri;
+            const file = uri?.scheme === 'file' ? uri
+                : active?.scheme === 'file' ? active
+                : await pickFileToAttach();
+            if (!file) return;
+            const rows = workItemRepo.all().filter(row => !row.deleted);
+            if (rows.length === 0) {
+                vscode.window.showInformationMessage('No work items in the local mirror yet — sync first, then attach files.');
+                return;
+            }
+            const pick = await vscode.window.showQuickPick(
+                rows.map(row => ({
+                    label: `#${row.adoId} ${String(row.fields['System.Title'] ?? '')}`,
+                    description: [row.type, row.state].filter(Boolean).join(' · '),
+                    key: row.key
+                })),
+                { placeHolder: `Attach ${path.basename(file.fsPath)} to…`, matchOnDescription: true }
+            );
+            if (pick) await attachFileTo(pick.key, file);
+        })
+    );
+
     // Push a local-only task to ADO from the command palette.
     context.subscriptions.push(
         vscode.commands.registerCommand('adoThings.pushToAdo', async () => {
-            const locals = taskRepo.all().filter(t => t.adoId === undefined && !t.completedAt && !t.canceledAt);
+            const locals = taskRepo.all().filter(t => t.workItemKey === undefined && !t.completedAt && !t.canceledAt);
             if (locals.length === 0) {
                 vscode.window.showInformationMessage('No local-only tasks to push.');
                 return;
@@ -370,7 +992,9 @@ export async function activate(context: vscode.ExtensionContext) {
         vscode.commands.registerCommand('adoThings.configureDetailFields', async () => {
             const current = Settings.detailFields;
             const selectedKeys = new Set(current.length > 0 ? current : DEFAULT_DETAIL_KEYS);
-            const picks = DETAIL_FIELD_CATALOG.map(def => ({
+            // Built-in fields first, then every other field the synced work item types have.
+            const catalog = buildFieldCatalog(fieldMetadataRepo.allFields());
+            const picks = catalog.map(def => ({
                 label: def.label,
                 description: def.editable ? '$(edit) editable' : (def.source === 'local' ? 'local' : 'read-only'),
                 detail: def.key,
@@ -385,7 +1009,7 @@ export async function activate(context: vscode.ExtensionContext) {
 
             // Preserve catalog order for a stable layout.
             const chosenKeys = new Set(chosen.map(c => c.detail));
-            const ordered = DETAIL_FIELD_CATALOG.filter(d => chosenKeys.has(d.key)).map(d => d.key);
+            const ordered = catalog.filter(d => chosenKeys.has(d.key)).map(d => d.key);
 
             // Write to whichever target is currently in use, defaulting to Global
             // (User) settings. Fall back gracefully if a target can't be written.
@@ -492,7 +1116,7 @@ export async function activate(context: vscode.ExtensionContext) {
             }
 
             // Try to extract query info from clipboard
-            const parsed = extractQueryInfoFromUrl(clipboardText.trim());
+            const parsed = extractQueryInfoFromUrl(clipboardText.trim(), Settings.collectionUrls);
             
             // Try to auto-fetch query name from ADO if we have a queryId
             let defaultName = 'New Query';
@@ -537,6 +1161,16 @@ export async function activate(context: vscode.ExtensionContext) {
             
             if (parsed.queryId) {
                 newQuery.queryId = parsed.queryId;
+            } else if (parsed.project) {
+                // A work item, board or backlog link names the project but no query
+                const queryPath = await vscode.window.showInputBox({
+                    prompt: `Enter the query path in ${parsed.project}`,
+                    placeHolder: 'e.g., Shared Queries/My Query'
+                });
+                if (!queryPath?.trim()) {
+                    return;
+                }
+                newQuery.queryPath = queryPath.trim();
             } else {
                 // Ask how to interpret the clipboard content
                 const choice = await vscode.window.showQuickPick([
@@ -611,6 +1245,74 @@ export async function activate(context: vscode.ExtensionContext) {
         })
     );
 
+    // ── Add Query from Folder ────────────────────────────────────────
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('adoQueries.addQueryFromFolder', async () => {
+            const org = Settings.organization;
+            const project = Settings.project;
+            if (!org || !project) {
+                vscode.window.showWarningMessage('Set adoQueries.organization and adoQueries.project to browse their queries.');
+                return;
+            }
+
+            const picked = await pickFromQueryFolders(restClient, org, project);
+            if (!picked) return;
+
+            if ('subscribe' in picked) {
+                await addQueryFolderToSettings({ path: picked.subscribe });
+                vscode.window.showInformationMessage(`Subscribed to ${picked.subscribe}; its queries will appear in Query Results.`);
+            } else if ('unsubscribe' in picked) {
+                await removeQueryFolderFromSettings(org, project, picked.unsubscribe);
+                vscode.window.showInformationMessage(`Unsubscribed from ${picked.unsubscribe}`);
+            } else {
+                const name = await vscode.window.showInputBox({
+                    prompt: 'Enter a display name for this query',
+                    value: picked.query.name
+                });
+                if (!name) return;
+                await addQueryToSettings({
+                    name,
+                    queryId: picked.query.id,
+                    groupBy: [
+                        { field: 'System.State', missingLabel: '(no state)' }
+                    ]
+                });
+                vscode.window.showInformationMessage(`Added query: ${name}`);
+            }
+            treeProvider?.forceRefresh();
+        })
+    );
+
+    // ── WIQL editor ──────────────────────────────────────────────────
+    // Saving a .wiql document runs it into the Query Results tree, named
+    // after the file.
+
+    context.subscriptions.push(
+        vscode.languages.registerCompletionItemProvider('wiql', new WiqlCompletionProvider(workItemRepo, fieldMetadataRepo), '[', '@'),
+        vscode.commands.registerCommand('adoQueries.newWiqlQuery', async () => {
+            const document = await vscode.workspace.openTextDocument({
+                language: 'wiql',
+                content: [
+                    'SELECT [System.Id], [System.Title], [System.State]',
+                    'FROM WorkItems',
+                    'WHERE [System.TeamProject] = @project',
+                    '    AND [System.AssignedTo] = @Me',
+                    'ORDER BY [System.ChangedDate] DESC',
+                    ''
+                ].join('\n')
+            });
+            await vscode.window.showTextDocument(document);
+        }),
+        vscode.workspace.onDidSaveTextDocument(document => {
+            if (document.languageId !== 'wiql' || !treeProvider) return;
+            const wiql = document.getText().trim();
+            if (!wiql) return;
+            const name = path.basename(document.fileName).replace(/\.wiql$/i, '');
+            vscode.window.setStatusBarMessage(`$(loading~spin) Running ${name}…`, treeProvider.runAdHocQuery({ name, wiql }));
+        })
+    );
+
     // ── Remove Query ─────────────────────────────────────────────────
 
     context.subscriptions.push(
@@ -734,6 +1436,14 @@ export async function activate(context: vscode.ExtensionContext) {
     // ── Change State ─────────────────────────────────────────────────
 
     context.subscriptions.push(
+        vscode.commands.registerCommand('adoQueries.addLink', async (node?: WorkItemNode | AdoTreeItem) => {
+            const workItemNode = extractWorkItemNode(node);
+            if (workItemNode) await addLinkFor(workItemNodeKey(workItemNode));
+        }),
+        vscode.commands.registerCommand('adoQueries.removeLink', async (node?: WorkItemNode | AdoTreeItem) => {
+            const workItemNode = extractWorkItemNode(node);
+            if (workItemNode) await removeLinkFor(workItemNodeKey(workItemNode));
+        }),
         vscode.commands.registerCommand('adoQueries.changeState', async (node?: WorkItemNode | AdoTreeItem) => {
             if (!treeProvider) return;
 
@@ -743,7 +1453,7 @@ export async function activate(context: vscode.ExtensionContext) {
             const adoClient = treeProvider.getAdoClient();
 
             // Find the parent query to get org/project context
-            const parentQuery = treeProvider.findParentQuery(workItemNode.id);
+            const parentQuery = treeProvider.findParentQuery(workItemNode.id, workItemNode.org);
             const org = parentQuery?.organization;
             const project = parentQuery?.project;
 
@@ -792,7 +1502,7 @@ export async function activate(context: vscode.ExtensionContext) {
             await vscode.window.withProgress(
                 { location: vscode.ProgressLocation.Notification, title: `Updating #${workItemNode.id}...` },
                 async () => {
-                    await syncEngine?.enqueueStateChange(workItemNode.id, picked.label);
+                    await syncEngine?.enqueueStateChange(workItemNodeKey(workItemNode), picked.label);
                 }
             );
 
@@ -876,6 +1586,141 @@ async function addQueryToSettings(newQuery: QueryDefinition): Promise<void> {
     await config.update('queries', updatedQueries, getSettingsTarget());
 }
 
+/**
+ * Subscribe to a query folder, using the same scope as the queries
+ */
+async function addQueryFolderToSettings(folder: QueryFolderDefinition): Promise<void> {
+    const config = vscode.workspace.getConfiguration('adoQueries');
+    const existing = config.get<QueryFolderDefinition[]>('queryFolders') ?? [];
+    await config.update('queryFolders', [...existing, folder], getSettingsTarget());
+}
+
+/**
+ * Unsubscribe from the folder at `folderPath` in `org`/`project`, leaving the
+ * same path in other organizations and projects subscribed
+ */
+async function removeQueryFolderFromSettings(org: string, project: string, folderPath: string): Promise<void> {
+    const config = vscode.workspace.getConfiguration('adoQueries');
+    const existing = config.get<QueryFolderDefinition[]>('queryFolders') ?? [];
+    const defaults = { organization: Settings.organization, project: Settings.project };
+    await config.update('queryFolders', existing.filter(f => !isSameQueryFolder(f, defaults, org, project, folderPath)), getSettingsTarget());
+}
+
+type FolderPickResult = { query: AdoQueryItem } | { subscribe: string } | { unsubscribe: string };
+
+interface FolderPickItem extends vscode.QuickPickItem {
+    action: 'open' | 'up' | 'back' | 'query' | 'search' | 'subscribe' | 'unsubscribe';
+    item?: AdoQueryItem;
+}
+
+/**
+ * Walk the project's My Queries / Shared Queries tree in a quick pick. Typing
+ * filters the open folder; the "Search all queries" entry asks ADO for matches
+ * anywhere in the project. Resolves with the chosen query, a folder to
+ * (un)subscribe, or undefined if dismissed.
+ */
+function pickFromQueryFolders(rest: AdoRestClient, org: string, project: string): Promise<FolderPickResult | undefined> {
+    const quickPick = vscode.window.createQuickPick<FolderPickItem>();
+    quickPick.matchOnDescription = true;
+    let folder: string | undefined;
+    let listed: FolderPickItem[] = [];
+
+    const toPick = (item: AdoQueryItem, showPath: boolean): FolderPickItem => ({
+        label: `${item.isFolder ? '$(folder)' : '$(list-flat)'} ${item.name}`,
+        description: showPath ? item.path.slice(0, item.path.lastIndexOf('/')) : undefined,
+        action: item.isFolder ? 'open' : 'query',
+        item
+    });
+
+    const show = (items: FolderPickItem[]) => {
+        listed = items;
+        quickPick.items = items;
+    };
+
+    const open = async (folderPath: string | undefined) => {
+        folder = folderPath;
+        quickPick.title = folderPath ?? `${project} queries`;
+        quickPick.value = '';
+        quickPick.busy = true;
+        let children: AdoQueryItem[] | undefined;
+        try {
+            children = await rest.getQueryFolder(org, project, folderPath);
+        } catch {
+            quickPick.busy = false;
+            quickPick.placeholder = 'Could not reach Azure DevOps — check your connection';
+            show([]);
+            return;
+        }
+        quickPick.busy = false;
+        if (!children) {
+            quickPick.placeholder = 'Could not load queries — check that you are signed in';
+            show([]);
+            return;
+        }
+        quickPick.placeholder = 'Pick a query or open a folder; type to filter';
+        const defaults = { organization: Settings.organization, project: Settings.project };
+        const subscribed = folderPath !== undefined && Settings.queryFolders.some(f => isSameQueryFolder(f, defaults, org, project, folderPath));
+        const header: FolderPickItem[] = folderPath === undefined ? [] : [
+            { label: '$(arrow-up) ..', action: 'up' },
+            subscribed
+                ? { label: '$(bell-slash) Unsubscribe from this folder', action: 'unsubscribe' }
+                : { label: '$(bell) Subscribe to this folder', description: 'Its queries, including ones added later, appear in Query Results', action: 'subscribe' }
+        ];
+        show([...header, ...children.map(c => toPick(c, false))]);
+    };
+
+    return new Promise<FolderPickResult | undefined>(resolve => {
+        let result: FolderPickResult | undefined;
+        quickPick.onDidChangeValue(value => {
+            const text = value.trim();
+            quickPick.items = text.length < 2 ? listed : [
+                ...listed,
+                { label: `$(search) Search all queries for "${text}"`, action: 'search', alwaysShow: true }
+            ];
+        });
+        quickPick.onDidAccept(async () => {
+            const choice = quickPick.selectedItems[0];
+            if (!choice) return;
+            switch (choice.action) {
+                case 'open':
+                    await open(choice.item?.path);
+                    break;
+                case 'up':
+                    await open(folder && folder.includes('/') ? folder.slice(0, folder.lastIndexOf('/')) : undefined);
+                    break;
+                case 'search': {
+                    const text = quickPick.value.trim();
+                    quickPick.busy = true;
+                    const matches = await rest.searchQueries(org, project, text).catch(() => undefined);
+                    quickPick.busy = false;
+                    quickPick.title = `Queries matching "${text}"`;
+                    quickPick.value = '';
+                    show([{ label: '$(arrow-left) Back', action: 'back' }, ...(matches ?? []).map(m => toPick(m, true))]);
+                    break;
+                }
+                case 'back':
+                    await open(folder);
+                    break;
+                case 'query':
+                    result = choice.item && { query: choice.item };
+                    quickPick.hide();
+                    break;
+                case 'subscribe':
+                case 'unsubscribe':
+                    result = folder ? (choice.action === 'subscribe' ? { subscribe: folder } : { unsubscribe: folder }) : undefined;
+                    quickPick.hide();
+                    break;
+            }
+        });
+        quickPick.onDidHide(() => {
+            quickPick.dispose();
+            resolve(result);
+        });
+        quickPick.show();
+        void open(undefined);
+    });
+}
+
 /**
  * Extract a QueryNode from various node types
  */
@@ -908,6 +1753,13 @@ function extractWorkItemNode(node?: WorkItemNode | AdoTreeItem): WorkItemNode |
     return undefined;
 }
 
+/**
+ * The mirror key of a tree work item, in its query's organization
+ */
+function workItemNodeKey(node: WorkItemNode): WorkItemKey {
+    return workItemKey(node.org ?? Settings.organization, node.id);
+}
+
 /**
  * Recursively expand a tree item and all its children
  */
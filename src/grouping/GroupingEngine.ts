@@ -41,6 +41,8 @@ export interface GroupNode {
 export interface WorkItemNode {
     type: 'workItem';
     id: number;
+    /** Organization of the query the item came from; IDs are only unique within one. */
+    org?: string;
     title: string;
     state?: string;
     workItemType?: string;
@@ -71,23 +73,23 @@ export class GroupingEngine {
     /**
      * Build a grouped tree from work items
      */
-    buildTree(workItems: WorkItem[], groupSpecs: GroupSpec[]): TreeNode[] {
+    buildTree(workItems: WorkItem[], groupSpecs: GroupSpec[], org?: string): TreeNode[] {
         if (groupSpecs.length === 0) {
             // No grouping - return flat list of work items
-            return this.sortWorkItems(workItems.map(wi => this.toWorkItemNode(wi)));
+            return this.sortWorkItems(workItems.map(wi => this.toWorkItemNode(wi, org)));
         }
 
         // Group recursively
-        return this.groupRecursive(workItems, groupSpecs, 0);
+        return this.groupRecursive(workItems, groupSpecs, 0, org);
     }
 
     /**
      * Recursively group work items
      */
-    private groupRecursive(workItems: WorkItem[], groupSpecs: GroupSpec[], level: number): TreeNode[] {
+    private groupRecursive(workItems: WorkItem[], groupSpecs: GroupSpec[], level: number, org?: string): TreeNode[] {
         if (level >= groupSpecs.length) {
             // No more grouping levels - return work items
-            return this.sortWorkItems(workItems.map(wi => this.toWorkItemNode(wi)));
+            return this.sortWorkItems(workItems.map(wi => this.toWorkItemNode(wi, org)));
         }
 
         const spec = groupSpecs[level];
@@ -107,7 +109,7 @@ export class GroupingEngine {
         const groupNodes: GroupNode[] = [];
         
         for (const [key, items] of groups) {
-            const children = this.groupRecursive(items, groupSpecs, level + 1);
+            const children = this.groupRecursive(items, groupSpecs, level + 1, org);
             
             groupNodes.push({
                 type: 'group',
@@ -226,12 +228,13 @@ export class GroupingEngine {
     /**
      * Convert work item to node
      */
-    private toWorkItemNode(workItem: WorkItem): WorkItemNode {
+    private toWorkItemNode(workItem: WorkItem, org?: string): WorkItemNode {
         const fields = workItem.fields;
         
         return {
             type: 'workItem',
             id: workItem.id,
+            org,
             title: String(fields['System.Title'] ?? 'Untitled'),
             state: fields['System.State'] as string | undefined,
             workItemType: fields['System.WorkItemType'] as string | undefined,
@@ -5,14 +5,21 @@
  * source of truth for the UI; ADO is a sync target that maps onto them.
  */
 
+/**
+ * Org-qualified work item identity, `<org>/<id>` (e.g. `contoso/1234`). Work
+ * item IDs are only unique within an organization, so local rows key on this
+ * rather than the bare ID. Built by `workItemKey()` in `./workItemKey`.
+ */
+export type WorkItemKey = string;
+
 /** Things-style smart buckets. `today`/`upcoming` are DERIVED, never stored. */
 export type ListName = 'inbox' | 'anytime' | 'someday' | 'logbook';
 
 /** The user-facing task. Usually linked to an ADO work item, but may be local-only. */
 export interface Task {
     uuid: string;
-    /** Work item ID if linked; undefined for local-only tasks. */
-    adoId?: number;
+    /** Key of the linked work item; undefined for local-only tasks. */
+    workItemKey?: WorkItemKey;
     title: string;
     /** Markdown. Local-only in v1. */
     notes: string;
@@ -32,12 +39,115 @@ export interface Task {
     sortOrder: number;
     /** Local-only tag ids. */
     tagIds: number[];
+    /** ADO priority (1-4) to set when a local task is pushed. */
+    priority?: number;
+    /** Work item type to create when a local task is pushed; else the configured default. */
+    workItemType?: string;
     createdAt: string;
     updatedAt: string;
 }
 
+/** Link types we manage between work items, named from the source item's side. */
+export type LinkKind = 'parent' | 'child' | 'related' | 'predecessor' | 'successor';
+
+/**
+ * A mirrored work item link. Each link is stored from both ends (a `child`
+ * row on the parent and a `parent` row on the child) so either side reads it
+ * without a scan.
+ */
+export interface WorkItemLink {
+    sourceKey: WorkItemKey;
+    /** Always in the source's organization. */
+    targetKey: WorkItemKey;
+    kind: LinkKind;
+}
+
+/** A comment in a work item's discussion, mirrored from ADO or waiting to post. */
+export interface WorkItemComment {
+    workItemKey: WorkItemKey;
+    /** ADO's comment id; absent while the comment waits in the outbox. */
+    commentId?: number;
+    /** The outbox op posting it, while pending. */
+    opId?: string;
+    /** HTML, as ADO stores it. */
+    text: string;
+    /** Author's display name. */
+    author?: string;
+    createdDate: string;
+}
+
+/** A file attached to a work item (an `AttachedFile` relation), or one waiting to upload. */
+export interface WorkItemAttachment {
+    workItemKey: WorkItemKey;
+    /** Attachment URL in ADO; absent while the upload waits in the outbox. */
+    url?: string;
+    name: string;
+    /** Bytes, when known. */
+    size?: number;
+    addedDate?: string;
+    /** The outbox op uploading it, while pending. */
+    opId?: string;
+}
+
+/** One field of a work item type, as its process defines it. */
+export interface FieldMetadata {
+    org: string;
+    project: string;
+    workItemType: string;
+    /** Field reference name, e.g. `Custom.Team`. */
+    ref: string;
+    name: string;
+    /** ADO field type, e.g. `string`, `integer`, `dateTime`, `html`, `identity`, `treePath`. */
+    type: string;
+    readOnly: boolean;
+    required: boolean;
+    /** Picklist values, when the field has them. */
+    allowedValues?: string[];
+    helpText?: string;
+    /** When this work item type's fields were last fetched. */
+    fetchedAt: string;
+}
+
+/** The process's meaning of a work item state; drives task completion and cancellation. */
+export type StateCategory = 'Proposed' | 'InProgress' | 'Resolved' | 'Completed' | 'Removed';
+
+/** One state of a work item type, as its process defines it. */
+export interface WorkItemTypeStateRow {
+    org: string;
+    project: string;
+    workItemType: string;
+    name: string;
+    category: StateCategory;
+    color?: string;
+    /** Position in the process's state order. */
+    order: number;
+    /** When this work item type's states were last fetched. */
+    fetchedAt: string;
+}
+
+/** Per work item type state → category overrides, e.g. `{ "Bug": { "Verified": "Completed" } }`. */
+export type StateCategoryOverrides = Record<string, Record<string, StateCategory>>;
+
+/** One update to a work item, as cached from ADO's updates API. */
+export interface WorkItemUpdate {
+    workItemKey: WorkItemKey;
+    /** Update number: 1-based and sequential per work item. */
+    updateId: number;
+    rev?: number;
+    /** Display name of whoever made the change. */
+    revisedBy?: string;
+    /** When the change was made. */
+    changedDate: string;
+    /** Fields the update changed (bookkeeping fields are left out). */
+    fields: { field: string; oldValue?: unknown; newValue?: unknown }[];
+    /** Links the update added or removed. */
+    relations: { action: 'added' | 'removed'; rel: string; targetId?: number }[];
+}
+
 /** Canonical ADO mirror — one row per linked work item. */
 export interface WorkItemRow {
+    /** Org-qualified identity; rows are unique by this, not by `adoId`. */
+    key: WorkItemKey;
     adoId: number;
     rev: number;
     /** For optimistic concurrency on push. */
@@ -54,12 +164,26 @@ export interface WorkItemRow {
     deleted: number;
 }
 
+/** What a bound project mirrors in ADO. */
+export type ProjectBindingKind = 'areaPath' | 'iteration' | 'parent';
+
+/** A project that syncs from an ADO area path, iteration, or parent Epic/Feature. */
+export interface ProjectAdoBinding {
+    kind: ProjectBindingKind;
+    organization: string;
+    project: string;
+    /** Area or iteration path (e.g. "Fabrikam\Web"), for those kinds. */
+    path?: string;
+    /** The parent work item's id, for `parent`. */
+    parentId?: number;
+}
+
 export interface Project {
     uuid: string;
     name: string;
     areaUuid?: string;
     /** How it maps to ADO (area path / iteration / parent work item). */
-    adoBinding?: Record<string, unknown>;
+    adoBinding?: ProjectAdoBinding;
     sortOrder: number;
 }
 
@@ -91,26 +215,87 @@ export interface SavedView {
     sort?: unknown;
 }
 
-export type SyncOpType = 'update_state' | 'update_fields' | 'link' | 'create_work_item';
+export type SyncOpType = 'update_state' | 'update_fields' | 'link' | 'add_comment' | 'add_attachment' | 'create_work_item';
 export type SyncOpStatus = 'pending' | 'inflight' | 'failed' | 'done';
 
 /** The outbox — local changes waiting to be pushed to ADO. */
 export interface SyncOp {
     opId: string;
     entity: 'workitem' | 'task';
+    /** A {@link WorkItemKey} for work item ops; a task uuid for creates. */
     targetId: string;
     opType: SyncOpType;
     payload: Record<string, unknown>;
     baseEtag?: string;
+    /**
+     * Server value of each field the op writes as of the last sync, so a 412 can
+     * be three-way merged (base / mine / theirs) instead of always prompting.
+     */
+    baseValues?: Record<string, unknown>;
     status: SyncOpStatus;
     attempts: number;
     createdAt: string;
     lastError?: string;
+    /** ISO time before which a retry must not be attempted (backoff / throttling). */
+    nextAttemptAt?: string;
 }
 
+/**
+ * What happens to a linked task when its work item leaves every query or is
+ * deleted in ADO: unlinked and kept as a local-only task, completed into the
+ * Logbook, or canceled (archived).
+ */
+export type RemovedItemAction = 'keepLocal' | 'logbook' | 'archive';
+
 /** How far we've pulled from a given source, for incremental sync. */
 export interface SyncStateRow {
     sourceKey: string;
     watermark?: string;
     lastSyncedUtc?: string;
+    /** IDs the source matched as of its last pull, diffed to detect removals. */
+    ids?: number[];
+    /** The organization the IDs belong to. */
+    org?: string;
+    /** When the full ID list was last re-run (deltas skip it). */
+    lastFullSyncUtc?: string;
+}
+
+/** A saved query's path resolved to its ID, so path-based queries run over REST. */
+export interface QueryPathRow {
+    org: string;
+    project: string;
+    /** The path as configured, e.g. "Shared Queries/Team/Active Bugs". */
+    path: string;
+    queryId: string;
+    resolvedAt: string;
+}
+
+/** An ADO field edit as the undo journal keeps it; `opId` is the outbox op that carries it to ADO. */
+export interface UndoAdoField {
+    workItemKey: WorkItemKey;
+    field: string;
+    before: unknown;
+    after: unknown;
+    opId?: string;
 }
+
+/**
+ * One step in the persisted undo/redo journal. Entries hold serialisable
+ * before/after states rather than closures, so history survives a reload.
+ */
+export type UndoJournalEntry = {
+    id: string;
+    label: string;
+    createdAt: string;
+    /** Which stack the entry is on: undoable now, or undone and redoable. */
+    stack: 'undo' | 'redo';
+} & (
+    /**
+     * A local task change; an absent snapshot means the task didn't exist.
+     * `adoField` is an ADO edit the change caused (completing a linked task
+     * moves its work item's state), undone and redone along with it.
+     */
+    | { kind: 'task'; uuid: string; before?: Task; after?: Task; adoField?: UndoAdoField }
+    /** An ADO field edit. */
+    | ({ kind: 'adoField' } & UndoAdoField)
+);
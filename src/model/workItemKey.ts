@@ -0,0 +1,31 @@
+import { WorkItemKey } from './types';
+
+/**
+ * The organization part of a work item key: the account name for
+ * `https://dev.azure.com/{org}`, `https://{org}.visualstudio.com` and bare
+ * names, else the collection URL without its scheme. Lowercased, since ADO
+ * treats organization names case-insensitively.
+ */
+export function orgKey(org: string): string {
+    const trimmed = org.trim().replace(/\/+$/, '');
+    const devAzure = /^https?:\/\/dev\.azure\.com\/([^/]+)/i.exec(trimmed);
+    if (devAzure) return devAzure[1].toLowerCase();
+    const vsts = /^https?:\/\/([^./]+)\.visualstudio\.com/i.exec(trimmed);
+    if (vsts) return vsts[1].toLowerCase();
+    return trimmed.replace(/^https?:\/\//i, '').toLowerCase();
+}
+
+/** The org-qualified key of work item `adoId` in `org`. */
+export function workItemKey(org: string | undefined, adoId: number): WorkItemKey {
+    return `${orgKey(org ?? '')}/${adoId}`;
+}
+
+/** The work item ID inside a key. */
+export function adoIdOf(key: WorkItemKey): number {
+    return Number(key.slice(key.lastIndexOf('/') + 1));
+}
+
+/** Another work item in the same organization as `key` (links never cross organizations). */
+export function siblingKey(key: WorkItemKey, adoId: number): WorkItemKey {
+    return `${key.slice(0, key.lastIndexOf('/'))}/${adoId}`;
+}
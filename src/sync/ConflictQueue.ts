@@ -0,0 +1,71 @@
+import { ConflictDecision, ConflictInfo, ConflictPrompt } from './ConflictResolver';
+import { WorkItemKey } from '../model/types';
+
+/** A conflict waiting for the user, keyed by work item and field. */
+export interface PendingConflict extends ConflictInfo {
+    id: string;
+    queuedAt: string;
+}
+
+function conflictId(key: WorkItemKey, field: string): string {
+    return `${key}:${field}`;
+}
+
+/**
+ * Collects field conflicts for review instead of interrupting a background
+ * sync with a modal. Its {@link prompt} is the {@link ConflictResolver}'s
+ * prompt: it queues the conflict and defers. Once the user answers via
+ * {@link resolve}, the caller retries the work item and the next 412 round
+ * picks the stored decision up — unless the server value moved again in the
+ * meantime, in which case the conflict is queued afresh.
+ */
+export class ConflictQueue {
+    private readonly pending = new Map<string, PendingConflict>();
+    private readonly decisions = new Map<string, { decision: ConflictDecision; theirs: string }>();
+
+    constructor(private readonly onChange: () => void) {}
+
+    readonly prompt: ConflictPrompt = async (info) => {
+        const id = conflictId(info.workItemKey, info.field);
+        const answered = this.decisions.get(id);
+        if (answered) {
+            this.decisions.delete(id);
+            if (answered.theirs === JSON.stringify(info.theirs ?? null)) return answered.decision;
+        }
+        this.pending.set(id, { ...info, id, queuedAt: this.pending.get(id)?.queuedAt ?? new Date().toISOString() });
+        this.onChange();
+        return undefined;
+    };
+
+    /** Conflicts awaiting an answer, oldest first. */
+    list(): PendingConflict[] {
+        return [...this.pending.values()].sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+    }
+
+    get size(): number {
+        return this.pending.size;
+    }
+
+    /** Record the user's answer. Returns the work item to retry, if the conflict was still open. */
+    resolve(id: string, decision: ConflictDecision): WorkItemKey | undefined {
+        const conflict = this.pending.get(id);
+        if (!conflict) return undefined;
+        this.pending.delete(id);
+        this.decisions.set(id, { decision, theirs: JSON.stringify(conflict.theirs ?? null) });
+        this.onChange();
+        return conflict.workItemKey;
+    }
+
+    /** Forget everything about a work item (e.g. its queued changes were discarded). */
+    dropFor(key: WorkItemKey): void {
+        const prefix = `${key}:`;
+        let changed = false;
+        for (const id of [...this.pending.keys()]) {
+            if (id.startsWith(prefix)) changed = this.pending.delete(id) || changed;
+        }
+        for (const id of [...this.decisions.keys()]) {
+            if (id.startsWith(prefix)) this.decisions.delete(id);
+        }
+        if (changed) this.onChange();
+    }
+}
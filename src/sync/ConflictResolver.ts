@@ -1,39 +1,93 @@
 import { AdoRestClient } from '../ado/AdoRestClient';
 import { WorkItemRepository } from '../db/repositories/WorkItemRepository';
-import { SyncOp } from '../model/types';
+import { WorkItemKey } from '../model/types';
+import { adoIdOf } from '../model/workItemKey';
 
 export type ConflictChoice = 'mine' | 'theirs';
 
-/**
- * Asked to resolve a same-field conflict. The host wires this to a UI prompt;
- * tests inject a deterministic resolver. Returning 'theirs' is the safe default.
- */
-export type ConflictPrompt = (info: {
+/** An answer to a conflict: keep one side, or push an edited merged value. */
+export type ConflictDecision = ConflictChoice | { merged: unknown };
+
+/** Everything needed to present one field that both sides changed. */
+export interface ConflictInfo {
+    workItemKey: WorkItemKey;
     adoId: number;
     field: string;
     mine: unknown;
     theirs: unknown;
-}) => Promise<ConflictChoice>;
+    /** The value both sides started from; undefined when the op didn't record one. */
+    base?: unknown;
+    title?: string;
+    /** Who last changed the item on the server (an identity), and when. */
+    changedBy?: unknown;
+    changedDate?: string;
+}
+
+/**
+ * Asked to resolve a same-field conflict. The host wires this to its conflict
+ * queue; tests inject a deterministic resolver. Resolving `undefined` defers
+ * the decision: the batch stays queued until an answer is available.
+ */
+export type ConflictPrompt = (info: ConflictInfo) => Promise<ConflictDecision | undefined>;
 
 export interface ConflictOutcome {
     /** Re-attempt the push with this fresh etag. */
     retryWithEtag?: string;
+    /** The field changes still to push on retry (a subset of what was attempted). */
+    changes?: Map<string, unknown>;
     /** The op is resolved and should be marked done (no push needed). */
     resolved?: boolean;
+    /** At least one field is waiting on the user; keep the batch queued. */
+    deferred?: boolean;
+}
+
+function isEmpty(v: unknown): boolean {
+    return v === null || v === undefined || v === '';
+}
+
+/** The strings a value can be matched by; identities match on unique or display name. */
+function valueKeys(v: unknown): string[] {
+    if (v && typeof v === 'object') {
+        const id = v as Record<string, unknown>;
+        return [id['uniqueName'], id['displayName']].filter((k): k is string => typeof k === 'string');
+    }
+    return [String(v)];
+}
+
+/** Compare two field values, treating all empties alike and identities by name. */
+function sameValue(a: unknown, b: unknown): boolean {
+    if (isEmpty(a) || isEmpty(b)) return isEmpty(a) && isEmpty(b);
+    const keys = valueKeys(b);
+    return valueKeys(a).some(k => keys.includes(k));
+}
+
+function parseTags(v: unknown): string[] {
+    return isEmpty(v) ? [] : String(v).split(';').map(t => t.trim()).filter(Boolean);
+}
+
+function sameTags(a: unknown, b: unknown): boolean {
+    const keys = (v: unknown) => parseTags(v).map(t => t.toLowerCase()).sort().join(';');
+    return keys(a) === keys(b);
 }
 
 /**
- * Handles HTTP 412 (the item changed on the server since we read it).
- *
- * Strategy:
- *  - Re-fetch the item to learn its current value and fresh ETag.
- *  - If the server's value for our target field already equals what we wanted,
- *    the change is effectively applied -> resolved.
- *  - If the server changed a DIFFERENT field, our change still applies cleanly
- *    -> retry with the fresh ETag (field-level merge).
- *  - If the server changed the SAME field to a different value, prompt the user
- *    (Keep Mine / Keep Theirs), defaulting to Theirs.
+ * Three-way merge of `System.Tags` ("a; b; c"): apply our additions and
+ * removals relative to `base` on top of the server's tags. Tags compare
+ * case-insensitively, as ADO does.
  */
+export function mergeTags(base: unknown, mine: unknown, theirs: unknown): string {
+    const key = (t: string) => t.toLowerCase();
+    const baseKeys = new Set(parseTags(base).map(key));
+    const mineTags = parseTags(mine);
+    const mineKeys = new Set(mineTags.map(key));
+    const removed = new Set([...baseKeys].filter(k => !mineKeys.has(k)));
+    const merged = parseTags(theirs).filter(t => !removed.has(key(t)));
+    for (const t of mineTags) {
+        if (!baseKeys.has(key(t)) && !merged.some(m => key(m) === key(t))) merged.push(t);
+    }
+    return merged.join('; ');
+}
+
 export class ConflictResolver {
     constructor(
         private readonly rest: AdoRestClient,
@@ -42,48 +96,97 @@ export class ConflictResolver {
         private readonly log: (msg: string) => void
     ) {}
 
-    async resolveStateConflict(op: SyncOp, org: string, project: string): Promise<ConflictOutcome> {
-        return this.resolveFieldConflict(op, org, project, 'System.State', op.payload['state']);
-    }
-
     /**
-     * Generic same-field conflict resolution for any field reference.
-     * `desired` is the value we tried to write.
+     * Resolve a rejected batch of field writes for one work item. `changes`
+     * maps each field reference to the value we tried to write; `bases` holds
+     * the server values those writes started from.
      */
-    async resolveFieldConflict(op: SyncOp, org: string, project: string, fieldRef: string, desired: unknown): Promise<ConflictOutcome> {
-        const adoId = Number(op.targetId);
+    async resolveFieldConflicts(
+        key: WorkItemKey,
+        org: string,
+        project: string,
+        changes: Map<string, unknown>,
+        bases: Map<string, unknown> = new Map()
+    ): Promise<ConflictOutcome> {
+        const adoId = adoIdOf(key);
         const fresh = await this.rest.getWorkItem(org, project, adoId);
         if (!fresh) {
             // Can't re-read; leave it pending for a later attempt.
             return {};
         }
 
-        const serverValue = fresh.workItem.fields?.[fieldRef];
-        const serverState = fresh.workItem.fields?.['System.State'];
+        const serverFields = fresh.workItem.fields ?? {};
+        const serverState = serverFields['System.State'];
         // Mirror the fresh server truth locally regardless of outcome.
         this.workItems.upsert({
+            key,
             adoId,
             rev: fresh.rev ?? 0,
             etag: fresh.etag,
-            fields: fresh.workItem.fields ?? {},
+            fields: serverFields,
             org,
             project,
             state: typeof serverState === 'string' ? serverState : undefined,
             deleted: 0
         });
 
-        if (serverValue === desired) {
-            this.log(`Conflict on #${adoId}: server already at desired ${fieldRef} "${String(desired)}" — resolved.`);
-            return { resolved: true };
-        }
+        const remaining = new Map<string, unknown>();
+        let deferred = false;
+        for (const [fieldRef, desired] of changes) {
+            const serverValue = serverFields[fieldRef];
+            if (sameValue(serverValue, desired)) {
+                this.log(`Conflict on #${adoId}: server already at desired ${fieldRef} "${String(desired)}" — resolved.`);
+                continue;
+            }
 
-        // Same field changed to a different value -> ask the user.
-        const choice = await this.prompt({ adoId, field: fieldRef, mine: desired, theirs: serverValue });
-        if (choice === 'theirs') {
-            this.log(`Conflict on #${adoId}: kept server value "${String(serverValue)}" for ${fieldRef}.`);
-            return { resolved: true };
+            if (bases.has(fieldRef)) {
+                const base = bases.get(fieldRef);
+                if (sameValue(serverValue, base)) {
+                    this.log(`Conflict on #${adoId}: ${fieldRef} unchanged on server — reapplying "${String(desired)}".`);
+                    remaining.set(fieldRef, desired);
+                    continue;
+                }
+                if (sameValue(desired, base)) {
+                    this.log(`Conflict on #${adoId}: only the server changed ${fieldRef} — taking "${String(serverValue)}".`);
+                    continue;
+                }
+                if (fieldRef === 'System.Tags') {
+                    const merged = mergeTags(base, desired, serverValue);
+                    this.log(`Conflict on #${adoId}: merged tags to "${merged}".`);
+                    if (!sameTags(merged, serverValue)) remaining.set(fieldRef, merged);
+                    continue;
+                }
+            }
+
+            // Both sides changed the field to different values -> ask the user.
+            const decision = await this.prompt({
+                workItemKey: key,
+                adoId,
+                field: fieldRef,
+                mine: desired,
+                theirs: serverValue,
+                base: bases.get(fieldRef),
+                title: typeof serverFields['System.Title'] === 'string' ? serverFields['System.Title'] : undefined,
+                changedBy: serverFields['System.ChangedBy'],
+                changedDate: typeof serverFields['System.ChangedDate'] === 'string' ? serverFields['System.ChangedDate'] : undefined
+            });
+            if (decision === undefined) {
+                this.log(`Conflict on #${adoId}: ${fieldRef} queued for review.`);
+                deferred = true;
+                continue;
+            }
+            if (decision === 'theirs') {
+                this.log(`Conflict on #${adoId}: kept server value "${String(serverValue)}" for ${fieldRef}.`);
+                continue;
+            }
+            const value = decision === 'mine' ? desired : decision.merged;
+            this.log(`Conflict on #${adoId}: pushing ${decision === 'mine' ? 'local' : 'merged'} value "${String(value)}" for ${fieldRef} — retrying with fresh etag.`);
+            remaining.set(fieldRef, value);
         }
-        this.log(`Conflict on #${adoId}: keeping local value "${String(desired)}" for ${fieldRef} — retrying with fresh etag.`);
-        return { retryWithEtag: fresh.etag };
+
+        if (deferred) return { deferred: true };
+
+        if (remaining.size === 0) return { resolved: true };
+        return { retryWithEtag: fresh.etag, changes: remaining };
     }
 }
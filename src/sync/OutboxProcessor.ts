@@ -1,13 +1,31 @@
-import { AdoRestClient, JsonPatchOp } from '../ado/AdoRestClient';
+import * as fs from 'fs';
+import { AdoRestClient, JsonPatchOp, RestError, workItemApiUrl, relationTargetId } from '../ado/AdoRestClient';
 import { Database } from '../db/Database';
-import { SyncQueueRepository } from '../db/repositories/SyncQueueRepository';
+import { SyncQueueRepository, isDue } from '../db/repositories/SyncQueueRepository';
 import { WorkItemRepository, workItemRowFromAdo } from '../db/repositories/WorkItemRepository';
 import { TaskRepository } from '../db/repositories/TaskRepository';
 import { SyncStateRepository } from '../db/repositories/SyncStateRepository';
+import { LinkRepository, LINK_RELS, LINK_LABELS } from '../db/repositories/LinkRepository';
+import { CommentRepository, commentFromAdo } from '../db/repositories/CommentRepository';
+import { AttachmentRepository, ATTACHMENT_REL } from '../db/repositories/AttachmentRepository';
+import { WorkItemStateRepository } from '../db/repositories/WorkItemStateRepository';
 import { ConflictResolver } from './ConflictResolver';
-import { SyncOp } from '../model/types';
+import { LinkKind, StateCategoryOverrides, SyncOp, SyncOpStatus, WorkItemKey, WorkItemLink } from '../model/types';
+import { adoIdOf, siblingKey } from '../model/workItemKey';
 
-const MAX_ATTEMPTS = 5;
+const MAX_ATTEMPTS = 8;
+const BASE_BACKOFF_MS = 30_000;
+const MAX_BACKOFF_MS = 30 * 60_000;
+
+/**
+ * Delay before retry number `attempts + 1`: doubles from 30s up to a 30-minute
+ * cap, with "equal jitter" (half fixed, half random) so ops that failed together
+ * don't all come back in the same instant. Eight attempts span roughly an hour.
+ */
+export function backoffDelayMs(attempts: number, random: () => number = Math.random): number {
+    const ceiling = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** Math.max(0, attempts - 1));
+    return Math.round(ceiling / 2 + (ceiling / 2) * random());
+}
 
 /**
  * Drains the outbox: applies each pending local change to ADO via PATCH with an
@@ -19,65 +37,240 @@ export class OutboxProcessor {
     private readonly workItems: WorkItemRepository;
     private readonly tasks: TaskRepository;
     private readonly syncState: SyncStateRepository;
+    private readonly links: LinkRepository;
+    private readonly comments: CommentRepository;
+    private readonly attachments: AttachmentRepository;
+    private readonly states: WorkItemStateRepository;
     private running = false;
 
     constructor(
         db: Database,
         private readonly rest: AdoRestClient,
         private readonly conflicts: ConflictResolver,
-        private readonly log: (msg: string) => void
+        private readonly log: (msg: string) => void,
+        private readonly now: () => number = Date.now,
+        stateOverrides?: () => StateCategoryOverrides
     ) {
         this.queue = new SyncQueueRepository(db);
         this.workItems = new WorkItemRepository(db);
         this.tasks = new TaskRepository(db);
         this.syncState = new SyncStateRepository(db);
+        this.links = new LinkRepository(db);
+        this.comments = new CommentRepository(db);
+        this.attachments = new AttachmentRepository(db);
+        this.states = new WorkItemStateRepository(db, stateOverrides);
     }
 
     get pendingCount(): number {
         return this.queue.pendingCount();
     }
 
-    /** Enqueue an ADO state change (optimistic; the DB is already updated). */
-    enqueueStateChange(adoId: number, newState: string): void {
-        const row = this.workItems.getById(adoId);
-        this.queue.enqueue({
+    /**
+     * Enqueue an ADO state change and apply it to the local mirror right away
+     * (optimistic). The prior value is kept on the op so it can be discarded.
+     */
+    enqueueStateChange(key: WorkItemKey, newState: string): SyncOp {
+        const row = this.workItems.get(key);
+        const op = this.queue.enqueue({
             entity: 'workitem',
-            targetId: String(adoId),
+            targetId: key,
             opType: 'update_state',
-            payload: { state: newState },
-            baseEtag: row?.etag
+            payload: { state: newState, previous: row?.fields['System.State'] ?? null },
+            baseEtag: row?.etag,
+            baseValues: { 'System.State': this.baseValue(key, 'System.State') }
         });
+        this.applyLocal(key, new Map([['System.State', newState]]));
+        return op;
     }
 
-    /** Enqueue a single-field ADO update (optimistic). value === null clears it. */
-    enqueueFieldUpdate(adoId: number, field: string, value: unknown): void {
-        const row = this.workItems.getById(adoId);
-        this.queue.enqueue({
+    /** Enqueue a single-field ADO update (optimistic, as above). value === null clears it. */
+    enqueueFieldUpdate(key: WorkItemKey, field: string, value: unknown): SyncOp {
+        const row = this.workItems.get(key);
+        const op = this.queue.enqueue({
             entity: 'workitem',
-            targetId: String(adoId),
+            targetId: key,
             opType: 'update_fields',
-            payload: { field, value },
-            baseEtag: row?.etag
+            payload: { field, value, previous: row?.fields[field] ?? null },
+            baseEtag: row?.etag,
+            baseValues: { [field]: this.baseValue(key, field) }
+        });
+        this.applyLocal(key, new Map([[field, value]]));
+        return op;
+    }
+
+    /**
+     * Enqueue adding or removing a link from work item `key` to `targetId` (in
+     * the same organization), mirrored locally right away so the hierarchy
+     * reads correctly offline. ADO allows one parent, so giving an item a new
+     * parent first queues the removal of its current one.
+     */
+    enqueueLink(key: WorkItemKey, action: 'add' | 'remove', kind: LinkKind, targetId: number): SyncOp {
+        if (action === 'add' && (kind === 'parent' || kind === 'child')) {
+            const targetKey = siblingKey(key, targetId);
+            const [childKey, parentKey] = kind === 'parent' ? [key, targetKey] : [targetKey, key];
+            const current = this.links.parentOf(childKey);
+            if (current !== undefined && current !== parentKey) this.enqueueLink(childKey, 'remove', 'parent', adoIdOf(current));
+        }
+        const op = this.queue.enqueue({
+            entity: 'workitem',
+            targetId: key,
+            opType: 'link',
+            payload: { action, kind, targetId }
         });
+        this.applyLink(op, action);
+        return op;
+    }
+
+    /**
+     * Enqueue a comment (HTML) on a work item's discussion. It shows as pending
+     * in the cached thread until it posts.
+     */
+    enqueueComment(key: WorkItemKey, text: string, author?: string): SyncOp {
+        const op = this.queue.enqueue({
+            entity: 'workitem',
+            targetId: key,
+            opType: 'add_comment',
+            payload: { text }
+        });
+        this.comments.addPending(key, op.opId, text, author);
+        return op;
+    }
+
+    /**
+     * Enqueue attaching a local file to a work item. The file is read when the
+     * op is pushed, so it must still exist then; it shows as pending until
+     * it's uploaded and linked.
+     */
+    enqueueAttachment(key: WorkItemKey, filePath: string, name: string, size?: number): SyncOp {
+        const op = this.queue.enqueue({
+            entity: 'workitem',
+            targetId: key,
+            opType: 'add_attachment',
+            payload: { path: filePath, name }
+        });
+        this.attachments.addPending(key, op.opId, name, size);
+        return op;
+    }
+
+    /**
+     * The last-synced server value of a field. The mirror already holds our
+     * optimistic value once a change to it is queued, so an earlier queued op's
+     * base takes precedence.
+     */
+    private baseValue(key: WorkItemKey, field: string): unknown {
+        const earlier = this.queue.unsynced().find(o =>
+            isFieldOp(o) && o.targetId === key && fieldChange(o)[0] === field && o.baseValues && field in o.baseValues);
+        if (earlier) return earlier.baseValues![field];
+        return this.workItems.get(key)?.fields[field] ?? null;
     }
 
-    /** Enqueue creation of a brand-new ADO work item from a local task. */
-    enqueueCreate(taskUuid: string, type: string, org: string, project: string, title: string, assignedTo?: string): void {
+    /**
+     * Enqueue creation of a brand-new ADO work item from a local task,
+     * optionally as a child of `parentId`.
+     */
+    enqueueCreate(
+        taskUuid: string,
+        type: string,
+        org: string,
+        project: string,
+        title: string,
+        options: { assignedTo?: string; priority?: number; parentId?: number; fields?: Record<string, unknown> } = {}
+    ): void {
         this.queue.enqueue({
             entity: 'task',
             targetId: taskUuid,
             opType: 'create_work_item',
-            payload: { type, org, project, title, assignedTo }
+            payload: { type, org, project, title, ...options }
         });
     }
 
-    /** Process all pending ops once. Safe to call repeatedly; re-entrancy-guarded. */
+    /** Every op still in the outbox (pending, inflight or failed), oldest first. */
+    ops(): SyncOp[] {
+        return this.queue.unsynced();
+    }
+
+    /** Put a failed or backing-off op back in line for the next {@link process}. */
+    retry(opId: string): boolean {
+        return this.queue.resetForRetry(opId);
+    }
+
+    /** Make every queued op for a work item due now (e.g. once its conflict is answered). */
+    retryWorkItem(key: WorkItemKey): number {
+        return this.queue.unsynced()
+            .filter(op => op.entity === 'workitem' && op.targetId === key)
+            .filter(op => this.queue.resetForRetry(op.opId)).length;
+    }
+
+    /** Retry every failed op. Returns how many were re-queued. */
+    retryAll(): number {
+        return this.queue.failed().filter(op => this.queue.resetForRetry(op.opId)).length;
+    }
+
+    /**
+     * Drop an op that hasn't been pushed and undo its optimistic local change.
+     * If a later queued op writes the same field, that op now owns the revert
+     * (it inherits our prior value) and the mirror is left alone.
+     */
+    discard(opId: string): boolean {
+        const queued = this.queue.unsynced();
+        const index = queued.findIndex(o => o.opId === opId);
+        const op = queued[index];
+        if (!op || op.status === 'inflight') return false;
+        this.queue.remove(opId);
+        if (op.opType === 'link') {
+            const [action] = linkChange(op);
+            this.applyLink(op, action === 'add' ? 'remove' : 'add');
+            this.log(`Discarded queued ${describeLink(op)}`);
+            return true;
+        }
+        if (op.opType === 'add_comment') {
+            this.comments.removePending(op.opId);
+            this.log(`Discarded queued comment on #${adoIdOf(op.targetId)}`);
+            return true;
+        }
+        if (op.opType === 'add_attachment') {
+            this.attachments.removePending(op.opId);
+            this.log(`Discarded queued attachment ${String(op.payload['name'])} on #${adoIdOf(op.targetId)}`);
+            return true;
+        }
+        if (!isFieldOp(op)) return true;
+
+        const [field] = fieldChange(op);
+        const previous = op.payload['previous'];
+        const later = queued.slice(index + 1).find(o => isFieldOp(o) && o.targetId === op.targetId && fieldChange(o)[0] === field);
+        if (later) {
+            this.queue.setPayload(later.opId, { ...later.payload, previous });
+        } else {
+            this.applyLocal(op.targetId, new Map([[field, previous]]));
+        }
+        this.log(`Discarded queued change ${describeChange(field, fieldChange(op)[1])} on #${adoIdOf(op.targetId)}`);
+        return true;
+    }
+
+    /**
+     * Process all pending ops once. Safe to call repeatedly; re-entrancy-guarded.
+     * Field changes queued for the same work item are coalesced into a single
+     * PATCH (see {@link processFieldBatch}).
+     */
     async process(): Promise<void> {
         if (this.running) return;
         this.running = true;
         try {
-            for (const op of this.queue.pending()) {
-                await this.processOne(op);
+            const now = this.now();
+            // Include ops still backing off so a batch never overtakes an older
+            // write to the same item; the batch waits until all of it is due.
+            const pending = this.queue.pending(Number.POSITIVE_INFINITY);
+            const handled = new Set<string>();
+            for (const op of pending) {
+                if (handled.has(op.opId)) continue;
+                if (isFieldOp(op)) {
+                    const batch = pending.filter(o => isFieldOp(o) && o.targetId === op.targetId);
+                    batch.forEach(o => handled.add(o.opId));
+                    if (batch.every(o => isDue(o, now))) await this.processFieldBatch(batch);
+                } else {
+                    handled.add(op.opId);
+                    if (isDue(op, now)) await this.processOne(op);
+                }
             }
             this.queue.purgeDone();
         } finally {
@@ -90,77 +283,282 @@ export class OutboxProcessor {
             await this.processCreate(op);
             return;
         }
-        if (op.opType === 'update_fields') {
-            await this.processFieldUpdate(op);
+        if (op.opType === 'link') {
+            await this.processLink(op);
+            return;
+        }
+        if (op.opType === 'add_comment') {
+            await this.processComment(op);
             return;
         }
-        if (op.opType !== 'update_state') {
-            // Unknown op types are skipped for now.
-            this.queue.setStatus(op.opId, 'failed', `Unsupported op type ${op.opType}`);
+        if (op.opType === 'add_attachment') {
+            await this.processAttachment(op);
             return;
         }
+        // Unknown op types are skipped for now.
+        this.queue.setStatus(op.opId, 'failed', `Unsupported op type ${op.opType}`);
+    }
 
-        const adoId = Number(op.targetId);
-        const row = this.workItems.getById(adoId);
+    /**
+     * Push every pending `update_state`/`update_fields` op for one work item as a
+     * single JSON-Patch guarded by one ETag (the oldest op's base). Later writes
+     * to a field replace earlier ones. The ops share the batch's fate: they move
+     * to inflight/done/pending together, while attempts are counted per op.
+     */
+    private async processFieldBatch(ops: SyncOp[]): Promise<void> {
+        const key = ops[0].targetId;
+        const adoId = adoIdOf(key);
+        const row = this.workItems.get(key);
         const org = row?.org;
         const project = row?.project;
         if (!org || !project) {
-            this.queue.setStatus(op.opId, 'failed', 'Missing org/project for work item');
+            this.setStatusAll(ops, 'failed', 'Missing org/project for work item');
             return;
         }
 
-        const newState = String(op.payload['state']);
-        const ops: JsonPatchOp[] = [{ op: 'add', path: '/fields/System.State', value: newState }];
+        let changes = coalesceFieldChanges(ops);
+        this.setStatusAll(ops, 'inflight');
+        let result = await this.rest.patchWorkItem(org, project, adoId, toPatchOps(changes), ops[0].baseEtag);
 
-        this.queue.setStatus(op.opId, 'inflight');
-        const result = await this.rest.patchWorkItem(org, project, adoId, ops, op.baseEtag);
+        if (result.conflict) {
+            const outcome = await this.conflicts.resolveFieldConflicts(key, org, project, changes, coalesceBaseValues(ops));
+            if (outcome.resolved) {
+                this.setStatusAll(ops, 'done');
+                return;
+            }
+            if (outcome.deferred) {
+                // Waiting on the user; re-check the server now and then in case
+                // the conflict goes away, but mostly wait for retryWorkItem().
+                ops.forEach(o => this.queue.deferUntil(o.opId, this.now() + MAX_BACKOFF_MS));
+                this.setStatusAll(ops, 'pending', 'Awaiting conflict resolution');
+                return;
+            }
+            if (!outcome.retryWithEtag) {
+                // Leave pending for another cycle if unresolved.
+                this.setStatusAll(ops, 'pending', 'Awaiting conflict resolution');
+                return;
+            }
+            changes = outcome.changes ?? changes;
+            ops.forEach(o => this.queue.updateBaseEtag(o.opId, outcome.retryWithEtag!));
+            result = await this.rest.patchWorkItem(org, project, adoId, toPatchOps(changes), outcome.retryWithEtag);
+            if (!result.success) {
+                this.setStatusAll(ops, 'pending', 'Awaiting conflict resolution');
+                return;
+            }
+        }
 
+        const summary = [...changes].map(([field, value]) => describeChange(field, value)).join(', ');
         if (result.success) {
-            if (result.etag && result.rev !== undefined) {
-                this.workItems.setEtag(adoId, result.etag, result.rev);
+            if (result.etag && result.rev !== undefined) this.workItems.setEtag(key, result.etag, result.rev);
+            this.applyLocal(key, changes);
+            this.setStatusAll(ops, 'done');
+            this.log(`Pushed #${adoId} ${summary}${ops.length > 1 ? ` (${ops.length} ops in one patch)` : ''}`);
+            return;
+        }
+
+        // Transient failure (429 / network): back off, keep pending.
+        for (const op of ops) {
+            const attempts = this.retryLater(op, result.error);
+            if (attempts >= MAX_ATTEMPTS) {
+                this.log(`Giving up on #${adoId} ${describeChange(...fieldChange(op))} after ${attempts} attempts: ${result.error?.message}`);
+            }
+        }
+        this.log(`Transient failure on #${adoId} ${summary}: ${result.error?.message}`);
+    }
+
+    /**
+     * Push a link change as a relation JSON-Patch. Adding appends to
+     * `/relations`; removing needs the relation's index, so it reads the item's
+     * relations first and guards the removal with that read's ETag.
+     */
+    private async processLink(op: SyncOp): Promise<void> {
+        const key = op.targetId;
+        const adoId = adoIdOf(key);
+        const [action, kind, targetId] = linkChange(op);
+        const row = this.workItems.get(key);
+        const org = row?.org;
+        const project = row?.project;
+        if (!org || !project) {
+            this.queue.setStatus(op.opId, 'failed', 'Missing org/project for work item');
+            return;
+        }
+
+        this.queue.setStatus(op.opId, 'inflight');
+        const rel = LINK_RELS[kind];
+        let patch: JsonPatchOp[];
+        let etag: string | undefined;
+        if (action === 'add') {
+            patch = [{ op: 'add', path: '/relations/-', value: { rel, url: workItemApiUrl(this.rest.orgUrl(org), targetId) } }];
+        } else {
+            const current = await this.rest.getWorkItem(org, project, adoId, true);
+            if (!current) {
+                this.retryLater(op, { status: 0, message: `Could not read the links of #${adoId}` });
+                return;
             }
-            // Reflect the new state locally and reconcile the linked task.
-            const updated = this.workItems.getById(adoId);
-            if (updated) {
-                updated.state = newState;
-                updated.fields['System.State'] = newState;
+            const index = (current.workItem.relations ?? [])
+                .findIndex(r => r.rel === rel && relationTargetId(r.url) === targetId);
+            if (index < 0) {
+                this.queue.setStatus(op.opId, 'done');
+                this.log(`${describeLink(op)}: already gone in ADO`);
+                return;
             }
-            const title = typeof updated?.fields['System.Title'] === 'string' ? (updated.fields['System.Title'] as string) : `#${adoId}`;
-            this.tasks.reconcileFromWorkItem(adoId, title, newState);
+            patch = [{ op: 'remove', path: `/relations/${index}` }];
+            etag = current.etag;
+        }
+
+        const result = await this.rest.patchWorkItem(org, project, adoId, patch, etag);
+        if (result.success) {
+            if (result.etag && result.rev !== undefined) this.workItems.setEtag(key, result.etag, result.rev);
+            this.queue.setStatus(op.opId, 'done');
+            this.log(`Pushed ${describeLink(op)}`);
+            return;
+        }
+        if (action === 'add' && result.error?.status === 400 && /already exists/i.test(result.error.message)) {
             this.queue.setStatus(op.opId, 'done');
-            this.log(`Pushed #${adoId} -> ${newState}`);
+            this.log(`${describeLink(op)}: already present in ADO`);
             return;
         }
+        // A 412 means the relations moved under us; the next attempt re-reads them.
+        const attempts = this.retryLater(op, result.error);
+        if (attempts >= MAX_ATTEMPTS) {
+            this.log(`Giving up on ${describeLink(op)} after ${attempts} attempts: ${result.error?.message}`);
+        }
+    }
 
-        if (result.conflict) {
-            const outcome = await this.conflicts.resolveStateConflict(op, org, project);
-            if (outcome.resolved) {
-                this.queue.setStatus(op.opId, 'done');
+    /** Post a queued comment and swap its pending copy for the one ADO created. */
+    private async processComment(op: SyncOp): Promise<void> {
+        const key = op.targetId;
+        const adoId = adoIdOf(key);
+        const row = this.workItems.get(key);
+        const org = row?.org;
+        const project = row?.project;
+        if (!org || !project) {
+            this.queue.setStatus(op.opId, 'failed', 'Missing org/project for work item');
+            return;
+        }
+
+        this.queue.setStatus(op.opId, 'inflight');
+        const result = await this.rest.addComment(org, project, adoId, String(op.payload['text'] ?? ''));
+        if (result.success && result.comment) {
+            this.comments.confirm(op.opId, commentFromAdo(key, result.comment));
+            this.queue.setStatus(op.opId, 'done');
+            this.log(`Posted comment on #${adoId}`);
+            return;
+        }
+        const attempts = this.retryLater(op, result.error);
+        if (attempts >= MAX_ATTEMPTS) {
+            this.log(`Giving up posting a comment on #${adoId} after ${attempts} attempts: ${result.error?.message}`);
+        }
+    }
+
+    /**
+     * Upload a queued file, then link it from the work item. The uploaded URL
+     * is kept on the op, so a retry after a failed link doesn't upload again.
+     */
+    private async processAttachment(op: SyncOp): Promise<void> {
+        const key = op.targetId;
+        const adoId = adoIdOf(key);
+        const filePath = String(op.payload['path']);
+        const name = String(op.payload['name']);
+        const row = this.workItems.get(key);
+        const org = row?.org;
+        const project = row?.project;
+        if (!org || !project) {
+            this.queue.setStatus(op.opId, 'failed', 'Missing org/project for work item');
+            return;
+        }
+
+        this.queue.setStatus(op.opId, 'inflight');
+        let url = typeof op.payload['url'] === 'string' ? op.payload['url'] : undefined;
+        if (!url) {
+            let content: Uint8Array;
+            try {
+                content = await fs.promises.readFile(filePath);
+            } catch {
+                this.queue.setStatus(op.opId, 'failed', `Can't read ${filePath}`);
+                this.log(`Can't attach ${name} to #${adoId}: ${filePath} is no longer readable`);
                 return;
             }
-            if (outcome.retryWithEtag) {
-                this.queue.updateBaseEtag(op.opId, outcome.retryWithEtag);
-                const retry = await this.rest.patchWorkItem(org, project, adoId, ops, outcome.retryWithEtag);
-                if (retry.success) {
-                    if (retry.etag && retry.rev !== undefined) this.workItems.setEtag(adoId, retry.etag, retry.rev);
-                    this.queue.setStatus(op.opId, 'done');
-                    this.log(`Pushed #${adoId} -> ${newState} after conflict merge`);
-                    return;
+            const upload = await this.rest.uploadAttachment(org, project, name, content);
+            if (!upload.success || !upload.url) {
+                const attempts = this.retryLater(op, upload.error);
+                if (attempts >= MAX_ATTEMPTS) {
+                    this.log(`Giving up uploading ${name} for #${adoId} after ${attempts} attempts: ${upload.error?.message}`);
                 }
+                return;
             }
-            // Leave pending for another cycle if unresolved.
-            this.queue.setStatus(op.opId, 'pending', 'Awaiting conflict resolution');
+            url = upload.url;
+            this.queue.setPayload(op.opId, { ...op.payload, url });
+        }
+
+        const result = await this.rest.patchWorkItem(org, project, adoId, [{ op: 'add', path: '/relations/-', value: { rel: ATTACHMENT_REL, url } }]);
+        if (result.success) {
+            if (result.etag && result.rev !== undefined) this.workItems.setEtag(key, result.etag, result.rev);
+            this.attachments.confirm(op.opId, url);
+            this.queue.setStatus(op.opId, 'done');
+            this.log(`Attached ${name} to #${adoId}`);
             return;
         }
+        const attempts = this.retryLater(op, result.error);
+        if (attempts >= MAX_ATTEMPTS) {
+            this.log(`Giving up attaching ${name} to #${adoId} after ${attempts} attempts: ${result.error?.message}`);
+        }
+    }
 
-        // Transient failure (429 / network): backoff via attempts, keep pending.
+    /**
+     * Re-apply queued link changes to the mirror. A pull rewrites links from
+     * what ADO reports, which doesn't include changes we haven't pushed yet.
+     */
+    reapplyQueuedLinks(): void {
+        for (const op of this.queue.unsynced()) {
+            if (op.opType === 'link') this.applyLink(op, linkChange(op)[0]);
+        }
+    }
+
+    /** Mirror a link op locally: `add` records the link, `remove` forgets it. */
+    private applyLink(op: SyncOp, action: 'add' | 'remove'): void {
+        const [, kind, targetId] = linkChange(op);
+        const link: WorkItemLink = { sourceKey: op.targetId, targetKey: siblingKey(op.targetId, targetId), kind };
+        if (action === 'add') this.links.add(link);
+        else this.links.remove(link);
+    }
+
+    /** Mirror field changes locally and reconcile the linked task. */
+    private applyLocal(key: WorkItemKey, changes: Map<string, unknown>): void {
+        const updated = this.workItems.applyFields(key, changes);
+        if (changes.has('System.State') || changes.has('System.Title')) {
+            const title = typeof updated?.fields['System.Title'] === 'string' ? (updated.fields['System.Title'] as string) : `#${adoIdOf(key)}`;
+            const state = typeof updated?.fields['System.State'] === 'string' ? (updated.fields['System.State'] as string) : undefined;
+            this.tasks.reconcileFromWorkItem(key, title, state, this.states.categoryOf(updated));
+        }
+    }
+
+    /**
+     * Schedule a failed op's next attempt and return its attempt count; marks it
+     * failed once {@link MAX_ATTEMPTS} is reached. A 429 that names its wait is
+     * the server pacing us, not a failure, so it defers without using an attempt.
+     * Otherwise the wait is the longer of our backoff and any `Retry-After`.
+     */
+    private retryLater(op: SyncOp, error: RestError | undefined): number {
+        const message = error?.message ?? 'Unknown error';
+        if (error?.status === 429 && error.retryAfterMs !== undefined) {
+            this.queue.deferUntil(op.opId, this.now() + error.retryAfterMs);
+            this.queue.setStatus(op.opId, 'pending', message);
+            return op.attempts;
+        }
         const attempts = this.queue.incrementAttempts(op.opId);
         if (attempts >= MAX_ATTEMPTS) {
-            this.queue.setStatus(op.opId, 'failed', result.error?.message ?? 'Unknown error');
-            this.log(`Giving up on #${adoId} after ${attempts} attempts: ${result.error?.message}`);
-        } else {
-            this.queue.setStatus(op.opId, 'pending', result.error?.message);
-            this.log(`Transient failure on #${adoId} (attempt ${attempts}): ${result.error?.message}`);
+            this.queue.setStatus(op.opId, 'failed', message);
+            return attempts;
+        }
+        this.queue.deferUntil(op.opId, this.now() + Math.max(error?.retryAfterMs ?? 0, backoffDelayMs(attempts)));
+        this.queue.setStatus(op.opId, 'pending', message);
+        return attempts;
+    }
+
+    private setStatusAll(ops: SyncOp[], status: SyncOpStatus, lastError?: string): void {
+        for (const op of ops) {
+            this.queue.setStatus(op.opId, status, lastError);
         }
     }
 
@@ -172,7 +570,7 @@ export class OutboxProcessor {
             this.queue.setStatus(op.opId, 'failed', 'Local task no longer exists');
             return;
         }
-        if (task.adoId !== undefined) {
+        if (task.workItemKey !== undefined) {
             // Already linked (e.g. a duplicate op) — nothing to do.
             this.queue.setStatus(op.opId, 'done');
             return;
@@ -188,105 +586,92 @@ export class OutboxProcessor {
         }
 
         this.queue.setStatus(op.opId, 'inflight');
-        const fields: Record<string, unknown> = { 'System.Title': title };
+        const extra = op.payload['fields'];
+        const fields: Record<string, unknown> = { ...(extra && typeof extra === 'object' ? extra as Record<string, unknown> : {}), 'System.Title': title };
         const assignedTo = op.payload['assignedTo'];
         if (typeof assignedTo === 'string' && assignedTo) {
             fields['System.AssignedTo'] = assignedTo;
         }
-        const result = await this.rest.createWorkItem(org, project, type, fields);
+        const priority = op.payload['priority'];
+        if (typeof priority === 'number') fields['Microsoft.VSTS.Common.Priority'] = priority;
+        const parentId = op.payload['parentId'];
+        const result = await this.rest.createWorkItem(org, project, type, fields, typeof parentId === 'number' ? parentId : undefined);
 
         if (result.success && result.workItem) {
             const newId = result.workItem.id;
             const fields = result.workItem.fields ?? { 'System.Title': title };
-            this.workItems.upsert(workItemRowFromAdo(newId, fields, result.rev ?? 0, org, project, result.etag));
+            const row = workItemRowFromAdo(newId, fields, result.rev ?? 0, org, project, result.etag);
+            this.workItems.upsert(row);
             // Link the local task to its new ADO work item.
-            this.tasks.update(taskUuid, { adoId: newId });
+            this.tasks.update(taskUuid, { workItemKey: row.key });
+            if (typeof parentId === 'number') this.links.add({ sourceKey: row.key, targetKey: siblingKey(row.key, parentId), kind: 'parent' });
             this.queue.setStatus(op.opId, 'done');
             this.log(`Created ADO ${type} #${newId} from local task "${title}"`);
             return;
         }
 
-        const attempts = this.queue.incrementAttempts(op.opId);
+        const attempts = this.retryLater(op, result.error);
         if (attempts >= MAX_ATTEMPTS) {
-            this.queue.setStatus(op.opId, 'failed', result.error?.message ?? 'Unknown error');
             this.log(`Giving up creating work item for "${title}" after ${attempts} attempts: ${result.error?.message}`);
         } else {
-            this.queue.setStatus(op.opId, 'pending', result.error?.message);
             this.log(`Transient failure creating "${title}" (attempt ${attempts}): ${result.error?.message}`);
         }
     }
+}
 
-    /** Apply a single-field update to an existing ADO work item. */
-    private async processFieldUpdate(op: SyncOp): Promise<void> {
-        const adoId = Number(op.targetId);
-        const row = this.workItems.getById(adoId);
-        const org = row?.org;
-        const project = row?.project;
-        if (!org || !project) {
-            this.queue.setStatus(op.opId, 'failed', 'Missing org/project for work item');
-            return;
-        }
+function isFieldOp(op: SyncOp): boolean {
+    return op.entity === 'workitem' && (op.opType === 'update_state' || op.opType === 'update_fields');
+}
 
-        const field = String(op.payload['field']);
-        const value = op.payload['value'];
-        const cleared = value === null || value === undefined || value === '';
-        const ops: JsonPatchOp[] = cleared
-            ? [{ op: 'remove', path: `/fields/${field}` }]
-            : [{ op: 'add', path: `/fields/${field}`, value }];
+/** What a link op does: add/remove, the link kind, and the other work item. */
+function linkChange(op: SyncOp): ['add' | 'remove', LinkKind, number] {
+    return [op.payload['action'] === 'remove' ? 'remove' : 'add', op.payload['kind'] as LinkKind, Number(op.payload['targetId'])];
+}
 
-        const applyLocal = () => {
-            const updated = this.workItems.getById(adoId);
-            if (updated) {
-                if (cleared) delete updated.fields[field];
-                else updated.fields[field] = value;
-                if (field === 'System.State') updated.state = cleared ? undefined : String(value);
-            }
-            if (field === 'System.State' || field === 'System.Title') {
-                const title = typeof updated?.fields['System.Title'] === 'string' ? (updated.fields['System.Title'] as string) : `#${adoId}`;
-                const state = typeof updated?.fields['System.State'] === 'string' ? (updated.fields['System.State'] as string) : undefined;
-                this.tasks.reconcileFromWorkItem(adoId, title, state);
-            }
-        };
+function describeLink(op: SyncOp): string {
+    const [action, kind, targetId] = linkChange(op);
+    return `${action === 'add' ? 'link' : 'unlink'} #${adoIdOf(op.targetId)} ${LINK_LABELS[kind].toLowerCase()} #${targetId}`;
+}
 
-        this.queue.setStatus(op.opId, 'inflight');
-        const result = await this.rest.patchWorkItem(org, project, adoId, ops, op.baseEtag);
+function isCleared(value: unknown): boolean {
+    return value === null || value === undefined || value === '';
+}
 
-        if (result.success) {
-            if (result.etag && result.rev !== undefined) this.workItems.setEtag(adoId, result.etag, result.rev);
-            applyLocal();
-            this.queue.setStatus(op.opId, 'done');
-            this.log(`Pushed #${adoId} ${field} = ${cleared ? '(cleared)' : String(value)}`);
-            return;
-        }
+/** The field an op writes and the value it writes (state ops target System.State). */
+function fieldChange(op: SyncOp): [string, unknown] {
+    if (op.opType === 'update_state') return ['System.State', op.payload['state']];
+    return [String(op.payload['field']), op.payload['value']];
+}
 
-        if (result.conflict) {
-            const outcome = await this.conflicts.resolveFieldConflict(op, org, project, field, value);
-            if (outcome.resolved) {
-                this.queue.setStatus(op.opId, 'done');
-                return;
-            }
-            if (outcome.retryWithEtag) {
-                this.queue.updateBaseEtag(op.opId, outcome.retryWithEtag);
-                const retry = await this.rest.patchWorkItem(org, project, adoId, ops, outcome.retryWithEtag);
-                if (retry.success) {
-                    if (retry.etag && retry.rev !== undefined) this.workItems.setEtag(adoId, retry.etag, retry.rev);
-                    applyLocal();
-                    this.queue.setStatus(op.opId, 'done');
-                    this.log(`Pushed #${adoId} ${field} after conflict merge`);
-                    return;
-                }
-            }
-            this.queue.setStatus(op.opId, 'pending', 'Awaiting conflict resolution');
-            return;
-        }
+function describeChange(field: string, value: unknown): string {
+    return `${field} = ${isCleared(value) ? '(cleared)' : String(value)}`;
+}
 
-        const attempts = this.queue.incrementAttempts(op.opId);
-        if (attempts >= MAX_ATTEMPTS) {
-            this.queue.setStatus(op.opId, 'failed', result.error?.message ?? 'Unknown error');
-            this.log(`Giving up on #${adoId} ${field} after ${attempts} attempts: ${result.error?.message}`);
-        } else {
-            this.queue.setStatus(op.opId, 'pending', result.error?.message);
-            this.log(`Transient failure on #${adoId} ${field} (attempt ${attempts}): ${result.error?.message}`);
+/** Fold field ops (oldest first) into one value per field; last write wins. */
+export function coalesceFieldChanges(ops: SyncOp[]): Map<string, unknown> {
+    const changes = new Map<string, unknown>();
+    for (const op of ops) {
+        const [field, value] = fieldChange(op);
+        changes.delete(field); // keep patch order = order of the final writes
+        changes.set(field, value);
+    }
+    return changes;
+}
+
+/** The base value of each field across a batch: the oldest op that recorded one wins. */
+export function coalesceBaseValues(ops: SyncOp[]): Map<string, unknown> {
+    const bases = new Map<string, unknown>();
+    for (const op of ops) {
+        for (const [field, value] of Object.entries(op.baseValues ?? {})) {
+            if (!bases.has(field)) bases.set(field, value);
         }
     }
+    return bases;
+}
+
+/** Build the JSON-Patch document for a set of field changes. Empty values clear. */
+function toPatchOps(changes: Map<string, unknown>): JsonPatchOp[] {
+    return [...changes].map(([field, value]): JsonPatchOp => isCleared(value)
+        ? { op: 'remove', path: `/fields/${field}` }
+        : { op: 'add', path: `/fields/${field}`, value });
 }
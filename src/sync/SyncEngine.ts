@@ -1,12 +1,29 @@
 import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
 import { AdoRestClient } from '../ado/AdoRestClient';
 import { Database } from '../db/Database';
 import { WorkItemRepository, workItemRowFromAdo } from '../db/repositories/WorkItemRepository';
 import { TaskRepository } from '../db/repositories/TaskRepository';
+import { LinkRepository, linksFromRelations } from '../db/repositories/LinkRepository';
+import { CommentRepository, commentFromAdo } from '../db/repositories/CommentRepository';
+import { HistoryRepository, updateFromAdo } from '../db/repositories/HistoryRepository';
+import { AttachmentRepository, attachmentsFromRelations } from '../db/repositories/AttachmentRepository';
+import { FieldMetadataRepository, fieldMetadataFromAdo } from '../db/repositories/FieldMetadataRepository';
+import { WorkItemStateRepository, statesFromAdo } from '../db/repositories/WorkItemStateRepository';
 import { SyncStateRepository } from '../db/repositories/SyncStateRepository';
+import { ProjectRepository } from '../db/repositories/ProjectRepository';
+import { QueryPathRepository } from '../db/repositories/QueryPathRepository';
 import { OutboxProcessor } from './OutboxProcessor';
-import { ConflictResolver, ConflictPrompt } from './ConflictResolver';
+import { ConflictResolver, ConflictDecision } from './ConflictResolver';
+import { ConflictQueue, PendingConflict } from './ConflictQueue';
 import { QueryDefinition, Settings } from '../config/Settings';
+import { addChangedSinceFilter } from './wiql';
+import { resolveQueryPath, runQueryAtPath } from './queryPaths';
+import { bindingChange, bindingWiql } from './projectBinding';
+import { LinkKind, Project, RemovedItemAction, SyncOp, WorkItemKey } from '../model/types';
+import { adoIdOf, siblingKey, workItemKey } from '../model/workItemKey';
 
 /** Standard set of fields we mirror for every work item. */
 export const DEFAULT_FIELDS = [
@@ -33,8 +50,48 @@ export const DEFAULT_FIELDS = [
     'Microsoft.VSTS.Scheduling.DueDate'
 ];
 
+/**
+ * The fields to fetch for an org/project: {@link DEFAULT_FIELDS} plus any other
+ * ADO field chosen for the detail pane, once the project's cached metadata
+ * confirms it exists there (asking for an unknown field fails the batch).
+ */
+export function fieldsToMirror(fieldMetadata: FieldMetadataRepository, org: string, project: string): string[] {
+    const extra = Settings.detailFields.filter(key => !key.startsWith('local.') && !DEFAULT_FIELDS.includes(key));
+    if (extra.length === 0) return DEFAULT_FIELDS;
+    const known = new Set(fieldMetadata.forProject(org, project).map(f => f.ref));
+    return [...DEFAULT_FIELDS, ...extra.filter(key => known.has(key))];
+}
+
+/** How often a source re-runs its full ID list instead of a ChangedDate delta. */
+export const FULL_RESYNC_INTERVAL_MS = 15 * 60 * 1000;
+
+/** How long a work item type's cached field metadata is trusted before it's re-fetched. */
+export const FIELD_METADATA_TTL_MS = 24 * 60 * 60 * 1000;
+
 export type SyncPhase = 'idle' | 'syncing' | 'offline' | 'error';
 
+/** A linked task whose work item left every query (or was deleted in ADO). */
+export interface RemovedItem {
+    adoId: number;
+    title: string;
+    reason: 'leftQuery' | 'deleted';
+    action: RemovedItemAction;
+}
+
+/** One set of work items pulled per cycle: a saved query or a bound project. */
+interface PullSource {
+    key: string;
+    name: string;
+    org: string;
+    project: string;
+    /** The full ID list. */
+    runFull(): Promise<number[] | undefined>;
+    /** The source's WIQL, for narrowing to a ChangedDate delta. */
+    wiql(): Promise<string | undefined>;
+    /** For a bound project: the local project its tasks are filed under. */
+    projectUuid?: string;
+}
+
 export interface SyncStatus {
     phase: SyncPhase;
     lastSyncedUtc?: string;
@@ -46,34 +103,59 @@ export interface SyncStatus {
  * Owns all reconciliation between ADO and the local DB.
  *
  * Phase 2 implements the PULL half: for each configured query it fetches IDs via
- * REST, batch-fetches changed work items, mirrors them into the DB, and
- * reconciles tasks (preserving local-only fields). The outbox/push half is added
- * in Phase 3.
+ * REST (a ChangedDate delta once a watermark exists), batch-fetches those work
+ * items, mirrors them into the DB, and reconciles tasks (preserving local-only
+ * fields). The outbox/push half is added in Phase 3.
  */
 export class SyncEngine {
     private readonly workItems: WorkItemRepository;
     private readonly tasks: TaskRepository;
     private readonly syncState: SyncStateRepository;
+    private readonly links: LinkRepository;
+    private readonly projects: ProjectRepository;
+    private readonly comments: CommentRepository;
+    private readonly history: HistoryRepository;
+    private readonly attachments: AttachmentRepository;
+    private readonly fieldMetadata: FieldMetadataRepository;
+    private readonly states: WorkItemStateRepository;
+    private readonly queryPaths: QueryPathRepository;
     private readonly outbox: OutboxProcessor;
 
     private _status: SyncStatus = { phase: 'idle', pendingCount: 0 };
     private readonly _onDidChangeStatus = new vscode.EventEmitter<SyncStatus>();
     readonly onDidChangeStatus = this._onDidChangeStatus.event;
+    private readonly _onDidRemoveItems = new vscode.EventEmitter<RemovedItem[]>();
+    /** Fires after a pull retires tasks whose work items are gone. */
+    readonly onDidRemoveItems = this._onDidRemoveItems.event;
+    private readonly _onDidChangeConflicts = new vscode.EventEmitter<PendingConflict[]>();
+    /** Fires whenever a conflict is queued for review or answered. */
+    readonly onDidChangeConflicts = this._onDidChangeConflicts.event;
+    private readonly conflicts: ConflictQueue;
 
     private generation = 0;
+    /** Saved-query WIQL text by source key, re-read on every full refresh. */
+    private readonly wiqlCache = new Map<string, string>();
 
     constructor(
         private readonly db: Database,
         private readonly rest: AdoRestClient,
-        private readonly outputChannel: vscode.OutputChannel,
-        prompt?: ConflictPrompt
+        private readonly outputChannel: vscode.OutputChannel
     ) {
         this.workItems = new WorkItemRepository(db);
         this.tasks = new TaskRepository(db);
         this.syncState = new SyncStateRepository(db);
-        const defaultPrompt: ConflictPrompt = async () => 'theirs';
-        const resolver = new ConflictResolver(rest, this.workItems, prompt ?? defaultPrompt, (m) => this.log(m));
-        this.outbox = new OutboxProcessor(db, rest, resolver, (m) => this.log(m));
+        this.links = new LinkRepository(db);
+        this.projects = new ProjectRepository(db, this.tasks);
+        this.comments = new CommentRepository(db);
+        this.history = new HistoryRepository(db);
+        this.attachments = new AttachmentRepository(db);
+        this.fieldMetadata = new FieldMetadataRepository(db);
+        this.states = new WorkItemStateRepository(db, () => Settings.stateCategories);
+        this.queryPaths = new QueryPathRepository(db);
+        // Conflicts are queued for review rather than prompted mid-sync.
+        this.conflicts = new ConflictQueue(() => this._onDidChangeConflicts.fire(this.conflicts.list()));
+        const resolver = new ConflictResolver(rest, this.workItems, this.conflicts.prompt, (m) => this.log(m));
+        this.outbox = new OutboxProcessor(db, rest, resolver, (m) => this.log(m), Date.now, () => Settings.stateCategories);
         this.setStatus({ pendingCount: this.outbox.pendingCount });
     }
 
@@ -85,25 +167,226 @@ export class SyncEngine {
         return this.tasks;
     }
 
-    /** Optimistically enqueue an ADO state change and drain the outbox. */
-    async enqueueStateChange(adoId: number, newState: string): Promise<void> {
-        this.outbox.enqueueStateChange(adoId, newState);
+    /** Optimistically enqueue an ADO state change and drain the outbox. Returns the op id. */
+    async enqueueStateChange(key: WorkItemKey, newState: string): Promise<string> {
+        const op = this.outbox.enqueueStateChange(key, newState);
+        this.setStatus({ pendingCount: this.outbox.pendingCount });
+        await this.processOutbox();
+        return op.opId;
+    }
+
+    /** Optimistically enqueue a single-field ADO update and drain the outbox. Returns the op id. */
+    async enqueueFieldUpdate(key: WorkItemKey, field: string, value: unknown): Promise<string> {
+        const op = this.outbox.enqueueFieldUpdate(key, field, value);
+        this.setStatus({ pendingCount: this.outbox.pendingCount });
+        await this.processOutbox();
+        return op.opId;
+    }
+
+    /** Optimistically add or remove a work item link and drain the outbox. Returns the op id. */
+    async enqueueLink(key: WorkItemKey, action: 'add' | 'remove', kind: LinkKind, targetId: number): Promise<string> {
+        const op = this.outbox.enqueueLink(key, action, kind, targetId);
+        this.setStatus({ pendingCount: this.outbox.pendingCount });
+        await this.processOutbox();
+        return op.opId;
+    }
+
+    /** Queue a comment (HTML) on a work item's discussion and drain the outbox. Returns the op id. */
+    async enqueueComment(key: WorkItemKey, text: string, author?: string): Promise<string> {
+        const op = this.outbox.enqueueComment(key, text, author);
         this.setStatus({ pendingCount: this.outbox.pendingCount });
         await this.processOutbox();
+        return op.opId;
     }
 
-    /** Optimistically enqueue a single-field ADO update and drain the outbox. */
-    async enqueueFieldUpdate(adoId: number, field: string, value: unknown): Promise<void> {
-        this.outbox.enqueueFieldUpdate(adoId, field, value);
+    /** Queue uploading a local file as a work item attachment and drain the outbox. Returns the op id. */
+    async enqueueAttachment(key: WorkItemKey, filePath: string, name: string, size?: number): Promise<string> {
+        const op = this.outbox.enqueueAttachment(key, filePath, name, size);
         this.setStatus({ pendingCount: this.outbox.pendingCount });
         await this.processOutbox();
+        return op.opId;
+    }
+
+    /**
+     * A local copy of an attachment, downloaded into `cacheDir` the first time
+     * it's opened. Attachment URLs end in a GUID that never changes content,
+     * so a cached file is reused as-is. Returns undefined if it can't be fetched.
+     */
+    async downloadAttachment(org: string, url: string, name: string, cacheDir: string): Promise<string | undefined> {
+        const guid = url.split('?')[0].split('/').pop() ?? 'attachment';
+        const target = path.join(cacheDir, guid, path.basename(name));
+        if (fs.existsSync(target)) return target;
+        try {
+            const content = await this.rest.downloadAttachment(org, url);
+            if (!content) return undefined;
+            await fs.promises.mkdir(path.dirname(target), { recursive: true });
+            await fs.promises.writeFile(target, content);
+            return target;
+        } catch (err) {
+            this.log(`Could not download ${name}: ${String(err)}`);
+            return undefined;
+        }
+    }
+
+    /**
+     * Re-read a work item's discussion into the local cache. Comments aren't
+     * part of the regular pull; they're fetched when a task's details are
+     * opened. Returns false when ADO couldn't be reached (the cache is kept).
+     */
+    async refreshComments(key: WorkItemKey): Promise<boolean> {
+        const row = this.workItems.get(key);
+        if (!row?.org || !row.project) return false;
+        try {
+            const comments = await this.rest.getComments(row.org, row.project, row.adoId);
+            if (!comments) return false;
+            this.comments.replaceFor(key, comments.map(c => commentFromAdo(key, c)));
+            return true;
+        } catch (err) {
+            this.log(`Could not load comments for #${row.adoId}: ${String(err)}`);
+            return false;
+        }
+    }
+
+    /**
+     * Fetch a work item's revisions newer than the cached ones. Like comments,
+     * history is loaded on demand rather than on every pull. Returns false
+     * when ADO couldn't be reached (the cache is kept).
+     */
+    async refreshHistory(key: WorkItemKey): Promise<boolean> {
+        const row = this.workItems.get(key);
+        if (!row?.org || !row.project) return false;
+        try {
+            const updates = await this.rest.getUpdates(row.org, row.project, row.adoId, this.history.lastUpdateId(key));
+            if (!updates) return false;
+            this.history.append(updates.map(u => updateFromAdo(key, u)));
+            return true;
+        } catch (err) {
+            this.log(`Could not load history for #${row.adoId}: ${String(err)}`);
+            return false;
+        }
+    }
+
+    /**
+     * Fetch field metadata for every mirrored work item type that has none
+     * cached or whose cache is older than {@link FIELD_METADATA_TTL_MS}. The
+     * project's field definitions are read once per project.
+     */
+    async refreshFieldMetadata(now = Date.now()): Promise<void> {
+        const stale = new Map<string, { org: string; project: string; types: Set<string> }>();
+        for (const row of this.workItems.all()) {
+            if (row.deleted || !row.org || !row.project || !row.type) continue;
+            const fetched = this.fieldMetadata.fetchedAt(row.org, row.project, row.type);
+            if (fetched && now - Date.parse(fetched) < FIELD_METADATA_TTL_MS) continue;
+            const key = `${row.org}/${row.project}`;
+            const entry = stale.get(key) ?? { org: row.org, project: row.project, types: new Set<string>() };
+            entry.types.add(row.type);
+            stale.set(key, entry);
+        }
+
+        for (const { org, project, types } of stale.values()) {
+            try {
+                const definitions = await this.rest.getFieldDefinitions(org, project);
+                if (!definitions) continue;
+                for (const type of types) {
+                    const typeFields = await this.rest.getWorkItemTypeFields(org, project, type);
+                    if (!typeFields) continue;
+                    const fetchedAt = new Date(now).toISOString();
+                    this.fieldMetadata.replaceForType(org, project, type, fieldMetadataFromAdo(org, project, type, typeFields, definitions, fetchedAt));
+                    this.log(`Cached ${typeFields.length} fields for ${type} in ${org}/${project}`);
+                }
+            } catch (err) {
+                this.log(`Could not load field metadata for ${org}/${project}: ${String(err)}`);
+            }
+        }
+    }
+
+    /**
+     * Fetch the states of every mirrored work item type whose cached states are
+     * missing or older than {@link FIELD_METADATA_TTL_MS}, then re-reconcile the
+     * linked tasks of those types so completion follows the fetched categories.
+     */
+    async refreshStateCategories(now = Date.now()): Promise<void> {
+        const rows = this.workItems.all().filter(row => !row.deleted && row.org && row.project && row.type);
+        const stale = new Map<string, { org: string; project: string; type: string }>();
+        for (const row of rows) {
+            const fetched = this.states.fetchedAt(row.org!, row.project!, row.type!);
+            if (fetched && now - Date.parse(fetched) < FIELD_METADATA_TTL_MS) continue;
+            stale.set(`${row.org}/${row.project}/${row.type}`, { org: row.org!, project: row.project!, type: row.type! });
+        }
+
+        const refreshed = new Set<string>();
+        for (const [key, { org, project, type }] of stale) {
+            try {
+                const states = await this.rest.getWorkItemTypeStates(org, project, type);
+                if (!states) continue;
+                this.states.replaceForType(org, project, type, statesFromAdo(org, project, type, states, new Date(now).toISOString()));
+                this.log(`Cached ${states.length} states for ${type} in ${org}/${project}`);
+                refreshed.add(key);
+            } catch (err) {
+                this.log(`Could not load states for ${type} in ${org}/${project}: ${String(err)}`);
+            }
+        }
+
+        for (const row of rows) {
+            if (!refreshed.has(`${row.org}/${row.project}/${row.type}`)) continue;
+            const task = this.tasks.getByWorkItem(row.key);
+            if (task) this.tasks.reconcileFromWorkItem(row.key, task.title, row.state, this.states.categoryOf(row));
+        }
+    }
+
+    /**
+     * The state that completes a linked work item: the first state of its type
+     * in the Completed category, fetching the type's states if none are cached.
+     */
+    async completedStateFor(key: WorkItemKey): Promise<string | undefined> {
+        const row = this.workItems.get(key);
+        if (!row?.org || !row.project || !row.type) return undefined;
+        if (!this.states.fetchedAt(row.org, row.project, row.type)) {
+            await this.refreshStateCategories();
+        }
+        return this.states.firstStateIn(row.org, row.project, row.type, 'Completed');
     }
 
-    /** Create a new ADO work item from a local task, then drain the outbox. */
-    async pushTaskToAdo(taskUuid: string, type: string, org: string, project: string, assignedTo?: string): Promise<void> {
+    /**
+     * File a task under a project (or none). When the project is bound and the
+     * task is linked, the area/iteration path or parent link that puts its
+     * work item there is queued too. Returns the op id, if one was queued.
+     */
+    async moveTaskToProject(taskUuid: string, projectUuid: string | undefined): Promise<string | undefined> {
+        const task = this.tasks.getByUuid(taskUuid);
+        if (!task) return undefined;
+        this.tasks.assignToProject(taskUuid, projectUuid);
+        const binding = projectUuid ? this.projects.getProject(projectUuid)?.adoBinding : undefined;
+        if (!binding || task.workItemKey === undefined) return undefined;
+
+        const key = task.workItemKey;
+        const row = this.workItems.get(key);
+        const change = bindingChange(binding, row?.org, row?.project, adoIdOf(key));
+        if (!change) {
+            this.log(`#${adoIdOf(key)} can't join the binding of project ${projectUuid} (different ADO project); moved locally only`);
+            return undefined;
+        }
+        if ('parentId' in change) {
+            if (this.links.parentOf(key) === siblingKey(key, change.parentId)) return undefined;
+            return this.enqueueLink(key, 'add', 'parent', change.parentId);
+        }
+        if (row?.fields[change.field] === change.value) return undefined;
+        return this.enqueueFieldUpdate(key, change.field, change.value);
+    }
+
+    /**
+     * Create a new ADO work item (a child of `parentId`, if given) from a local
+     * task, then drain the outbox. A task in a bound project is created inside
+     * that project's area path, iteration or parent.
+     */
+    async pushTaskToAdo(taskUuid: string, type: string, org: string, project: string, assignedTo?: string, parentId?: number): Promise<void> {
         const task = this.tasks.getByUuid(taskUuid);
         if (!task) return;
-        this.outbox.enqueueCreate(taskUuid, type, org, project, task.title, assignedTo);
+        const binding = task.projectUuid ? this.projects.getProject(task.projectUuid)?.adoBinding : undefined;
+        const change = binding && bindingChange(binding, org, project);
+        const fields = change && 'field' in change ? { [change.field]: change.value } : undefined;
+        parentId ??= change && 'parentId' in change ? change.parentId : undefined;
+        this.outbox.enqueueCreate(taskUuid, type, org, project, task.title, { assignedTo, priority: task.priority, parentId, fields });
         this.setStatus({ pendingCount: this.outbox.pendingCount });
         await this.processOutbox();
     }
@@ -114,6 +397,47 @@ export class SyncEngine {
         this.setStatus({ pendingCount: this.outbox.pendingCount });
     }
 
+    /** Ops still waiting to reach ADO (pending, inflight or failed), oldest first. */
+    outboxOps(): SyncOp[] {
+        return this.outbox.ops();
+    }
+
+    /** Re-queue one op with a fresh attempt budget and drain the outbox. */
+    async retryOp(opId: string): Promise<void> {
+        if (this.outbox.retry(opId)) await this.processOutbox();
+    }
+
+    /** Re-queue every failed op and drain the outbox. Returns how many were retried. */
+    async retryAllOps(): Promise<number> {
+        const count = this.outbox.retryAll();
+        if (count > 0) await this.processOutbox();
+        return count;
+    }
+
+    /** Drop a queued op and revert its optimistic local change. */
+    discardOp(opId: string): boolean {
+        const op = this.outbox.ops().find(o => o.opId === opId);
+        const discarded = this.outbox.discard(opId);
+        if (discarded && op?.entity === 'workitem' && !this.outbox.ops().some(o => o.targetId === op.targetId)) {
+            this.conflicts.dropFor(op.targetId);
+        }
+        this.setStatus({ pendingCount: this.outbox.pendingCount });
+        return discarded;
+    }
+
+    /** Conflicts waiting for the user, oldest first. */
+    pendingConflicts(): PendingConflict[] {
+        return this.conflicts.list();
+    }
+
+    /** Apply the user's answer to a queued conflict and push the work item again. */
+    async resolveConflict(id: string, decision: ConflictDecision): Promise<void> {
+        const key = this.conflicts.resolve(id, decision);
+        if (key === undefined) return;
+        this.outbox.retryWorkItem(key);
+        await this.processOutbox();
+    }
+
     private setStatus(patch: Partial<SyncStatus>): void {
         this._status = { ...this._status, ...patch };
         this._onDidChangeStatus.fire(this._status);
@@ -123,67 +447,148 @@ export class SyncEngine {
         this.outputChannel.appendLine(`[${new Date().toISOString()}] [sync] ${msg}`);
     }
 
+    /**
+     * Inline WIQL is keyed by a hash of its text, so editing the statement
+     * starts a fresh watermark instead of running deltas against the old one.
+     */
     private sourceKey(q: QueryDefinition): string {
-        return `${q.organization ?? Settings.organization}/${q.project ?? Settings.project}/${q.queryId ?? q.queryPath ?? q.name}`;
+        const wiqlKey = q.wiql ? `wiql:${createHash('sha1').update(q.wiql).digest('hex').slice(0, 12)}` : undefined;
+        return `${q.organization ?? Settings.organization}/${q.project ?? Settings.project}/${q.queryId ?? q.queryPath ?? wiqlKey ?? q.name}`;
+    }
+
+    /**
+     * A configured query as a pull source, or undefined without an org and
+     * project. Saved queries configured by path run by their resolved ID.
+     */
+    private querySource(q: QueryDefinition): PullSource | undefined {
+        const org = q.organization ?? Settings.organization;
+        const project = q.project ?? Settings.project;
+        if (!org || !project) return undefined;
+        const key = this.sourceKey(q);
+        const { queryId, queryPath, wiql: inline } = q;
+        let runFull: () => Promise<number[] | undefined>;
+        let resolveId: () => Promise<string | undefined>;
+        if (queryId) {
+            runFull = async () => (await this.rest.runSavedQuery(org, project, queryId)).ids;
+            resolveId = async () => queryId;
+        } else if (queryPath) {
+            runFull = () => runQueryAtPath(this.rest, this.queryPaths, org, project, queryPath);
+            resolveId = () => resolveQueryPath(this.rest, this.queryPaths, org, project, queryPath);
+        } else if (inline) {
+            return {
+                key, name: q.name, org, project,
+                runFull: () => this.rest.runWiql(org, project, inline),
+                wiql: async () => inline
+            };
+        } else {
+            return undefined;
+        }
+        return {
+            key, name: q.name, org, project, runFull,
+            wiql: async () => {
+                let wiql = this.wiqlCache.get(key);
+                if (wiql === undefined) {
+                    const id = await resolveId();
+                    wiql = id ? await this.rest.getQueryWiql(org, project, id) : undefined;
+                    if (wiql !== undefined) this.wiqlCache.set(key, wiql);
+                }
+                return wiql;
+            }
+        };
+    }
+
+    /** A bound project as a pull source, or undefined when its binding is incomplete. */
+    private projectSource(p: Project): PullSource | undefined {
+        const binding = p.adoBinding;
+        const wiql = binding && bindingWiql(binding);
+        if (!binding || !wiql) return undefined;
+        return {
+            key: `${binding.organization}/${binding.project}/project:${p.uuid}`,
+            name: p.name,
+            org: binding.organization,
+            project: binding.project,
+            runFull: () => this.rest.runWiql(binding.organization, binding.project, wiql),
+            wiql: async () => wiql,
+            projectUuid: p.uuid
+        };
     }
 
     /**
-     * Pull all REST-eligible queries (those with org + project + queryId).
-     * Queries that can only be resolved by path are left to the CLI path.
+     * Resolve which IDs to fetch for a source.
+     *
+     * Once a source has a watermark, most cycles run a delta: the source's own
+     * WIQL narrowed to `[System.ChangedDate] > watermark`, so unchanged items are
+     * never re-fetched. Every {@link FULL_RESYNC_INTERVAL_MS} (or whenever the
+     * query can't be narrowed) the full ID list is re-run instead, which is what
+     * lets us notice items that left the query.
      */
-    async pull(queries: QueryDefinition[]): Promise<void> {
+    private async fetchIds(source: PullSource): Promise<{ ids: number[]; full: boolean } | undefined> {
+        const state = this.syncState.get(source.key);
+        const lastFull = state?.lastFullSyncUtc ? Date.parse(state.lastFullSyncUtc) : NaN;
+        const fullDue = Number.isNaN(lastFull) || Date.now() - lastFull >= FULL_RESYNC_INTERVAL_MS;
+
+        if (state?.watermark && !fullDue) {
+            const wiql = await source.wiql();
+            const delta = wiql ? addChangedSinceFilter(wiql, state.watermark) : undefined;
+            if (delta) {
+                const ids = await this.rest.runWiql(source.org, source.project, delta);
+                if (ids !== undefined) return { ids, full: false };
+                this.log(`Delta query failed for ${source.key}; falling back to a full refresh`);
+            }
+        }
+
+        // Full refresh: re-read the query text next time too, in case it was edited.
+        this.wiqlCache.delete(source.key);
+        const ids = await source.runFull();
+        return ids === undefined ? undefined : { ids, full: true };
+    }
+
+    /**
+     * Pull every configured query with an org and project (saved queries by ID
+     * or path, or inline WIQL), then every project bound to an area path,
+     * iteration or parent work item.
+     *
+     * Sources pulled before that are no longer configured are retired along
+     * the way, unless `allListed` is false: then some configured queries are
+     * missing from `queries` (a subscribed folder couldn't be listed) and
+     * their items mustn't be mistaken for removed ones.
+     */
+    async pull(queries: QueryDefinition[], allListed = true): Promise<void> {
         const myGen = ++this.generation;
         this.setStatus({ phase: 'syncing', message: 'Syncing…' });
         let anyOnline = false;
         let anyError = false;
+        const leftQuery = new Set<WorkItemKey>();
+        const deleted = new Set<WorkItemKey>();
+        const sources = [
+            ...queries.map(q => this.querySource(q)),
+            ...this.projects.boundProjects().map(p => this.projectSource(p))
+        ].filter((s): s is PullSource => s !== undefined);
 
-        for (const q of queries) {
+        for (const source of sources) {
             if (myGen !== this.generation) return; // superseded
-            const org = q.organization ?? Settings.organization;
-            const project = q.project ?? Settings.project;
-            if (!org || !project || !q.queryId) {
-                continue; // not REST-eligible; CLI fallback handles it
-            }
-
             try {
-                const ids = await this.rest.runSavedQuery(org, project, q.queryId);
-                if (ids === undefined) {
-                    anyError = true;
-                    continue;
-                }
-                anyOnline = true;
-                const limited = ids.slice(0, Settings.maxItems);
-                const items = await this.rest.batchGetWorkItems(org, project, limited, DEFAULT_FIELDS);
-                if (!items) {
-                    anyError = true;
-                    continue;
-                }
-
-                let maxChanged = this.syncState.get(this.sourceKey(q))?.watermark;
-                for (const wi of items) {
-                    const rev = (wi as { rev?: number }).rev ?? 0;
-                    this.workItems.upsert(workItemRowFromAdo(wi.id, wi.fields, rev, org, project));
-                    const title = typeof wi.fields['System.Title'] === 'string' ? (wi.fields['System.Title'] as string) : `#${wi.id}`;
-                    const state = typeof wi.fields['System.State'] === 'string' ? (wi.fields['System.State'] as string) : undefined;
-                    this.tasks.reconcileFromWorkItem(wi.id, title, state);
-
-                    const changed = wi.fields['System.ChangedDate'];
-                    if (typeof changed === 'string' && (!maxChanged || changed > maxChanged)) {
-                        maxChanged = changed;
-                    }
-                }
-                this.syncState.set(this.sourceKey(q), maxChanged);
-                this.log(`Pulled ${items.length} items for "${q.name}"`);
+                const fetched = await this.pullSource(source, leftQuery, deleted);
+                if (fetched) anyOnline = true;
+                else anyError = true;
             } catch (err) {
                 anyError = true;
-                this.log(`Pull failed for "${q.name}": ${String(err)}`);
+                this.log(`Pull failed for "${source.name}": ${String(err)}`);
             }
         }
 
         if (myGen !== this.generation) return;
 
+        if (allListed) this.dropStaleSources(sources, leftQuery);
+        this.retireRemoved(sources, leftQuery, deleted);
+        this.outbox.reapplyQueuedLinks();
+
         // Drain any pending local changes as part of each sync cycle.
         await this.processOutbox();
+        if (anyOnline) {
+            await this.refreshFieldMetadata();
+            await this.refreshStateCategories();
+        }
 
         if (!anyOnline && anyError) {
             this.setStatus({ phase: 'offline', message: 'Offline — showing cached data' });
@@ -194,7 +599,129 @@ export class SyncEngine {
         }
     }
 
+    /**
+     * Fetch one source's IDs and work items and mirror them locally. Returns
+     * false when ADO couldn't be reached for it.
+     */
+    private async pullSource(source: PullSource, leftQuery: Set<WorkItemKey>, deleted: Set<WorkItemKey>): Promise<boolean> {
+        const { key, org, project } = source;
+        const prevIds = this.syncState.get(key)?.ids;
+        const fetched = await this.fetchIds(source);
+        if (fetched === undefined) return false;
+        const limited = fetched.ids.slice(0, Settings.maxItems);
+        const items = await this.rest.batchGetWorkItems(org, project, limited, fieldsToMirror(this.fieldMetadata, org, project), true);
+        if (!items) return false;
+
+        let maxChanged = this.syncState.get(key)?.watermark;
+        for (const wi of items) {
+            const rev = (wi as { rev?: number }).rev ?? 0;
+            const row = workItemRowFromAdo(wi.id, wi.fields, rev, org, project);
+            this.workItems.upsert(row);
+            const title = typeof wi.fields['System.Title'] === 'string' ? (wi.fields['System.Title'] as string) : `#${wi.id}`;
+            this.tasks.reconcileFromWorkItem(row.key, title, row.state, this.states.categoryOf(row));
+            if (wi.relations) {
+                this.links.replaceFor(row.key, linksFromRelations(row.key, wi.relations));
+                this.attachments.replaceFor(row.key, attachmentsFromRelations(row.key, wi.relations));
+            }
+            if (source.projectUuid) this.fileUnderProject(row.key, source.projectUuid);
+
+            const changed = wi.fields['System.ChangedDate'];
+            if (typeof changed === 'string' && (!maxChanged || changed > maxChanged)) {
+                maxChanged = changed;
+            }
+        }
+        this.syncState.set(key, maxChanged, fetched.full);
+
+        // Requested but not returned = deleted in ADO (or no longer visible).
+        const returned = new Set(items.map(wi => wi.id));
+        const missing = limited.filter(id => !returned.has(id));
+        missing.forEach(id => deleted.add(workItemKey(org, id)));
+
+        // Track query membership. A delta only adds members; removals are
+        // only knowable from a full refresh of the ID list.
+        const members = new Set(fetched.full ? fetched.ids : [...(prevIds ?? []), ...fetched.ids]);
+        missing.forEach(id => members.delete(id));
+        this.syncState.setIds(key, [...members], org);
+        if (fetched.full && prevIds) {
+            const left = prevIds.filter(id => !members.has(id));
+            left.forEach(id => leftQuery.add(workItemKey(org, id)));
+            if (source.projectUuid) left.forEach(id => this.fileUnderProject(workItemKey(org, id), undefined, source.projectUuid));
+        }
+
+        this.log(fetched.full
+            ? `Pulled ${items.length} items for "${source.name}"`
+            : `Pulled ${items.length} changed items for "${source.name}" (delta)`);
+        return true;
+    }
+
+    /**
+     * Move a pulled work item's task into a bound project, or out of `from`
+     * once it no longer matches. Tasks with changes still waiting to push are
+     * left alone, so a local move isn't undone before it reaches ADO.
+     */
+    private fileUnderProject(key: WorkItemKey, projectUuid: string | undefined, from?: string): void {
+        const task = this.tasks.getByWorkItem(key);
+        if (!task || task.projectUuid === projectUuid) return;
+        if (from !== undefined && task.projectUuid !== from) return;
+        if (this.outbox.ops().some(op => op.entity === 'workitem' && op.opType !== 'add_comment' && op.targetId === key)) return;
+        this.tasks.assignToProject(task.uuid, projectUuid);
+    }
+
+    /**
+     * Forget sources that were pulled before but are no longer configured (a
+     * query or folder removed from settings, a project unbound). Their items
+     * count as having left them, so ones no other source holds are retired.
+     */
+    private dropStaleSources(sources: PullSource[], leftQuery: Set<WorkItemKey>): void {
+        const stale = this.syncState.staleSources(sources.map(s => s.key));
+        if (stale.length === 0) return;
+        // Sources recorded before their org was kept could be in any mirrored org.
+        const keysById = new Map<number, WorkItemKey[]>();
+        for (const row of this.workItems.all()) {
+            keysById.set(row.adoId, [...keysById.get(row.adoId) ?? [], row.key]);
+        }
+        for (const row of stale) {
+            for (const id of row.ids ?? []) {
+                const keys = row.org ? [workItemKey(row.org, id)] : keysById.get(id) ?? [];
+                keys.forEach(key => leftQuery.add(key));
+            }
+            this.log(`"${row.sourceKey}" is no longer configured; retiring the items only it held`);
+        }
+        this.syncState.remove(stale.map(s => s.sourceKey));
+    }
+
+    /**
+     * Tombstone work items that were deleted in ADO or dropped out of their
+     * query, and retire their linked tasks per `adoQueries.removedItemAction`.
+     * An item that left one source but is still matched by another is kept.
+     */
+    private retireRemoved(sources: PullSource[], leftQuery: Set<WorkItemKey>, deleted: Set<WorkItemKey>): void {
+        const held = new Set(sources.flatMap(s => [...this.syncState.idsHeldBy([s.key])].map(id => workItemKey(s.org, id))));
+        const action = Settings.removedItemAction;
+        const removed: RemovedItem[] = [];
+        const candidates = new Map<WorkItemKey, RemovedItem['reason']>();
+        for (const key of leftQuery) {
+            if (!held.has(key)) candidates.set(key, 'leftQuery');
+        }
+        for (const key of deleted) {
+            candidates.set(key, 'deleted');
+        }
+
+        for (const [key, reason] of candidates) {
+            const row = this.workItems.get(key);
+            if (!row || row.deleted) continue;
+            this.workItems.markDeleted(key);
+            const task = this.tasks.retireFromWorkItem(key, action);
+            this.log(`#${row.adoId} ${reason === 'deleted' ? 'was deleted in ADO' : 'left every query'}; tombstoned (task: ${task ? action : 'unchanged'})`);
+            if (task) removed.push({ adoId: row.adoId, title: task.title, reason, action });
+        }
+
+        if (removed.length > 0) this._onDidRemoveItems.fire(removed);
+    }
+
     dispose(): void {
+        this._onDidRemoveItems.dispose();
+        this._onDidChangeConflicts.dispose();
         this._onDidChangeStatus.dispose();
     }
 }
@@ -0,0 +1,55 @@
+import { ProjectAdoBinding } from '../model/types';
+
+/** Quote a value as a WIQL string literal. */
+function literal(value: string): string {
+    return `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * The flat WIQL that selects a bound project's work items: everything under
+ * its area or iteration path, or every child of its parent Epic/Feature.
+ * Returns undefined for a binding that's missing its path or parent.
+ */
+export function bindingWiql(binding: ProjectAdoBinding): string | undefined {
+    let filter: string;
+    if (binding.kind === 'parent') {
+        if (binding.parentId === undefined) return undefined;
+        filter = `[System.Parent] = ${binding.parentId}`;
+    } else {
+        if (!binding.path) return undefined;
+        const field = binding.kind === 'areaPath' ? 'System.AreaPath' : 'System.IterationPath';
+        filter = `[${field}] UNDER ${literal(binding.path)}`;
+    }
+    return `SELECT [System.Id] FROM WorkItems WHERE [System.TeamProject] = @project AND ${filter} ORDER BY [System.Id]`;
+}
+
+/** What to change on a work item so it lands in a bound project. */
+export type BindingChange =
+    | { field: string; value: string }
+    | { parentId: number };
+
+/**
+ * The field update or parent link that files a work item of `org`/`project`
+ * under `binding`, or undefined when the binding can't take it: it lives in
+ * another ADO project (paths and parents don't cross projects) or it is the
+ * parent itself. Leave out `adoId` for an item that doesn't exist yet.
+ */
+export function bindingChange(binding: ProjectAdoBinding, org?: string, project?: string, adoId?: number): BindingChange | undefined {
+    const sameProject = org?.toLowerCase() === binding.organization.toLowerCase()
+        && project?.toLowerCase() === binding.project.toLowerCase();
+    if (!sameProject) return undefined;
+    if (binding.kind === 'parent') {
+        return binding.parentId !== undefined && binding.parentId !== adoId ? { parentId: binding.parentId } : undefined;
+    }
+    if (!binding.path) return undefined;
+    return { field: binding.kind === 'areaPath' ? 'System.AreaPath' : 'System.IterationPath', value: binding.path };
+}
+
+/** A short human description, e.g. "Area path Fabrikam\Web" or "Children of #42". */
+export function describeBinding(binding: ProjectAdoBinding): string {
+    switch (binding.kind) {
+        case 'areaPath': return `Area path ${binding.path ?? '?'}`;
+        case 'iteration': return `Iteration ${binding.path ?? '?'}`;
+        case 'parent': return `Children of #${binding.parentId ?? '?'}`;
+    }
+}
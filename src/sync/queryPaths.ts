@@ -0,0 +1,42 @@
+import { AdoRestClient } from '../ado/AdoRestClient';
+import { QueryPathRepository } from '../db/repositories/QueryPathRepository';
+
+/**
+ * The ID of the saved query at `path`: the cached mapping, else looked up over
+ * REST and cached. Undefined when it can't be resolved (offline, not found, or
+ * the path names a folder).
+ */
+export async function resolveQueryPath(
+    rest: AdoRestClient,
+    paths: QueryPathRepository,
+    org: string,
+    project: string,
+    path: string
+): Promise<string | undefined> {
+    const cached = paths.get(org, project, path);
+    if (cached) return cached;
+    const query = await rest.getQueryByPath(org, project, path);
+    if (!query?.id || query.isFolder) return undefined;
+    paths.set(org, project, path, query.id);
+    return query.id;
+}
+
+/**
+ * Run the saved query at `path` and return the matching work item IDs. A
+ * cached ID whose query is gone (404) is dropped, so a query that was deleted
+ * and recreated under the same path is looked up again next time; other
+ * failures (expired sign-in, throttling, server errors) keep the mapping.
+ */
+export async function runQueryAtPath(
+    rest: AdoRestClient,
+    paths: QueryPathRepository,
+    org: string,
+    project: string,
+    path: string
+): Promise<number[] | undefined> {
+    const queryId = await resolveQueryPath(rest, paths, org, project, path);
+    if (!queryId) return undefined;
+    const result = await rest.runSavedQuery(org, project, queryId);
+    if (result.error?.status === 404) paths.forget(org, project, path);
+    return result.ids;
+}
@@ -0,0 +1,60 @@
+/**
+ * Small, dependency-free helpers for rewriting WIQL statements.
+ *
+ * WIQL is close enough to SQL that a full parser is overkill; we only need to
+ * find the top-level clauses. String literals and `[bracketed]` field names are
+ * masked first so keywords inside them are never matched.
+ */
+
+/** Replace string literals and bracketed identifiers with same-length blanks. */
+function mask(wiql: string): string {
+    return wiql.replace(/'(?:[^']|'')*'|\[[^\]]*\]/g, m => ' '.repeat(m.length));
+}
+
+/**
+ * Narrow a flat work item query to items changed after `watermark` (an ISO
+ * timestamp), preserving its own filters and ordering.
+ *
+ * Returns undefined when the statement can't be safely narrowed — link queries
+ * (`FROM WorkItemLinks`) and historical `ASOF` queries — so the caller falls
+ * back to a full refresh.
+ */
+export function addChangedSinceFilter(wiql: string, watermark: string): string | undefined {
+    const masked = mask(wiql);
+    if (!/\bfrom\s+workitems\b/i.test(masked)) return undefined;
+    if (/\basof\b/i.test(masked)) return undefined;
+
+    const filter = `[System.ChangedDate] > '${watermark.replace(/'/g, "''")}'`;
+    const orderBy = masked.search(/\border\s+by\b/i);
+    const end = orderBy >= 0 ? orderBy : wiql.length;
+    const tail = wiql.slice(end).trim();
+    const where = masked.search(/\bwhere\b/i);
+
+    if (where < 0 || where > end) {
+        return [wiql.slice(0, end).trim(), `WHERE ${filter}`, tail].filter(Boolean).join(' ');
+    }
+
+    const condStart = where + 'where'.length;
+    const cond = wiql.slice(condStart, end).trim();
+    return [wiql.slice(0, condStart).trim(), `(${cond}) AND ${filter}`, tail].filter(Boolean).join(' ');
+}
+
+/** Keywords and macros offered by the `.wiql` editor's completion. */
+export const WIQL_KEYWORDS = [
+    'SELECT', 'FROM', 'WorkItems', 'WorkItemLinks', 'WHERE', 'AND', 'OR', 'NOT', 'IN', 'UNDER',
+    'CONTAINS', 'CONTAINS WORDS', 'EVER', 'IS EMPTY', 'IS NOT EMPTY', 'ORDER BY', 'ASC', 'DESC', 'ASOF', 'MODE'
+];
+
+export const WIQL_MACROS = ['@Me', '@Today', '@Project', '@CurrentIteration', '@StartOfDay', '@StartOfWeek', '@StartOfMonth', '@StartOfYear'];
+
+/**
+ * The partial field name being typed when the cursor sits inside an unclosed
+ * `[bracket]` on its line (outside any string literal), or undefined.
+ */
+export function fieldNamePrefix(lineBeforeCursor: string): string | undefined {
+    const unquoted = lineBeforeCursor.replace(/'(?:[^']|'')*'/g, m => ' '.repeat(m.length));
+    if (/'/.test(unquoted)) return undefined; // inside an open string literal
+    const open = unquoted.lastIndexOf('[');
+    if (open < 0 || unquoted.indexOf(']', open) >= 0) return undefined;
+    return lineBeforeCursor.slice(open + 1);
+}
@@ -1,7 +1,17 @@
 import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import { Database, LATEST_SCHEMA_VERSION } from '../db/Database';
-import { TaskRepository, isDoneState } from '../db/repositories/TaskRepository';
+import { TaskRepository } from '../db/repositories/TaskRepository';
+import { WorkItemStateRepository, guessStateCategory, statesFromAdo } from '../db/repositories/WorkItemStateRepository';
 import { WorkItemRepository, workItemRowFromAdo } from '../db/repositories/WorkItemRepository';
+import { LinkRepository } from '../db/repositories/LinkRepository';
+import { workItemKey } from '../model/workItemKey';
+import { UndoStack } from '../undo/UndoStack';
+
+/** The key of work item `id` in the test organization. */
+const key = (id: number) => workItemKey('org', id);
 
 let passed = 0;
 let failed = 0;
@@ -40,13 +50,13 @@ export async function runTests(): Promise<void> {
     await test('reconcileFromWorkItem creates a linked task, then preserves local fields', async () => {
         const db = await Database.openInMemory();
         const tasks = new TaskRepository(db);
-        tasks.reconcileFromWorkItem(42, 'Original title', 'Active');
-        const t1 = tasks.getByAdoId(42)!;
+        tasks.reconcileFromWorkItem(key(42), 'Original title', 'Active');
+        const t1 = tasks.getByWorkItem(key(42))!;
         // user edits local-only fields
         tasks.update(t1.uuid, { notes: 'my notes', todayFlag: 1, whenDate: '2099-01-01' });
         // ADO pull updates the title (mirrored) but must NOT clobber local fields
-        tasks.reconcileFromWorkItem(42, 'New ADO title', 'Active');
-        const t2 = tasks.getByAdoId(42)!;
+        tasks.reconcileFromWorkItem(key(42), 'New ADO title', 'Active');
+        const t2 = tasks.getByWorkItem(key(42))!;
         assert.strictEqual(t2.title, 'New ADO title');
         assert.strictEqual(t2.notes, 'my notes');
         assert.strictEqual(t2.todayFlag, 1);
@@ -56,9 +66,9 @@ export async function runTests(): Promise<void> {
     await test('closed ADO state auto-completes the task into the logbook', async () => {
         const db = await Database.openInMemory();
         const tasks = new TaskRepository(db);
-        tasks.reconcileFromWorkItem(7, 'Fix bug', 'Active');
-        tasks.reconcileFromWorkItem(7, 'Fix bug', 'Closed');
-        const t = tasks.getByAdoId(7)!;
+        tasks.reconcileFromWorkItem(key(7), 'Fix bug', 'Active');
+        tasks.reconcileFromWorkItem(key(7), 'Fix bug', 'Closed');
+        const t = tasks.getByWorkItem(key(7))!;
         assert.ok(t.completedAt, 'expected completedAt to be set');
         assert.strictEqual(t.list, 'logbook');
         assert.strictEqual(tasks.getByList('logbook').length, 1);
@@ -98,17 +108,157 @@ export async function runTests(): Promise<void> {
             'System.AssignedTo': { displayName: 'Ada Lovelace' }
         }, 1, 'org', 'proj');
         repo.upsert(row);
-        const got = repo.getById(100)!;
+        const got = repo.get(key(100))!;
         assert.strictEqual(got.state, 'Active');
         assert.strictEqual(got.type, 'Bug');
         assert.strictEqual(got.assignedTo, 'Ada Lovelace');
     });
 
-    await test('isDoneState recognizes closed/done states', () => {
-        assert.strictEqual(isDoneState('Closed'), true);
-        assert.strictEqual(isDoneState('Done'), true);
-        assert.strictEqual(isDoneState('Active'), false);
-        assert.strictEqual(isDoneState(undefined), false);
+    await test('retireFromWorkItem applies the configured removal action', async () => {
+        const db = await Database.openInMemory();
+        const tasks = new TaskRepository(db);
+        tasks.reconcileFromWorkItem(key(1), 'Kept', 'Active');
+        tasks.reconcileFromWorkItem(key(2), 'Logged', 'Active');
+        tasks.reconcileFromWorkItem(key(3), 'Archived', 'Active');
+
+        const kept = tasks.retireFromWorkItem(key(1), 'keepLocal')!;
+        assert.strictEqual(kept.workItemKey, undefined);
+        assert.strictEqual(kept.list, 'inbox');
+
+        const logged = tasks.retireFromWorkItem(key(2), 'logbook')!;
+        assert.ok(logged.completedAt);
+        assert.strictEqual(logged.list, 'logbook');
+
+        const archived = tasks.retireFromWorkItem(key(3), 'archive')!;
+        assert.ok(archived.canceledAt);
+        assert.strictEqual(archived.completedAt, undefined);
+
+        // Already in the Logbook: nothing further to do.
+        assert.strictEqual(tasks.retireFromWorkItem(key(2), 'archive'), undefined);
+        assert.strictEqual(tasks.retireFromWorkItem(key(999), 'logbook'), undefined);
+    });
+
+    await test('retireFromWorkItem keeps a single local copy of a work item linked twice', async () => {
+        const db = await Database.openInMemory();
+        const tasks = new TaskRepository(db);
+        const first = tasks.reconcileFromWorkItem(key(5), 'Twice', 'Active');
+        tasks.createLocal('Unrelated');
+        const copy = tasks.createLocal('Twice');
+        tasks.update(copy.uuid, { workItemKey: key(5) });
+
+        const kept = tasks.retireFromWorkItem(key(5), 'keepLocal')!;
+        assert.strictEqual(kept.uuid, first.uuid);
+        assert.deepStrictEqual(tasks.all().map(t => [t.title, t.workItemKey]), [['Twice', undefined], ['Unrelated', undefined]]);
+    });
+
+    await test('guessStateCategory maps stock state names when no process states are cached', () => {
+        assert.strictEqual(guessStateCategory('Closed'), 'Completed');
+        assert.strictEqual(guessStateCategory('Done'), 'Completed');
+        assert.strictEqual(guessStateCategory('Resolved'), 'Resolved');
+        assert.strictEqual(guessStateCategory('Removed'), 'Removed');
+        assert.strictEqual(guessStateCategory('Active'), 'InProgress');
+        assert.strictEqual(guessStateCategory(undefined), undefined);
+    });
+
+    await test('state categories drive completion and cancellation, with per-type overrides', async () => {
+        const db = await Database.openInMemory();
+        const tasks = new TaskRepository(db);
+        const overrides = { Bug: { Verified: 'Completed' as const } };
+        const states = new WorkItemStateRepository(db, () => overrides);
+        states.replaceForType('Org', 'Proj', 'Bug', statesFromAdo('Org', 'Proj', 'Bug', [
+            { name: 'New', color: 'b2b2b2', category: 'Proposed' },
+            { name: 'Resolved', color: 'ff9d00', category: 'Resolved' },
+            { name: 'Verified', color: 'ff9d00', category: 'Resolved' },
+            { name: 'Shipped', color: '339933', category: 'Completed' },
+            { name: 'Cut', color: 'ffffff', category: 'Removed' }
+        ]));
+        const reconcile = (adoId: number, state: string) => {
+            const row = workItemRowFromAdo(adoId, { 'System.State': state, 'System.WorkItemType': 'Bug' }, 1, 'Org', 'Proj');
+            return tasks.reconcileFromWorkItem(key(adoId), `Bug ${adoId}`, state, states.categoryOf(row));
+        };
+
+        assert.strictEqual(reconcile(1, 'Resolved').completedAt, undefined, 'Resolved waits for testers');
+        assert.ok(reconcile(1, 'Shipped').completedAt, 'a custom Completed state completes');
+        assert.strictEqual(reconcile(1, 'New').list, 'inbox', 'reopened in ADO');
+
+        const cut = reconcile(2, 'Cut');
+        assert.ok(cut.canceledAt);
+        assert.strictEqual(cut.completedAt, undefined);
+        assert.strictEqual(cut.list, 'logbook');
+
+        assert.ok(reconcile(3, 'Verified').completedAt, 'the override wins over the cached category');
+        assert.strictEqual(states.firstStateIn('Org', 'Proj', 'Bug', 'Completed'), 'Verified');
+        assert.strictEqual(states.firstStateIn('Org', 'Proj', 'Task', 'Completed'), undefined);
+    });
+
+    await test('the same work item ID in two organizations stays two work items', async () => {
+        const db = await Database.openInMemory();
+        const repo = new WorkItemRepository(db);
+        const tasks = new TaskRepository(db);
+        repo.upsert(workItemRowFromAdo(42, { 'System.Title': 'Contoso bug' }, 1, 'https://dev.azure.com/Contoso', 'Web'));
+        repo.upsert(workItemRowFromAdo(42, { 'System.Title': 'Fabrikam bug' }, 1, 'fabrikam', 'App'));
+        tasks.reconcileFromWorkItem(workItemKey('contoso', 42), 'Contoso bug', 'Active');
+        tasks.reconcileFromWorkItem(workItemKey('https://fabrikam.visualstudio.com', 42), 'Fabrikam bug', 'Active');
+
+        assert.strictEqual(repo.all().length, 2);
+        assert.strictEqual(repo.get('contoso/42')!.fields['System.Title'], 'Contoso bug');
+        assert.strictEqual(repo.get('fabrikam/42')!.fields['System.Title'], 'Fabrikam bug');
+        assert.strictEqual(tasks.getByWorkItem('contoso/42')!.title, 'Contoso bug');
+        assert.strictEqual(tasks.getByWorkItem('fabrikam/42')!.title, 'Fabrikam bug');
+    });
+
+    await test('migrating keys existing rows by the organization of their mirrored work item', async () => {
+        const file = path.join(os.tmpdir(), `ado-things-migrate-${process.pid}.json`);
+        fs.writeFileSync(file, JSON.stringify({
+            meta: { schemaVersion: 9 },
+            work_items: [{ adoId: 7, org: 'Contoso', fields: {} }],
+            tasks: [{ uuid: 't1', title: 'Fix', adoId: 7 }],
+            work_item_links: [{ sourceId: 7, targetId: 8, kind: 'child' }, { sourceId: 8, targetId: 7, kind: 'parent' }],
+            work_item_comments: [{ adoId: 7, commentId: 1, text: 'Hi', createdDate: '2024-05-01T08:00:00Z' }],
+            sync_queue: [{ opId: 'op-1', entity: 'workitem', targetId: '7', kind: 'update_state', payload: {} }],
+            undo_journal: [{
+                id: 'u1', kind: 'task', label: 'Edit task', uuid: 't1', createdAt: '2024-05-01T08:00:00Z', stack: 'undo',
+                before: { uuid: 't1', title: 'Fix it', adoId: 7 }, after: { uuid: 't1', title: 'Fix', adoId: 7 }
+            }]
+        }));
+        try {
+            const db = await Database.open(file);
+            assert.strictEqual(db.schemaVersion, LATEST_SCHEMA_VERSION);
+            assert.strictEqual(new WorkItemRepository(db).get('contoso/7')?.adoId, 7);
+            assert.strictEqual(new TaskRepository(db).getByWorkItem('contoso/7')?.uuid, 't1');
+            const links = new LinkRepository(db);
+            assert.deepStrictEqual(links.childrenOf('contoso/7'), ['contoso/8']);
+            assert.strictEqual(links.parentOf('contoso/8'), 'contoso/7', 'an unmirrored end takes the other end\'s org');
+            assert.strictEqual(db.table<{ workItemKey: string }>('work_item_comments')[0].workItemKey, 'contoso/7');
+            assert.strictEqual(db.table<{ targetId: string }>('sync_queue')[0].targetId, 'contoso/7');
+            const tasks = new TaskRepository(db);
+            await new UndoStack(db, tasks).undo();
+            assert.strictEqual(tasks.getByWorkItem('contoso/7')?.title, 'Fix it', 'an undone task keeps its work item');
+            assert.strictEqual('adoId' in tasks.getByUuid('t1')!, false);
+            db.close();
+        } finally {
+            fs.rmSync(file, { force: true });
+        }
+    });
+
+    await test('migrating keys unmirrored work items by their project\'s org, else the default org', async () => {
+        const file = path.join(os.tmpdir(), `ado-things-migrate-org-${process.pid}.json`);
+        fs.writeFileSync(file, JSON.stringify({
+            meta: { schemaVersion: 9 },
+            projects: [{ uuid: 'p1', name: 'Web', adoBinding: { kind: 'areaPath', organization: 'Fabrikam', project: 'Web', path: 'Web' } }],
+            tasks: [{ uuid: 't1', title: 'Filed', adoId: 11, projectUuid: 'p1' }, { uuid: 't2', title: 'Loose', adoId: 12 }],
+            work_item_comments: [{ adoId: 12, commentId: 1, text: 'Hi', createdDate: '2024-05-01T08:00:00Z' }]
+        }));
+        try {
+            const db = await Database.open(file, { defaultOrg: 'https://dev.azure.com/Contoso' });
+            const tasks = new TaskRepository(db);
+            assert.strictEqual(tasks.getByWorkItem('fabrikam/11')?.uuid, 't1');
+            assert.strictEqual(tasks.getByWorkItem('contoso/12')?.uuid, 't2');
+            assert.strictEqual(db.table<{ workItemKey: string }>('work_item_comments')[0].workItemKey, 'contoso/12');
+            db.close();
+        } finally {
+            fs.rmSync(file, { force: true });
+        }
     });
 
     console.log(`\n${passed}/${passed + failed} passed, ${failed} failed`);
@@ -1,13 +1,21 @@
 import * as assert from 'assert';
 import { orderBetween, needsRebalance } from '../views/ordering';
-import { parseQuickEntry } from '../views/quickEntry';
+import { parseQuickEntry, createTaskFromQuickEntry } from '../views/quickEntry';
 import { Database } from '../db/Database';
 import { TaskRepository } from '../db/repositories/TaskRepository';
 import { WorkItemRepository, workItemRowFromAdo } from '../db/repositories/WorkItemRepository';
 import { ProjectRepository } from '../db/repositories/ProjectRepository';
 import { TagRepository } from '../db/repositories/TagRepository';
+import { ChecklistRepository } from '../db/repositories/ChecklistRepository';
+import { LinkRepository } from '../db/repositories/LinkRepository';
+import { HistoryRepository, updateFromAdo } from '../db/repositories/HistoryRepository';
+import { FieldMetadataRepository, fieldMetadataFromAdo } from '../db/repositories/FieldMetadataRepository';
 import { ViewModelBuilder } from '../views/ViewModelBuilder';
 import { UndoStack } from '../undo/UndoStack';
+import { workItemKey } from '../model/workItemKey';
+
+/** The key of work item `id` in the test organization. */
+const key = (id: number) => workItemKey('org', id);
 
 let passed = 0;
 let failed = 0;
@@ -56,6 +64,94 @@ export async function runTests(): Promise<void> {
         assert.strictEqual(parsed.whenDate, '2026-06-24');
     });
 
+    await test('parseQuickEntry resolves weekdays, next week and relative offsets', () => {
+        const now = new Date('2026-06-24T12:00:00'); // a Wednesday
+        assert.strictEqual(parseQuickEntry('Demo friday', now).whenDate, '2026-06-26');
+        assert.strictEqual(parseQuickEntry('Standup on Wednesday', now).whenDate, '2026-07-01');
+        assert.strictEqual(parseQuickEntry('Standup on Wednesday', now).title, 'Standup');
+        assert.strictEqual(parseQuickEntry('Plan next week', now).whenDate, '2026-06-29');
+        assert.strictEqual(parseQuickEntry('Renew in 3 days', now).whenDate, '2026-06-27');
+        assert.strictEqual(parseQuickEntry('Renew in 2 weeks', now).whenDate, '2026-07-08');
+        assert.strictEqual(parseQuickEntry('Renew in a month', now).whenDate, '2026-07-24');
+    });
+
+    await test('parseQuickEntry resolves absolute dates, rolling past ones into next year', () => {
+        const now = new Date('2026-06-24T12:00:00');
+        assert.strictEqual(parseQuickEntry('Ship 2026-11-03', now).whenDate, '2026-11-03');
+        assert.strictEqual(parseQuickEntry('Ship nov 3', now).whenDate, '2026-11-03');
+        assert.strictEqual(parseQuickEntry('Ship 3rd November 2027', now).whenDate, '2027-11-03');
+        assert.strictEqual(parseQuickEntry('Taxes Jan 15', now).whenDate, '2027-01-15');
+        const invalid = parseQuickEntry('Party feb 30', now);
+        assert.strictEqual(invalid.whenDate, undefined);
+        assert.strictEqual(invalid.title, 'Party feb 30');
+    });
+
+    await test('parseQuickEntry keeps the local date east of UTC', () => {
+        const tz = process.env.TZ;
+        process.env.TZ = 'Asia/Tokyo';
+        try {
+            const now = new Date(2026, 5, 24, 9, 0); // Wednesday morning in Tokyo, still Tuesday in UTC
+            assert.strictEqual(parseQuickEntry('x today', now).whenDate, '2026-06-24');
+            assert.strictEqual(parseQuickEntry('Demo friday', now).whenDate, '2026-06-26');
+            assert.strictEqual(parseQuickEntry('Ship nov 3', now).whenDate, '2026-11-03');
+            assert.strictEqual(now.getHours(), 9, 'the caller\'s date is left alone');
+        } finally {
+            if (tz === undefined) delete process.env.TZ;
+            else process.env.TZ = tz;
+        }
+    });
+
+    await test('parseQuickEntry reads deadline, project, list, priority and type', () => {
+        const now = new Date('2026-06-24T12:00:00');
+        const raw = 'Fix login crash !friday @Website-Redesign p1 type:bug #urgent tomorrow';
+        const parsed = parseQuickEntry(raw, now);
+        assert.strictEqual(parsed.title, 'Fix login crash');
+        assert.strictEqual(parsed.deadline, '2026-06-26');
+        assert.strictEqual(parsed.whenDate, '2026-06-25');
+        assert.strictEqual(parsed.project, 'Website-Redesign');
+        assert.strictEqual(parsed.priority, 1);
+        assert.strictEqual(parsed.workItemType, 'Bug');
+        assert.deepStrictEqual(parsed.tags, ['urgent']);
+        assert.deepStrictEqual(parsed.tokens.map(t => raw.slice(t.start, t.end)),
+            ['!friday', '@Website-Redesign', 'p1', 'type:bug', '#urgent', 'tomorrow']);
+
+        const quoted = parseQuickEntry('Write spec type:"User Story" @"Q3 Roadmap" someday', now);
+        assert.strictEqual(quoted.title, 'Write spec');
+        assert.strictEqual(quoted.workItemType, 'User Story');
+        assert.strictEqual(quoted.project, 'Q3 Roadmap');
+        assert.strictEqual(quoted.list, 'someday');
+    });
+
+    await test('parseQuickEntry leaves embedded look-alikes in the title', () => {
+        const parsed = parseQuickEntry('Email bob@contoso.com about p5 and sundays');
+        assert.strictEqual(parsed.title, 'Email bob@contoso.com about p5 and sundays');
+        assert.strictEqual(parsed.tokens.length, 0);
+    });
+
+    await test('createTaskFromQuickEntry fills every parsed field', async () => {
+        const db = await Database.openInMemory();
+        const tasks = new TaskRepository(db);
+        const tags = new TagRepository(db);
+        const projects = new ProjectRepository(db, tasks);
+        const site = projects.createProject('Website Redesign');
+        const now = new Date('2026-06-24T12:00:00');
+
+        const parsed = parseQuickEntry('Fix login !2026-07-01 @website-redesign p2 type:Bug #web', now);
+        const { task, unknownProject } = createTaskFromQuickEntry(parsed, 'raw', 'inbox', { tasks, tags, projects });
+        assert.strictEqual(unknownProject, undefined);
+        assert.strictEqual(task.title, 'Fix login');
+        assert.strictEqual(task.list, 'anytime', 'a task filed under a project skips the Inbox');
+        assert.strictEqual(task.projectUuid, site.uuid);
+        assert.strictEqual(task.deadline, '2026-07-01');
+        assert.strictEqual(task.priority, 2);
+        assert.strictEqual(task.workItemType, 'Bug');
+        assert.deepStrictEqual(task.tagIds, [tags.getOrCreate('web').id]);
+
+        const orphan = createTaskFromQuickEntry(parseQuickEntry('Thing @nowhere', now), 'raw', 'inbox', { tasks, projects });
+        assert.strictEqual(orphan.unknownProject, 'nowhere');
+        assert.strictEqual(orphan.task.list, 'inbox');
+    });
+
     await test('TaskRepository.reorder positions between siblings', async () => {
         const db = await Database.openInMemory();
         const tasks = new TaskRepository(db);
@@ -95,17 +191,116 @@ export async function runTests(): Promise<void> {
     await test('UndoStack restores a completed task', async () => {
         const db = await Database.openInMemory();
         const tasks = new TaskRepository(db);
-        const undo = new UndoStack();
+        const undo = new UndoStack(db, tasks);
         const t = tasks.createLocal('Reversible');
         const snap = tasks.snapshot(t.uuid)!;
         tasks.complete(t.uuid);
-        undo.push('Complete task', () => tasks.restoreSnapshot(snap));
+        undo.recordTask('Complete task', t.uuid, snap);
         assert.strictEqual(tasks.getByList('logbook').length, 1);
-        undo.undo();
+        await undo.undo();
         assert.strictEqual(tasks.getByList('logbook').length, 0);
         assert.strictEqual(tasks.getByList('inbox').length, 1);
     });
 
+    await test('UndoStack redoes, and a new change clears the redo side', async () => {
+        const db = await Database.openInMemory();
+        const tasks = new TaskRepository(db);
+        const undo = new UndoStack(db, tasks);
+        const t = tasks.createLocal('Created');
+        undo.recordTask('Add task', t.uuid, undefined);
+        assert.strictEqual(await undo.undo(), 'Add task');
+        assert.strictEqual(tasks.getByUuid(t.uuid), undefined);
+        assert.strictEqual(await undo.redo(), 'Add task');
+        assert.strictEqual(tasks.getByUuid(t.uuid)!.title, 'Created');
+        await undo.undo();
+        const other = tasks.createLocal('Other');
+        undo.recordTask('Add task', other.uuid, undefined);
+        assert.strictEqual(undo.canRedo, false);
+        assert.strictEqual(await undo.redo(), undefined);
+    });
+
+    await test('UndoStack undoes and redoes a move to another project', async () => {
+        const db = await Database.openInMemory();
+        const tasks = new TaskRepository(db);
+        const projects = new ProjectRepository(db, tasks);
+        const undo = new UndoStack(db, tasks);
+        const p = projects.createProject('Launch');
+        const t = tasks.createLocal('Movable');
+        const before = tasks.snapshot(t.uuid);
+        tasks.assignToProject(t.uuid, p.uuid);
+        undo.recordTask('Move to Launch', t.uuid, before);
+        assert.strictEqual(await undo.undo(), 'Move to Launch');
+        assert.strictEqual(tasks.getByUuid(t.uuid)!.projectUuid, undefined);
+        assert.strictEqual(await undo.redo(), 'Move to Launch');
+        assert.strictEqual(tasks.getByUuid(t.uuid)!.projectUuid, p.uuid);
+    });
+
+    await test('UndoStack history is persisted in the database', async () => {
+        const db = await Database.openInMemory();
+        const tasks = new TaskRepository(db);
+        const t = tasks.createLocal('Old title');
+        const snap = tasks.snapshot(t.uuid);
+        tasks.update(t.uuid, { title: 'New title' });
+        new UndoStack(db, tasks).recordTask('Edit task', t.uuid, snap);
+        // A fresh stack over the same DB (as after a reload) can still undo it.
+        assert.strictEqual(db.table('undo_journal').length, 1);
+        await new UndoStack(db, tasks).undo();
+        assert.strictEqual(tasks.getByUuid(t.uuid)!.title, 'Old title');
+    });
+
+    await test('undoing an ADO edit discards it if queued, else queues a compensating op', async () => {
+        const db = await Database.openInMemory();
+        const tasks = new TaskRepository(db);
+        const discarded: string[] = [];
+        const enqueued: [string, string, unknown][] = [];
+        const pushed = new Set(['op-pushed']);
+        const undo = new UndoStack(db, tasks, {
+            discard: (opId) => !pushed.has(opId) && discarded.push(opId) > 0,
+            enqueueFieldUpdate: async (workItem, field, value) => {
+                enqueued.push([workItem, field, value]);
+                return `op-${enqueued.length}`;
+            }
+        });
+        undo.recordAdoField('Edit Priority', key(55), 'Microsoft.VSTS.Common.Priority', 3, 1, 'op-queued');
+        await undo.undo();
+        assert.deepStrictEqual(discarded, ['op-queued']);
+        assert.strictEqual(enqueued.length, 0);
+
+        undo.recordAdoField('Edit Priority', key(55), 'Microsoft.VSTS.Common.Priority', 3, 2, 'op-pushed');
+        await undo.undo();
+        assert.deepStrictEqual(enqueued, [[key(55), 'Microsoft.VSTS.Common.Priority', 3]]);
+        await undo.redo();
+        assert.deepStrictEqual(enqueued[1], [key(55), 'Microsoft.VSTS.Common.Priority', 2]);
+    });
+
+    await test('UndoStack undoes a completed task and the state change it caused together', async () => {
+        const db = await Database.openInMemory();
+        const tasks = new TaskRepository(db);
+        const discarded: string[] = [];
+        const enqueued: [string, string, unknown][] = [];
+        const undo = new UndoStack(db, tasks, {
+            discard: (opId) => discarded.push(opId) > 0,
+            enqueueFieldUpdate: async (workItem, field, value) => {
+                enqueued.push([workItem, field, value]);
+                return `op-${enqueued.length}`;
+            }
+        });
+        const t = tasks.createLocal('Ship it');
+        const snap = tasks.snapshot(t.uuid)!;
+        tasks.complete(t.uuid);
+        undo.recordTask('Complete task', t.uuid, snap);
+        undo.attachAdoField(t.uuid, 'Change state to Closed', key(60), 'System.State', 'Active', 'Closed', 'op-close');
+
+        assert.strictEqual(await undo.undo(), 'Complete task');
+        assert.strictEqual(tasks.getByList('logbook').length, 0);
+        assert.deepStrictEqual(discarded, ['op-close']);
+        assert.strictEqual(undo.canUndo, false, 'one entry covers both changes');
+
+        await undo.redo();
+        assert.strictEqual(tasks.getByList('logbook').length, 1);
+        assert.deepStrictEqual(enqueued, [[key(60), 'System.State', 'Closed']]);
+    });
+
     await test('buildDetail exposes rich ADO fields for a linked task', async () => {
         const db = await Database.openInMemory();
         const tasks = new TaskRepository(db);
@@ -121,10 +316,10 @@ export async function runTests(): Promise<void> {
             'System.IterationPath': 'Contoso\\Sprint 5',
             'Microsoft.VSTS.Common.Priority': 1
         }, 3, 'Contoso', 'Web'));
-        tasks.reconcileFromWorkItem(321, 'Investigate latency', 'Active');
+        tasks.reconcileFromWorkItem(workItemKey('Contoso', 321), 'Investigate latency', 'Active');
 
         const builder = new ViewModelBuilder(tasks, wi, tags);
-        const task = tasks.getByAdoId(321)!;
+        const task = tasks.getByWorkItem(workItemKey('Contoso', 321))!;
         const detail = builder.buildDetail(task.uuid)!;
 
         assert.strictEqual(detail.adoId, 321);
@@ -137,6 +332,139 @@ export async function runTests(): Promise<void> {
         assert.strictEqual(byLabel('Priority'), '1');
     });
 
+    await test('ChecklistRepository adds, toggles, reorders and removes items', async () => {
+        const db = await Database.openInMemory();
+        const tasks = new TaskRepository(db);
+        const checklists = new ChecklistRepository(db);
+        const t = tasks.createLocal('Release');
+        const [a, b, c] = ['Tag build', 'Write notes', 'Announce'].map(text => checklists.add(t.uuid, text));
+        checklists.add(tasks.createLocal('Other').uuid, 'Elsewhere');
+
+        checklists.toggle(b.id);
+        checklists.reorder(c.id, undefined, a.id);
+        assert.deepStrictEqual(checklists.forTask(t.uuid).map(i => i.text), ['Announce', 'Tag build', 'Write notes']);
+        assert.deepStrictEqual(checklists.progress(t.uuid), { done: 1, total: 3 });
+
+        checklists.remove(b.id);
+        assert.deepStrictEqual(checklists.progress(t.uuid), { done: 0, total: 2 });
+        assert.ok(db.table('checklist_items').some((i: { text: string }) => i.text === 'Elsewhere'));
+    });
+
+    await test('view models carry checklist progress and items', async () => {
+        const db = await Database.openInMemory();
+        const tasks = new TaskRepository(db);
+        const checklists = new ChecklistRepository(db);
+        const builder = new ViewModelBuilder(tasks, new WorkItemRepository(db), new TagRepository(db), checklists);
+        const plain = tasks.createLocal('No steps');
+        const t = tasks.createLocal('Steps');
+        const first = checklists.add(t.uuid, 'One');
+        checklists.add(t.uuid, 'Two');
+        checklists.toggle(first.id);
+
+        assert.strictEqual(builder.toVM(plain).checklist, undefined);
+        assert.deepStrictEqual(builder.toVM(t).checklist, { done: 1, total: 2 });
+        assert.deepStrictEqual(builder.buildDetail(t.uuid)!.checklist,
+            [{ id: first.id, text: 'One', done: true }, { id: first.id + 1, text: 'Two', done: false }]);
+    });
+
+    await test('child work items nest under their parent with rolled-up progress', async () => {
+        const db = await Database.openInMemory();
+        const tasks = new TaskRepository(db);
+        const wi = new WorkItemRepository(db);
+        const links = new LinkRepository(db);
+        for (const [id, title, state] of [[100, 'Feature', 'Active'], [101, 'Step one', 'Closed'], [102, 'Step two', 'Active'], [103, 'Elsewhere', 'Active']] as const) {
+            wi.upsert(workItemRowFromAdo(id, { 'System.Title': title, 'System.State': state, 'System.WorkItemType': 'Task' }, 1, 'Org', 'Proj'));
+            tasks.reconcileFromWorkItem(key(id), title, state);
+        }
+        links.add({ sourceKey: key(100), targetKey: key(101), kind: 'child' });
+        links.add({ sourceKey: key(100), targetKey: key(102), kind: 'child' });
+        links.add({ sourceKey: key(103), targetKey: key(900), kind: 'parent' });
+        const builder = new ViewModelBuilder(tasks, wi, new TagRepository(db), undefined, links);
+
+        const inbox = builder.build('inbox').groups.flatMap(g => g.tasks);
+        const feature = inbox.find(t => t.adoId === 100)!;
+        assert.deepStrictEqual(feature.children!.map(c => c.adoId), [102], 'closed child sits in the logbook, not the inbox');
+        assert.deepStrictEqual(feature.childProgress, { done: 1, total: 2 });
+        assert.ok(!inbox.some(t => t.adoId === 102), 'nested, not repeated at the top level');
+        assert.deepStrictEqual(inbox.find(t => t.adoId === 103)!.parent, { workItemKey: key(900), adoId: 900, title: undefined }, 'parent outside the view stays a hint');
+
+        const detail = builder.buildDetail(tasks.getByWorkItem(key(100))!.uuid)!;
+        assert.deepStrictEqual(detail.childProgress, { done: 1, total: 2 });
+        assert.deepStrictEqual(detail.links.map(l => [l.targetId, l.done]), [[101, true], [102, false]]);
+    });
+
+    await test('cached process metadata drives picklists, read-only flags and custom fields', async () => {
+        const db = await Database.openInMemory();
+        const tasks = new TaskRepository(db);
+        const wi = new WorkItemRepository(db);
+        const fields = new FieldMetadataRepository(db);
+        wi.upsert(workItemRowFromAdo(70, { 'System.Title': 'Tune cache', 'System.State': 'Active', 'System.WorkItemType': 'Bug', 'Microsoft.VSTS.Common.Priority': 2, 'Custom.Team': 'Blue' }, 1, 'Org', 'Proj'));
+        tasks.reconcileFromWorkItem(key(70), 'Tune cache', 'Active');
+        fields.replaceForType('Org', 'Proj', 'Bug', fieldMetadataFromAdo('Org', 'Proj', 'Bug', [
+            { referenceName: 'Microsoft.VSTS.Common.Priority', name: 'Priority', allowedValues: [1, 2, 3] },
+            { referenceName: 'Microsoft.VSTS.Scheduling.Effort', name: 'Effort' },
+            { referenceName: 'Custom.Team', name: 'Team', alwaysRequired: true, allowedValues: ['Blue', 'Green'], helpText: 'Owning team' }
+        ], [
+            { referenceName: 'Microsoft.VSTS.Common.Priority', name: 'Priority', type: 'integer' },
+            { referenceName: 'Microsoft.VSTS.Scheduling.Effort', name: 'Effort', type: 'double', readOnly: true },
+            { referenceName: 'Custom.Team', name: 'Team', type: 'string' }
+        ]));
+        const builder = new ViewModelBuilder(tasks, wi, new TagRepository(db), undefined, undefined, undefined, undefined, undefined, undefined, fields);
+
+        const detail = builder.buildDetail(tasks.getByWorkItem(key(70))!.uuid, ['Microsoft.VSTS.Common.Priority', 'Microsoft.VSTS.Scheduling.Effort', 'Custom.Team'])!;
+        const byRef = new Map(detail.fields.map(f => [f.ref, f]));
+        assert.deepStrictEqual(byRef.get('Microsoft.VSTS.Common.Priority')!.options, ['1', '2', '3'], 'allowed values replace the built-in 1..4');
+        assert.ok(!byRef.has('Microsoft.VSTS.Scheduling.Effort'), 'read-only in this process, and empty');
+        const team = byRef.get('Custom.Team')!;
+        assert.deepStrictEqual([team.label, team.value, team.control, team.editable, team.required, team.helpText, team.options],
+            ['Team', 'Blue', 'enum', true, true, 'Owning team', ['Blue', 'Green']]);
+    });
+
+    await test('field metadata per project keeps a custom field cached for another project', async () => {
+        const db = await Database.openInMemory();
+        const fields = new FieldMetadataRepository(db);
+        const team = [{ referenceName: 'Custom.Team', name: 'Team' }];
+        fields.replaceForType('Org', 'Web', 'Bug', fieldMetadataFromAdo('Org', 'Web', 'Bug', team, []));
+        fields.replaceForType('Org', 'Mobile', 'Bug', fieldMetadataFromAdo('Org', 'Mobile', 'Bug', team, []));
+        assert.deepStrictEqual(fields.forProject('Org', 'Mobile').map(f => [f.project, f.ref]), [['Mobile', 'Custom.Team']]);
+        assert.deepStrictEqual(fields.forProject('Other', 'Mobile'), []);
+        assert.strictEqual(fields.allFields().length, 1);
+    });
+
+    await test('revision history caches updates and renders a field-by-field timeline', async () => {
+        const db = await Database.openInMemory();
+        const tasks = new TaskRepository(db);
+        const wi = new WorkItemRepository(db);
+        const history = new HistoryRepository(db);
+        wi.upsert(workItemRowFromAdo(80, { 'System.Title': 'Fix login', 'System.State': 'Resolved', 'System.WorkItemType': 'Bug' }, 3, 'Org', 'Proj'));
+        wi.upsert(workItemRowFromAdo(81, { 'System.Title': 'Auth epic', 'System.State': 'Active', 'System.WorkItemType': 'Epic' }, 1, 'Org', 'Proj'));
+        tasks.reconcileFromWorkItem(key(80), 'Fix login', 'Resolved');
+        const builder = new ViewModelBuilder(tasks, wi, new TagRepository(db), undefined, undefined, undefined, undefined, history);
+
+        history.append([
+            updateFromAdo(key(80), { id: 1, rev: 1, revisedBy: { displayName: 'Bob' }, fields: {
+                'System.Title': { newValue: 'Fix login' }, 'System.State': { newValue: 'New' }, 'System.ChangedDate': { newValue: '2024-05-01T09:00:00Z' }
+            } }),
+            updateFromAdo(key(80), { id: 2, rev: 2, revisedBy: { displayName: 'Ada' }, fields: { 'System.Rev': { oldValue: 1, newValue: 2 } } }),
+            updateFromAdo(key(80), { id: 3, rev: 3, revisedBy: { displayName: 'Ada' }, fields: {
+                'System.State': { oldValue: 'New', newValue: 'Resolved' },
+                'System.AssignedTo': { newValue: { displayName: 'Ada Lovelace', uniqueName: 'ada@contoso.com' } },
+                'System.ChangedDate': { newValue: '2024-05-03T09:00:00Z' }
+            }, relations: { added: [{ rel: 'System.LinkTypes.Hierarchy-Reverse', url: 'https://dev.azure.com/org/_apis/wit/workItems/81' }] } })
+        ]);
+        history.append([updateFromAdo(key(80), { id: 3, fields: {} })]);
+        assert.strictEqual(history.lastUpdateId(key(80)), 3);
+        assert.strictEqual(history.forWorkItem(key(80)).length, 3, 'already cached updates are not duplicated');
+
+        const timeline = builder.buildDetail(tasks.getByWorkItem(key(80))!.uuid)!.history!;
+        assert.deepStrictEqual(timeline.map(e => [e.updateId, e.by, e.created]), [[3, 'Ada', undefined], [1, 'Bob', true]], 'bookkeeping-only saves are skipped');
+        assert.deepStrictEqual(timeline[0].changes, [
+            { label: 'State', from: 'New', to: 'Resolved' },
+            { label: 'Assigned To', from: '', to: 'Ada Lovelace' },
+            { label: 'Parent', from: '', to: '#81 Auth epic' }
+        ]);
+    });
+
     await test('buildDetail marks a local-only task as not in ADO', async () => {
         const db = await Database.openInMemory();
         const tasks = new TaskRepository(db);
@@ -156,9 +484,9 @@ export async function runTests(): Promise<void> {
             'System.Title': 'X', 'System.State': 'Active', 'System.WorkItemType': 'Task',
             'Microsoft.VSTS.Common.Priority': 2, 'System.AssignedTo': { displayName: 'Bob' }
         }, 1, 'Org', 'Proj'));
-        tasks.reconcileFromWorkItem(50, 'X', 'Active');
+        tasks.reconcileFromWorkItem(key(50), 'X', 'Active');
         const builder = new ViewModelBuilder(tasks, wi, new TagRepository(db));
-        const t = tasks.getByAdoId(50)!;
+        const t = tasks.getByWorkItem(key(50))!;
         // Only Priority + AssignedTo, in that order.
         const detail = builder.buildDetail(t.uuid, ['Microsoft.VSTS.Common.Priority', 'System.AssignedTo'])!;
         assert.strictEqual(detail.fields.length, 2);
@@ -177,9 +505,9 @@ export async function runTests(): Promise<void> {
             'System.Title': 'Y', 'System.State': 'Active', 'System.WorkItemType': 'Task',
             'System.AssignedTo': { displayName: 'Ada Lovelace', uniqueName: 'ada@contoso.com' }
         }, 1, 'Org', 'Proj'));
-        tasks.reconcileFromWorkItem(60, 'Y', 'Active');
+        tasks.reconcileFromWorkItem(key(60), 'Y', 'Active');
         const builder = new ViewModelBuilder(tasks, wi, new TagRepository(db));
-        const t = tasks.getByAdoId(60)!;
+        const t = tasks.getByWorkItem(key(60))!;
         const detail = builder.buildDetail(t.uuid, ['System.AssignedTo'])!;
         const assignee = detail.fields[0];
         assert.strictEqual(assignee.label, 'Assigned To');
@@ -196,9 +524,9 @@ export async function runTests(): Promise<void> {
             'System.Title': 'Z', 'System.State': 'Active', 'System.WorkItemType': 'Task',
             'System.Description': '<div>Hello</div>'
         }, 1, 'Org', 'Proj'));
-        tasks.reconcileFromWorkItem(70, 'Z', 'Active');
+        tasks.reconcileFromWorkItem(key(70), 'Z', 'Active');
         const builder = new ViewModelBuilder(tasks, wi, new TagRepository(db));
-        const adoTask = tasks.getByAdoId(70)!;
+        const adoTask = tasks.getByWorkItem(key(70))!;
         const adoDetail = builder.buildDetail(adoTask.uuid, ['System.Description'])!;
         assert.strictEqual(adoDetail.descriptionEditable, true);
         assert.ok(adoDetail.description && adoDetail.description.includes('Hello'));
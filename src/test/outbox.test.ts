@@ -1,10 +1,23 @@
 import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import { Database } from '../db/Database';
 import { WorkItemRepository, workItemRowFromAdo } from '../db/repositories/WorkItemRepository';
 import { TaskRepository } from '../db/repositories/TaskRepository';
-import { OutboxProcessor } from '../sync/OutboxProcessor';
-import { ConflictResolver, ConflictChoice } from '../sync/ConflictResolver';
-import type { AdoRestClient, PatchResult } from '../ado/AdoRestClient';
+import { SyncQueueRepository } from '../db/repositories/SyncQueueRepository';
+import { LinkRepository, linksFromRelations } from '../db/repositories/LinkRepository';
+import { CommentRepository } from '../db/repositories/CommentRepository';
+import { AttachmentRepository, attachmentsFromRelations } from '../db/repositories/AttachmentRepository';
+import { OutboxProcessor, backoffDelayMs } from '../sync/OutboxProcessor';
+import { ConflictResolver, ConflictChoice, mergeTags } from '../sync/ConflictResolver';
+import { ConflictQueue } from '../sync/ConflictQueue';
+import type { AdoRestClient, PatchResult, JsonPatchOp, CommentResult, UploadResult } from '../ado/AdoRestClient';
+import { retryDelayFromHeaders } from '../ado/AdoRestClient';
+import { workItemKey } from '../model/workItemKey';
+
+/** The key of work item `id` in the test organization. */
+const key = (id: number) => workItemKey('org', id);
 
 let passed = 0;
 let failed = 0;
@@ -24,19 +37,44 @@ async function test(name: string, fn: () => void | Promise<void>): Promise<void>
 /** A scriptable fake REST client. */
 class FakeRest {
     patchResults: PatchResult[] = [];
-    patchCalls: { id: number; etag?: string }[] = [];
+    patchCalls: { id: number; etag?: string; ops: JsonPatchOp[] }[] = [];
     serverState = 'Active';
     serverEtag = 'etag-2';
+    serverFields: Record<string, unknown> = {};
+    serverRelations: { rel: string; url: string }[] = [];
+    commentResults: CommentResult[] = [];
+    commentCalls: { id: number; text: string }[] = [];
+    uploadCalls: { fileName: string; bytes: number }[] = [];
+
+    orgUrl(org: string): string {
+        return `https://dev.azure.com/${org}`;
+    }
 
-    async patchWorkItem(_org: string, _project: string, id: number, _ops: unknown, etag?: string): Promise<PatchResult> {
-        this.patchCalls.push({ id, etag });
+    async patchWorkItem(_org: string, _project: string, id: number, ops: JsonPatchOp[], etag?: string): Promise<PatchResult> {
+        this.patchCalls.push({ id, etag, ops });
         const next = this.patchResults.shift();
         if (next) return next;
         return { success: true, workItem: { id, fields: {} } as any, etag: 'etag-new', rev: 2 };
     }
 
+    async addComment(_org: string, _project: string, id: number, text: string): Promise<CommentResult> {
+        this.commentCalls.push({ id, text });
+        const next = this.commentResults.shift();
+        if (next) return next;
+        return { success: true, comment: { id: 900 + this.commentCalls.length, text, createdBy: { displayName: 'Ada' }, createdDate: '2024-05-02T10:00:00Z' } };
+    }
+
+    async uploadAttachment(_org: string, _project: string, fileName: string, content: Uint8Array): Promise<UploadResult> {
+        this.uploadCalls.push({ fileName, bytes: content.length });
+        return { success: true, url: `https://dev.azure.com/org/proj/_apis/wit/attachments/guid-${this.uploadCalls.length}` };
+    }
+
     async getWorkItem(_org: string, _project: string, id: number) {
-        return { workItem: { id, fields: { 'System.State': this.serverState } } as any, etag: this.serverEtag, rev: 2 };
+        return {
+            workItem: { id, fields: { 'System.State': this.serverState, ...this.serverFields }, relations: this.serverRelations } as any,
+            etag: this.serverEtag,
+            rev: 2
+        };
     }
 }
 
@@ -46,7 +84,7 @@ function seedWorkItem(db: Database): void {
     row.etag = 'etag-1';
     repo.upsert(row);
     const tasks = new TaskRepository(db);
-    tasks.reconcileFromWorkItem(55, 'Do thing', 'New');
+    tasks.reconcileFromWorkItem(key(55), 'Do thing', 'New');
 }
 
 export async function runTests(): Promise<void> {
@@ -59,11 +97,11 @@ export async function runTests(): Promise<void> {
         rest.patchResults = [{ success: true, workItem: { id: 55, fields: {} } as any, etag: 'etag-9', rev: 3 }];
         const resolver = new ConflictResolver(rest as unknown as AdoRestClient, new WorkItemRepository(db), async () => 'theirs', () => {});
         const proc = new OutboxProcessor(db, rest as unknown as AdoRestClient, resolver, () => {});
-        proc.enqueueStateChange(55, 'Active');
+        proc.enqueueStateChange(key(55), 'Active');
         assert.strictEqual(proc.pendingCount, 1);
         await proc.process();
         assert.strictEqual(proc.pendingCount, 0);
-        const wi = new WorkItemRepository(db).getById(55)!;
+        const wi = new WorkItemRepository(db).get(key(55))!;
         assert.strictEqual(wi.state, 'Active');
         assert.strictEqual(wi.etag, 'etag-9');
     });
@@ -76,7 +114,7 @@ export async function runTests(): Promise<void> {
         rest.serverState = 'Active'; // server already moved to what we wanted
         const resolver = new ConflictResolver(rest as unknown as AdoRestClient, new WorkItemRepository(db), async () => 'theirs', () => {});
         const proc = new OutboxProcessor(db, rest as unknown as AdoRestClient, resolver, () => {});
-        proc.enqueueStateChange(55, 'Active');
+        proc.enqueueStateChange(key(55), 'Active');
         await proc.process();
         assert.strictEqual(proc.pendingCount, 0, 'op should be resolved');
     });
@@ -94,7 +132,7 @@ export async function runTests(): Promise<void> {
         const choice: ConflictChoice = 'mine';
         const resolver = new ConflictResolver(rest as unknown as AdoRestClient, new WorkItemRepository(db), async () => choice, () => {});
         const proc = new OutboxProcessor(db, rest as unknown as AdoRestClient, resolver, () => {});
-        proc.enqueueStateChange(55, 'Done');
+        proc.enqueueStateChange(key(55), 'Done');
         await proc.process();
         assert.strictEqual(proc.pendingCount, 0, 'op should be done after retry');
         // second patch call used the fresh etag
@@ -108,11 +146,115 @@ export async function runTests(): Promise<void> {
         rest.patchResults = [{ success: false, error: { status: 429, message: 'throttled' } }];
         const resolver = new ConflictResolver(rest as unknown as AdoRestClient, new WorkItemRepository(db), async () => 'theirs', () => {});
         const proc = new OutboxProcessor(db, rest as unknown as AdoRestClient, resolver, () => {});
-        proc.enqueueStateChange(55, 'Active');
+        proc.enqueueStateChange(key(55), 'Active');
         await proc.process();
         assert.strictEqual(proc.pendingCount, 1, 'op should remain pending for retry');
     });
 
+    await test('412 where only we changed the field reapplies it without prompting', async () => {
+        const db = await Database.openInMemory();
+        seedWorkItem(db);
+        const rest = new FakeRest();
+        rest.patchResults = [{ success: false, conflict: true, error: { status: 412, message: 'conflict' } }];
+        rest.serverState = 'New';
+        rest.serverFields = { 'System.Title': 'Renamed on server' };
+        rest.serverEtag = 'etag-fresh';
+        const resolver = new ConflictResolver(rest as unknown as AdoRestClient, new WorkItemRepository(db), async () => { throw new Error('should not prompt'); }, () => {});
+        const proc = new OutboxProcessor(db, rest as unknown as AdoRestClient, resolver, () => {});
+        proc.enqueueFieldUpdate(key(55), 'Microsoft.VSTS.Common.Priority', 2);
+        await proc.process();
+        assert.strictEqual(proc.pendingCount, 0);
+        assert.strictEqual(rest.patchCalls[1].etag, 'etag-fresh');
+        assert.deepStrictEqual(rest.patchCalls[1].ops, [{ op: 'add', path: '/fields/Microsoft.VSTS.Common.Priority', value: 2 }]);
+    });
+
+    await test('412 where only the server changed the field takes theirs without prompting', async () => {
+        const db = await Database.openInMemory();
+        seedWorkItem(db);
+        const rest = new FakeRest();
+        rest.patchResults = [{ success: false, conflict: true, error: { status: 412, message: 'conflict' } }];
+        rest.serverState = 'Resolved';
+        const resolver = new ConflictResolver(rest as unknown as AdoRestClient, new WorkItemRepository(db), async () => { throw new Error('should not prompt'); }, () => {});
+        const proc = new OutboxProcessor(db, rest as unknown as AdoRestClient, resolver, () => {});
+        proc.enqueueStateChange(key(55), 'Active');
+        proc.enqueueStateChange(key(55), 'New'); // net effect: back to the base value
+        await proc.process();
+        assert.strictEqual(proc.pendingCount, 0);
+        assert.strictEqual(rest.patchCalls.length, 1, 'nothing left to push');
+        assert.strictEqual(new WorkItemRepository(db).get(key(55))!.state, 'Resolved');
+    });
+
+    await test('412 on System.Tags merges both sides instead of prompting', async () => {
+        const db = await Database.openInMemory();
+        seedWorkItem(db);
+        new WorkItemRepository(db).get(key(55))!.fields['System.Tags'] = 'alpha; beta';
+        const rest = new FakeRest();
+        rest.patchResults = [{ success: false, conflict: true, error: { status: 412, message: 'conflict' } }];
+        rest.serverState = 'New';
+        rest.serverFields = { 'System.Tags': 'alpha; beta; delta' };
+        const resolver = new ConflictResolver(rest as unknown as AdoRestClient, new WorkItemRepository(db), async () => { throw new Error('should not prompt'); }, () => {});
+        const proc = new OutboxProcessor(db, rest as unknown as AdoRestClient, resolver, () => {});
+        proc.enqueueFieldUpdate(key(55), 'System.Tags', 'alpha; gamma');
+        await proc.process();
+        assert.strictEqual(proc.pendingCount, 0);
+        assert.strictEqual(rest.patchCalls[1].ops[0].value, 'alpha; delta; gamma');
+    });
+
+    await test('queued conflicts wait for an answer, then push the decision', async () => {
+        const db = await Database.openInMemory();
+        seedWorkItem(db);
+        const rest = new FakeRest();
+        const conflict = { success: false, conflict: true, error: { status: 412, message: 'conflict' } };
+        rest.patchResults = [conflict, conflict];
+        rest.serverState = 'Resolved';
+        rest.serverEtag = 'etag-fresh';
+        rest.serverFields = { 'System.ChangedBy': { displayName: 'Grace', uniqueName: 'grace@contoso.com' } };
+        let changes = 0;
+        const queue = new ConflictQueue(() => changes++);
+        const resolver = new ConflictResolver(rest as unknown as AdoRestClient, new WorkItemRepository(db), queue.prompt, () => {});
+        const proc = new OutboxProcessor(db, rest as unknown as AdoRestClient, resolver, () => {});
+        proc.enqueueStateChange(key(55), 'Active');
+        await proc.process();
+
+        assert.strictEqual(queue.size, 1);
+        const pending = queue.list()[0];
+        assert.strictEqual(pending.base, 'New');
+        assert.strictEqual(pending.theirs, 'Resolved');
+        assert.deepStrictEqual(pending.changedBy, { displayName: 'Grace', uniqueName: 'grace@contoso.com' });
+        assert.strictEqual(proc.ops()[0].lastError, 'Awaiting conflict resolution');
+        await proc.process();
+        assert.strictEqual(rest.patchCalls.length, 1, 'deferred batch is not re-sent every cycle');
+
+        assert.strictEqual(queue.resolve(pending.id, { merged: 'Closed' }), key(55));
+        assert.strictEqual(changes, 2);
+        assert.strictEqual(proc.retryWorkItem(key(55)), 1);
+        await proc.process();
+        assert.strictEqual(proc.pendingCount, 0);
+        const last = rest.patchCalls[rest.patchCalls.length - 1];
+        assert.strictEqual(last.etag, 'etag-fresh');
+        assert.deepStrictEqual(last.ops, [{ op: 'add', path: '/fields/System.State', value: 'Closed' }]);
+        assert.strictEqual(new WorkItemRepository(db).get(key(55))!.state, 'Closed');
+    });
+
+    await test('a decision made against a stale server value is asked again', async () => {
+        const queue = new ConflictQueue(() => {});
+        const info = { workItemKey: key(7), adoId: 7, field: 'System.Title', mine: 'a', theirs: 'b' };
+        assert.strictEqual(await queue.prompt(info), undefined);
+        queue.resolve(queue.list()[0].id, 'mine');
+        assert.strictEqual(await queue.prompt({ ...info, theirs: 'c' }), undefined, 'server moved on');
+        assert.strictEqual(queue.size, 1);
+        queue.resolve(queue.list()[0].id, 'theirs');
+        assert.strictEqual(await queue.prompt({ ...info, theirs: 'c' }), 'theirs');
+        assert.strictEqual(queue.size, 0);
+    });
+
+    await test('mergeTags applies our adds and removes on top of the server tags', () => {
+        assert.strictEqual(mergeTags('a; b', 'a; c', 'a; b; d'), 'a; d; c');
+        assert.strictEqual(mergeTags('', 'x', 'Y'), 'Y; x');
+        assert.strictEqual(mergeTags('a', 'a; B', 'a; b'), 'a; b', 'case-insensitive, no duplicates');
+        assert.strictEqual(mergeTags('a; b', '', 'a; b'), '');
+    });
+
     await test('update_fields op pushes a field and updates the mirror', async () => {
         const db = await Database.openInMemory();
         seedWorkItem(db);
@@ -120,11 +262,11 @@ export async function runTests(): Promise<void> {
         rest.patchResults = [{ success: true, workItem: { id: 55, fields: {} } as any, etag: 'etag-7', rev: 4 }];
         const resolver = new ConflictResolver(rest as unknown as AdoRestClient, new WorkItemRepository(db), async () => 'theirs', () => {});
         const proc = new OutboxProcessor(db, rest as unknown as AdoRestClient, resolver, () => {});
-        proc.enqueueFieldUpdate(55, 'Microsoft.VSTS.Common.Priority', 1);
+        proc.enqueueFieldUpdate(key(55), 'Microsoft.VSTS.Common.Priority', 1);
         assert.strictEqual(proc.pendingCount, 1);
         await proc.process();
         assert.strictEqual(proc.pendingCount, 0);
-        const wi = new WorkItemRepository(db).getById(55)!;
+        const wi = new WorkItemRepository(db).get(key(55))!;
         assert.strictEqual(wi.fields['Microsoft.VSTS.Common.Priority'], 1);
         assert.strictEqual(wi.etag, 'etag-7');
     });
@@ -137,17 +279,17 @@ export async function runTests(): Promise<void> {
         const resolver = new ConflictResolver(rest as unknown as AdoRestClient, new WorkItemRepository(db), async () => 'theirs', () => {});
         const proc = new OutboxProcessor(db, rest as unknown as AdoRestClient, resolver, () => {});
         const wiRepo = new WorkItemRepository(db);
-        wiRepo.getById(55)!.fields['Microsoft.VSTS.Common.Priority'] = 2;
-        proc.enqueueFieldUpdate(55, 'Microsoft.VSTS.Common.Priority', '');
+        wiRepo.get(key(55))!.fields['Microsoft.VSTS.Common.Priority'] = 2;
+        proc.enqueueFieldUpdate(key(55), 'Microsoft.VSTS.Common.Priority', '');
         await proc.process();
-        assert.strictEqual(wiRepo.getById(55)!.fields['Microsoft.VSTS.Common.Priority'], undefined);
+        assert.strictEqual(wiRepo.get(key(55))!.fields['Microsoft.VSTS.Common.Priority'], undefined);
     });
 
     await test('create_work_item op creates and links a new ADO work item', async () => {
         const db = await Database.openInMemory();
         const tasks = new TaskRepository(db);
         const local = tasks.createLocal('Follow-up with Sana');
-        assert.strictEqual(local.adoId, undefined);
+        assert.strictEqual(local.workItemKey, undefined);
 
         const rest = {
             async createWorkItem(_o: string, _p: string, _type: string, fields: Record<string, unknown>) {
@@ -162,19 +304,21 @@ export async function runTests(): Promise<void> {
         await proc.process();
 
         const linked = tasks.getByUuid(local.uuid)!;
-        assert.strictEqual(linked.adoId, 9001, 'task should be linked to the new work item');
+        assert.strictEqual(linked.workItemKey, key(9001), 'task should be linked to the new work item');
         assert.strictEqual(proc.pendingCount, 0);
-        assert.ok(new WorkItemRepository(db).getById(9001), 'work item mirror row should exist');
+        assert.ok(new WorkItemRepository(db).get(key(9001)), 'work item mirror row should exist');
     });
 
-    await test('create_work_item passes the assignee through to ADO', async () => {
+    await test('create_work_item passes the assignee, priority and parent through to ADO', async () => {
         const db = await Database.openInMemory();
         const tasks = new TaskRepository(db);
         const local = tasks.createLocal('Assign me');
         let capturedFields: Record<string, unknown> = {};
+        let capturedParent: number | undefined;
         const rest = {
-            async createWorkItem(_o: string, _p: string, _type: string, fields: Record<string, unknown>) {
+            async createWorkItem(_o: string, _p: string, _type: string, fields: Record<string, unknown>, parentId?: number) {
                 capturedFields = fields;
+                capturedParent = parentId;
                 return { success: true, workItem: { id: 4242, fields } as any, etag: 'e', rev: 1 } as PatchResult;
             },
             async patchWorkItem() { return { success: true } as PatchResult; },
@@ -182,10 +326,12 @@ export async function runTests(): Promise<void> {
         };
         const resolver = new ConflictResolver(rest as unknown as AdoRestClient, new WorkItemRepository(db), async () => 'theirs', () => {});
         const proc = new OutboxProcessor(db, rest as unknown as AdoRestClient, resolver, () => {});
-        proc.enqueueCreate(local.uuid, 'Task', 'org', 'proj', local.title, 'me@contoso.com');
+        proc.enqueueCreate(local.uuid, 'Task', 'org', 'proj', local.title, { assignedTo: 'me@contoso.com', priority: 2, parentId: 77 });
         await proc.process();
         assert.strictEqual(capturedFields['System.AssignedTo'], 'me@contoso.com');
-        assert.strictEqual(tasks.getByUuid(local.uuid)!.adoId, 4242);
+        assert.strictEqual(capturedFields['Microsoft.VSTS.Common.Priority'], 2);
+        assert.strictEqual(capturedParent, 77);
+        assert.strictEqual(tasks.getByUuid(local.uuid)!.workItemKey, key(4242));
     });
 
     await test('update_fields can set System.AssignedTo', async () => {
@@ -195,9 +341,190 @@ export async function runTests(): Promise<void> {
         rest.patchResults = [{ success: true, workItem: { id: 55, fields: {} } as any, etag: 'etag-a', rev: 6 }];
         const resolver = new ConflictResolver(rest as unknown as AdoRestClient, new WorkItemRepository(db), async () => 'theirs', () => {});
         const proc = new OutboxProcessor(db, rest as unknown as AdoRestClient, resolver, () => {});
-        proc.enqueueFieldUpdate(55, 'System.AssignedTo', 'someone@contoso.com');
+        proc.enqueueFieldUpdate(key(55), 'System.AssignedTo', 'someone@contoso.com');
+        await proc.process();
+        assert.strictEqual(new WorkItemRepository(db).get(key(55))!.fields['System.AssignedTo'], 'someone@contoso.com');
+    });
+
+    await test('queued ops for one work item go out as a single patch', async () => {
+        const db = await Database.openInMemory();
+        seedWorkItem(db);
+        const rest = new FakeRest();
+        const resolver = new ConflictResolver(rest as unknown as AdoRestClient, new WorkItemRepository(db), async () => 'theirs', () => {});
+        const proc = new OutboxProcessor(db, rest as unknown as AdoRestClient, resolver, () => {});
+        proc.enqueueStateChange(key(55), 'Active');
+        proc.enqueueFieldUpdate(key(55), 'Microsoft.VSTS.Common.Priority', 1);
+        proc.enqueueFieldUpdate(key(55), 'System.AssignedTo', 'ada@contoso.com');
+        assert.strictEqual(proc.pendingCount, 3);
+        await proc.process();
+        assert.strictEqual(rest.patchCalls.length, 1, 'one round-trip for all three ops');
+        assert.strictEqual(rest.patchCalls[0].etag, 'etag-1');
+        assert.deepStrictEqual(rest.patchCalls[0].ops.map(o => o.path), [
+            '/fields/System.State',
+            '/fields/Microsoft.VSTS.Common.Priority',
+            '/fields/System.AssignedTo'
+        ]);
+        assert.strictEqual(proc.pendingCount, 0);
+        const wi = new WorkItemRepository(db).get(key(55))!;
+        assert.strictEqual(wi.state, 'Active');
+        assert.strictEqual(wi.fields['Microsoft.VSTS.Common.Priority'], 1);
+    });
+
+    await test('later writes to the same field replace earlier ones in the batch', async () => {
+        const db = await Database.openInMemory();
+        seedWorkItem(db);
+        const rest = new FakeRest();
+        const resolver = new ConflictResolver(rest as unknown as AdoRestClient, new WorkItemRepository(db), async () => 'theirs', () => {});
+        const proc = new OutboxProcessor(db, rest as unknown as AdoRestClient, resolver, () => {});
+        proc.enqueueFieldUpdate(key(55), 'Microsoft.VSTS.Common.Priority', 1);
+        proc.enqueueStateChange(key(55), 'Active');
+        proc.enqueueFieldUpdate(key(55), 'Microsoft.VSTS.Common.Priority', 3);
+        await proc.process();
+        const ops = rest.patchCalls[0].ops;
+        assert.strictEqual(ops.length, 2);
+        assert.deepStrictEqual(ops.find(o => o.path.endsWith('Priority')), { op: 'add', path: '/fields/Microsoft.VSTS.Common.Priority', value: 3 });
+    });
+
+    await test('a failed batch keeps every op pending with its own attempt count', async () => {
+        const db = await Database.openInMemory();
+        seedWorkItem(db);
+        const rest = new FakeRest();
+        rest.patchResults = [{ success: false, error: { status: 503, message: 'unavailable' } }];
+        const resolver = new ConflictResolver(rest as unknown as AdoRestClient, new WorkItemRepository(db), async () => 'theirs', () => {});
+        const proc = new OutboxProcessor(db, rest as unknown as AdoRestClient, resolver, () => {});
+        proc.enqueueStateChange(key(55), 'Active');
+        proc.enqueueFieldUpdate(key(55), 'Microsoft.VSTS.Common.Priority', 2);
+        await proc.process();
+        const queue = new SyncQueueRepository(db);
+        const waiting = queue.pending(Number.POSITIVE_INFINITY);
+        assert.strictEqual(waiting.length, 2);
+        assert.ok(waiting.every(o => o.attempts === 1 && o.lastError === 'unavailable'));
+    });
+
+    await test('backoffDelayMs doubles with jitter and caps at 30 minutes', () => {
+        assert.strictEqual(backoffDelayMs(1, () => 0), 15_000);
+        assert.strictEqual(backoffDelayMs(1, () => 1), 30_000);
+        assert.strictEqual(backoffDelayMs(3, () => 1), 120_000);
+        assert.strictEqual(backoffDelayMs(20, () => 1), 30 * 60_000);
+        const d = backoffDelayMs(2);
+        assert.ok(d >= 30_000 && d <= 60_000, String(d));
+    });
+
+    await test('a failed op is not retried until its backoff elapses', async () => {
+        const db = await Database.openInMemory();
+        seedWorkItem(db);
+        const rest = new FakeRest();
+        rest.patchResults = [{ success: false, error: { status: 503, message: 'unavailable' } }];
+        let clock = Date.parse('2026-03-01T00:00:00Z');
+        const resolver = new ConflictResolver(rest as unknown as AdoRestClient, new WorkItemRepository(db), async () => 'theirs', () => {});
+        const proc = new OutboxProcessor(db, rest as unknown as AdoRestClient, resolver, () => {}, () => clock);
+        proc.enqueueStateChange(key(55), 'Active');
+        await proc.process();
+        const op = new SyncQueueRepository(db).pending(Number.POSITIVE_INFINITY)[0];
+        const wait = Date.parse(op.nextAttemptAt!) - clock;
+        assert.ok(wait >= 15_000 && wait <= 30_000, `first backoff ${wait}ms`);
+
+        clock += 10_000;
+        await proc.process();
+        assert.strictEqual(rest.patchCalls.length, 1, 'not due yet');
+
+        // A newer write to the same item waits with the older one.
+        proc.enqueueFieldUpdate(key(55), 'Microsoft.VSTS.Common.Priority', 1);
+        await proc.process();
+        assert.strictEqual(rest.patchCalls.length, 1, 'batch held back by its oldest op');
+
+        clock += 30_000;
+        await proc.process();
+        assert.strictEqual(rest.patchCalls.length, 2);
+        assert.strictEqual(rest.patchCalls[1].ops.length, 2);
+        assert.strictEqual(proc.pendingCount, 0);
+    });
+
+    await test('429 with Retry-After defers by the server delay without spending an attempt', async () => {
+        const db = await Database.openInMemory();
+        seedWorkItem(db);
+        const rest = new FakeRest();
+        rest.patchResults = [{ success: false, error: { status: 429, message: 'Throttled', retryAfterMs: 120_000 } }];
+        const clock = Date.parse('2026-03-01T00:00:00Z');
+        const resolver = new ConflictResolver(rest as unknown as AdoRestClient, new WorkItemRepository(db), async () => 'theirs', () => {});
+        const proc = new OutboxProcessor(db, rest as unknown as AdoRestClient, resolver, () => {}, () => clock);
+        proc.enqueueStateChange(key(55), 'Active');
+        await proc.process();
+        const op = new SyncQueueRepository(db).pending(Number.POSITIVE_INFINITY)[0];
+        assert.strictEqual(op.attempts, 0);
+        assert.strictEqual(op.nextAttemptAt, new Date(clock + 120_000).toISOString());
+    });
+
+    await test('enqueueing applies the change locally before it is pushed', async () => {
+        const db = await Database.openInMemory();
+        seedWorkItem(db);
+        const rest = new FakeRest();
+        const resolver = new ConflictResolver(rest as unknown as AdoRestClient, new WorkItemRepository(db), async () => 'theirs', () => {});
+        const proc = new OutboxProcessor(db, rest as unknown as AdoRestClient, resolver, () => {});
+        proc.enqueueStateChange(key(55), 'Active');
+        assert.strictEqual(new WorkItemRepository(db).get(key(55))!.state, 'Active');
+        assert.strictEqual(proc.ops()[0].payload['previous'], 'New');
+    });
+
+    await test('failed ops count as pending and can be retried with a fresh budget', async () => {
+        const db = await Database.openInMemory();
+        seedWorkItem(db);
+        const rest = new FakeRest();
+        const resolver = new ConflictResolver(rest as unknown as AdoRestClient, new WorkItemRepository(db), async () => 'theirs', () => {});
+        const proc = new OutboxProcessor(db, rest as unknown as AdoRestClient, resolver, () => {});
+        proc.enqueueStateChange(key(55), 'Active');
+        const queue = new SyncQueueRepository(db);
+        const opId = proc.ops()[0].opId;
+        queue.setStatus(opId, 'failed', 'HTTP 400');
+        queue.incrementAttempts(opId);
+        assert.strictEqual(proc.pendingCount, 1, 'failed ops are still unsynced');
+        assert.strictEqual(proc.retryAll(), 1);
+        assert.strictEqual(proc.ops()[0].attempts, 0);
         await proc.process();
-        assert.strictEqual(new WorkItemRepository(db).getById(55)!.fields['System.AssignedTo'], 'someone@contoso.com');
+        assert.strictEqual(rest.patchCalls.length, 1);
+        assert.strictEqual(proc.pendingCount, 0);
+    });
+
+    await test('discard drops the op and reverts the optimistic change', async () => {
+        const db = await Database.openInMemory();
+        seedWorkItem(db);
+        const rest = new FakeRest();
+        const resolver = new ConflictResolver(rest as unknown as AdoRestClient, new WorkItemRepository(db), async () => 'theirs', () => {});
+        const proc = new OutboxProcessor(db, rest as unknown as AdoRestClient, resolver, () => {});
+        proc.enqueueFieldUpdate(key(55), 'Microsoft.VSTS.Common.Priority', 1);
+        proc.enqueueStateChange(key(55), 'Active');
+        assert.ok(proc.discard(proc.ops()[1].opId));
+        const wi = new WorkItemRepository(db).get(key(55))!;
+        assert.strictEqual(wi.state, 'New');
+        assert.strictEqual(wi.fields['Microsoft.VSTS.Common.Priority'], 1, 'other queued changes stay applied');
+        assert.strictEqual(proc.pendingCount, 1);
+    });
+
+    await test('discarding an older write hands its prior value to the newer one', async () => {
+        const db = await Database.openInMemory();
+        seedWorkItem(db);
+        const rest = new FakeRest();
+        const resolver = new ConflictResolver(rest as unknown as AdoRestClient, new WorkItemRepository(db), async () => 'theirs', () => {});
+        const proc = new OutboxProcessor(db, rest as unknown as AdoRestClient, resolver, () => {});
+        proc.enqueueStateChange(key(55), 'Active');
+        proc.enqueueStateChange(key(55), 'Resolved');
+        proc.discard(proc.ops()[0].opId);
+        assert.strictEqual(new WorkItemRepository(db).get(key(55))!.state, 'Resolved', 'newer write still applies');
+        const remaining = proc.ops()[0];
+        assert.strictEqual(remaining.payload['previous'], 'New');
+        proc.discard(remaining.opId);
+        assert.strictEqual(new WorkItemRepository(db).get(key(55))!.state, 'New');
+    });
+
+    await test('retryDelayFromHeaders reads Retry-After and X-RateLimit-Reset', () => {
+        const now = Date.parse('2026-03-01T00:00:00Z');
+        assert.strictEqual(retryDelayFromHeaders(new Headers({ 'Retry-After': '7' }), now), 7000);
+        assert.strictEqual(retryDelayFromHeaders(new Headers({ 'Retry-After': 'Sun, 01 Mar 2026 00:01:00 GMT' }), now), 60_000);
+        assert.strictEqual(
+            retryDelayFromHeaders(new Headers({ 'X-RateLimit-Remaining': '0', 'X-RateLimit-Reset': String(now / 1000 + 30) }), now),
+            30_000
+        );
+        assert.strictEqual(retryDelayFromHeaders(new Headers({ 'X-RateLimit-Remaining': '12', 'X-RateLimit-Reset': '1' }), now), undefined);
     });
 
     await test('soak: many ops with intermittent throttling eventually drain', async () => {
@@ -223,17 +550,189 @@ export async function runTests(): Promise<void> {
                 return { workItem: { id, fields: { 'System.State': 'New' } } as any, etag: 'x', rev: 2 };
             }
         };
+        let clock = Date.parse('2026-03-01T00:00:00Z');
         const resolver = new ConflictResolver(flaky as unknown as AdoRestClient, wiRepo, async () => 'theirs', () => {});
-        const proc = new OutboxProcessor(db, flaky as unknown as AdoRestClient, resolver, () => {});
-        for (let i = 1; i <= 20; i++) proc.enqueueStateChange(i, 'Active');
+        const proc = new OutboxProcessor(db, flaky as unknown as AdoRestClient, resolver, () => {}, () => clock);
+        for (let i = 1; i <= 20; i++) proc.enqueueStateChange(key(i), 'Active');
 
-        // Drain across multiple cycles, as transient failures are retried.
+        // Drain across multiple cycles, as transient failures are retried once
+        // their backoff has elapsed.
         for (let cycle = 0; cycle < 10 && proc.pendingCount > 0; cycle++) {
             await proc.process();
+            clock += 60_000;
         }
         assert.strictEqual(proc.pendingCount, 0, 'all ops should eventually drain');
     });
 
+    await test('link ops add relations and mirror them both ways', async () => {
+        const db = await Database.openInMemory();
+        seedWorkItem(db);
+        const rest = new FakeRest();
+        const resolver = new ConflictResolver(rest as unknown as AdoRestClient, new WorkItemRepository(db), async () => 'theirs', () => {});
+        const proc = new OutboxProcessor(db, rest as unknown as AdoRestClient, resolver, () => {});
+        const links = new LinkRepository(db);
+
+        proc.enqueueLink(key(55), 'add', 'child', 60);
+        assert.deepStrictEqual(links.childrenOf(key(55)), [key(60)], 'mirrored before the push');
+        assert.strictEqual(links.parentOf(key(60)), key(55));
+        await proc.process();
+
+        assert.strictEqual(proc.pendingCount, 0);
+        assert.deepStrictEqual(rest.patchCalls[0].ops, [{
+            op: 'add',
+            path: '/relations/-',
+            value: { rel: 'System.LinkTypes.Hierarchy-Forward', url: 'https://dev.azure.com/org/_apis/wit/workItems/60' }
+        }]);
+    });
+
+    await test('removing a link patches the relation at its server index', async () => {
+        const db = await Database.openInMemory();
+        seedWorkItem(db);
+        const rest = new FakeRest();
+        rest.serverRelations = [
+            { rel: 'System.LinkTypes.Related', url: 'https://dev.azure.com/org/_apis/wit/workItems/70' },
+            { rel: 'System.LinkTypes.Dependency-Forward', url: 'https://dev.azure.com/org/_apis/wit/workItems/70' }
+        ];
+        const resolver = new ConflictResolver(rest as unknown as AdoRestClient, new WorkItemRepository(db), async () => 'theirs', () => {});
+        const proc = new OutboxProcessor(db, rest as unknown as AdoRestClient, resolver, () => {});
+        const links = new LinkRepository(db);
+        links.add({ sourceKey: key(55), targetKey: key(70), kind: 'successor' });
+
+        proc.enqueueLink(key(55), 'remove', 'successor', 70);
+        assert.deepStrictEqual(links.linksOf(key(70)), [], 'both ends forgotten locally');
+        await proc.process();
+
+        assert.deepStrictEqual(rest.patchCalls[0].ops, [{ op: 'remove', path: '/relations/1' }]);
+        assert.strictEqual(rest.patchCalls[0].etag, 'etag-2', 'guarded by the read that found the index');
+        assert.strictEqual(proc.pendingCount, 0);
+    });
+
+    await test('a new parent replaces the old one, and discarding a link op reverts the mirror', async () => {
+        const db = await Database.openInMemory();
+        seedWorkItem(db);
+        const rest = new FakeRest();
+        const resolver = new ConflictResolver(rest as unknown as AdoRestClient, new WorkItemRepository(db), async () => 'theirs', () => {});
+        const proc = new OutboxProcessor(db, rest as unknown as AdoRestClient, resolver, () => {});
+        const links = new LinkRepository(db);
+        links.add({ sourceKey: key(55), targetKey: key(10), kind: 'parent' });
+
+        const op = proc.enqueueLink(key(55), 'add', 'parent', 20);
+        assert.deepStrictEqual(proc.ops().map(o => [o.payload['action'], o.payload['targetId']]), [['remove', 10], ['add', 20]]);
+        assert.strictEqual(links.parentOf(key(55)), key(20));
+        assert.deepStrictEqual(links.childrenOf(key(10)), []);
+
+        assert.ok(proc.discard(op.opId));
+        assert.strictEqual(links.parentOf(key(55)), undefined);
+        assert.deepStrictEqual(links.childrenOf(key(20)), []);
+    });
+
+    await test('pulled relations replace the mirror, keeping links still waiting to push', async () => {
+        const db = await Database.openInMemory();
+        seedWorkItem(db);
+        const rest = new FakeRest();
+        const resolver = new ConflictResolver(rest as unknown as AdoRestClient, new WorkItemRepository(db), async () => 'theirs', () => {});
+        const proc = new OutboxProcessor(db, rest as unknown as AdoRestClient, resolver, () => {});
+        const links = new LinkRepository(db);
+        links.add({ sourceKey: key(55), targetKey: key(10), kind: 'parent' });
+        proc.enqueueLink(key(55), 'add', 'related', 80);
+
+        links.replaceFor(key(55), linksFromRelations(key(55), [
+            { rel: 'System.LinkTypes.Hierarchy-Forward', url: 'https://dev.azure.com/org/_apis/wit/workItems/60' },
+            { rel: 'ArtifactLink', url: 'vstfs:///Git/Commit/abc' }
+        ]));
+        assert.strictEqual(links.parentOf(key(55)), undefined, 'a parent ADO no longer reports is dropped');
+        assert.deepStrictEqual(links.childrenOf(key(10)), []);
+        assert.strictEqual(links.parentOf(key(60)), key(55), 'inverse recorded on the other end');
+        assert.ok(!links.has({ sourceKey: key(55), targetKey: key(80), kind: 'related' }));
+
+        proc.reapplyQueuedLinks();
+        assert.ok(links.has({ sourceKey: key(55), targetKey: key(80), kind: 'related' }), 'queued link survives the pull');
+        assert.deepStrictEqual(links.childrenOf(key(55)), [key(60)]);
+    });
+
+    await test('comments show as pending, then post and take the server copy', async () => {
+        const db = await Database.openInMemory();
+        seedWorkItem(db);
+        const rest = new FakeRest();
+        rest.commentResults = [{ success: false, error: { status: 503, message: 'Service unavailable' } }];
+        const resolver = new ConflictResolver(rest as unknown as AdoRestClient, new WorkItemRepository(db), async () => 'theirs', () => {});
+        let clock = Date.parse('2024-05-02T09:00:00Z');
+        const proc = new OutboxProcessor(db, rest as unknown as AdoRestClient, resolver, () => {}, () => clock);
+        const comments = new CommentRepository(db);
+        comments.replaceFor(key(55), [{ workItemKey: key(55), commentId: 1, text: '<div>First</div>', author: 'Bob', createdDate: '2024-05-01T08:00:00Z' }]);
+
+        const op = proc.enqueueComment(key(55), '<div>Looks good</div>');
+        assert.deepStrictEqual(comments.forWorkItem(key(55)).map(c => [c.text, c.opId]), [['<div>First</div>', undefined], ['<div>Looks good</div>', op.opId]]);
+        await proc.process();
+        assert.strictEqual(proc.pendingCount, 1, 'kept for a retry');
+
+        comments.replaceFor(key(55), [{ workItemKey: key(55), commentId: 1, text: '<div>First</div>', author: 'Bob', createdDate: '2024-05-01T08:00:00Z' }]);
+        assert.strictEqual(comments.forWorkItem(key(55)).length, 2, 'a refresh keeps the unposted comment');
+
+        clock += 60 * 60_000;
+        await proc.process();
+        assert.strictEqual(proc.pendingCount, 0);
+        assert.deepStrictEqual(rest.commentCalls.map(c => c.text), ['<div>Looks good</div>', '<div>Looks good</div>']);
+        const posted = comments.forWorkItem(key(55))[1];
+        assert.strictEqual(posted.opId, undefined);
+        assert.strictEqual(posted.commentId, 902);
+        assert.strictEqual(posted.author, 'Ada');
+    });
+
+    await test('discarding a queued comment removes it from the thread', async () => {
+        const db = await Database.openInMemory();
+        seedWorkItem(db);
+        const rest = new FakeRest();
+        const resolver = new ConflictResolver(rest as unknown as AdoRestClient, new WorkItemRepository(db), async () => 'theirs', () => {});
+        const proc = new OutboxProcessor(db, rest as unknown as AdoRestClient, resolver, () => {});
+        const op = proc.enqueueComment(key(55), '<div>Never mind</div>');
+        assert.ok(proc.discard(op.opId));
+        assert.deepStrictEqual(new CommentRepository(db).forWorkItem(key(55)), []);
+        assert.strictEqual(rest.commentCalls.length, 0);
+    });
+
+    await test('attachments upload once, then link, even when the link needs a retry', async () => {
+        const db = await Database.openInMemory();
+        seedWorkItem(db);
+        const rest = new FakeRest();
+        rest.patchResults = [{ success: false, error: { status: 503, message: 'Service unavailable' } }];
+        const resolver = new ConflictResolver(rest as unknown as AdoRestClient, new WorkItemRepository(db), async () => 'theirs', () => {});
+        let clock = Date.parse('2024-05-02T09:00:00Z');
+        const proc = new OutboxProcessor(db, rest as unknown as AdoRestClient, resolver, () => {}, () => clock);
+        const attachments = new AttachmentRepository(db);
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ado-things-'));
+        const file = path.join(dir, 'trace.log');
+        fs.writeFileSync(file, 'boom');
+
+        try {
+            const op = proc.enqueueAttachment(key(55), file, 'trace.log', 4);
+            assert.deepStrictEqual(attachments.forWorkItem(key(55)).map(a => [a.name, a.opId]), [['trace.log', op.opId]]);
+            await proc.process();
+            assert.strictEqual(proc.pendingCount, 1, 'kept for a retry');
+            attachments.replaceFor(key(55), attachmentsFromRelations(key(55), [
+                { rel: 'AttachedFile', url: 'https://dev.azure.com/org/proj/_apis/wit/attachments/old', attributes: { name: 'spec.pdf', resourceSize: 2048 } },
+                { rel: 'System.LinkTypes.Related', url: 'https://dev.azure.com/org/proj/_apis/wit/workItems/7' }
+            ]));
+            assert.deepStrictEqual(attachments.forWorkItem(key(55)).map(a => [a.name, a.size]), [['spec.pdf', 2048], ['trace.log', 4]], 'a pull keeps the pending upload');
+
+            clock += 60 * 60_000;
+            await proc.process();
+            assert.strictEqual(proc.pendingCount, 0);
+            assert.deepStrictEqual(rest.uploadCalls, [{ fileName: 'trace.log', bytes: 4 }]);
+            assert.strictEqual(rest.patchCalls.length, 2);
+            assert.deepStrictEqual(rest.patchCalls[1].ops, [{
+                op: 'add',
+                path: '/relations/-',
+                value: { rel: 'AttachedFile', url: 'https://dev.azure.com/org/proj/_apis/wit/attachments/guid-1' }
+            }]);
+            const attached = attachments.forWorkItem(key(55)).find(a => a.name === 'trace.log')!;
+            assert.strictEqual(attached.opId, undefined);
+            assert.strictEqual(attached.url, 'https://dev.azure.com/org/proj/_apis/wit/attachments/guid-1');
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+
     console.log(`\n${passed}/${passed + failed} passed, ${failed} failed`);
     if (failed > 0) {
         throw new Error(`${failed} outbox test(s) failed`);
@@ -10,6 +10,7 @@ import { runTests as runUrlParsingTests } from './urlParsing.test';
 import { runTests as runDatabaseTests } from './database.test';
 import { runTests as runOutboxTests } from './outbox.test';
 import { runTests as runFeatureTests } from './features.test';
+import { runTests as runSyncTests } from './sync.test';
 
 async function main(): Promise<void> {
     console.log('╔══════════════════════════════════════╗');
@@ -21,6 +22,7 @@ async function main(): Promise<void> {
     await runDatabaseTests();
     await runOutboxTests();
     await runFeatureTests();
+    await runSyncTests();
 
     console.log('\n✔  All test suites passed.\n');
 }
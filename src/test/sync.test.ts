@@ -0,0 +1,179 @@
+import * as assert from 'assert';
+import { Database } from '../db/Database';
+import { SyncStateRepository } from '../db/repositories/SyncStateRepository';
+import { QueryPathRepository } from '../db/repositories/QueryPathRepository';
+import type { AdoRestClient } from '../ado/AdoRestClient';
+import { addChangedSinceFilter, fieldNamePrefix } from '../sync/wiql';
+import { bindingChange, bindingWiql } from '../sync/projectBinding';
+import { ProjectAdoBinding } from '../model/types';
+import { folderQueryDefinitions, isSameQueryFolder } from '../utils/queryFolders';
+import { runQueryAtPath } from '../sync/queryPaths';
+
+let passed = 0;
+let failed = 0;
+
+async function test(name: string, fn: () => void | Promise<void>): Promise<void> {
+    try {
+        await fn();
+        console.log(`  ✓ ${name}`);
+        passed++;
+    } catch (err) {
+        console.error(`  ✗ ${name}`);
+        console.error(`    ${(err as Error).message}`);
+        failed++;
+    }
+}
+
+export async function runTests(): Promise<void> {
+    console.log('\nSync / Incremental pull');
+
+    await test('addChangedSinceFilter ANDs the watermark onto an existing WHERE', () => {
+        const wiql = "SELECT [System.Id] FROM WorkItems WHERE [System.State] = 'Active' OR [System.State] = 'New' ORDER BY [System.ChangedDate] DESC";
+        const out = addChangedSinceFilter(wiql, '2026-01-02T03:04:05.000Z')!;
+        assert.strictEqual(
+            out,
+            "SELECT [System.Id] FROM WorkItems WHERE ([System.State] = 'Active' OR [System.State] = 'New') AND [System.ChangedDate] > '2026-01-02T03:04:05.000Z' ORDER BY [System.ChangedDate] DESC"
+        );
+    });
+
+    await test('addChangedSinceFilter adds a WHERE when the query has none', () => {
+        const out = addChangedSinceFilter('select [System.Id] from WorkItems order by [System.Id]', '2026-01-01T00:00:00Z')!;
+        assert.strictEqual(out, "select [System.Id] from WorkItems WHERE [System.ChangedDate] > '2026-01-01T00:00:00Z' order by [System.Id]");
+    });
+
+    await test('addChangedSinceFilter ignores keywords inside string literals', () => {
+        const wiql = "SELECT [System.Id] FROM WorkItems WHERE [System.Title] CONTAINS 'order by where'";
+        const out = addChangedSinceFilter(wiql, '2026-01-01T00:00:00Z')!;
+        assert.ok(out.endsWith("([System.Title] CONTAINS 'order by where') AND [System.ChangedDate] > '2026-01-01T00:00:00Z'"), out);
+    });
+
+    await test('addChangedSinceFilter refuses link and ASOF queries', () => {
+        assert.strictEqual(addChangedSinceFilter('SELECT [System.Id] FROM WorkItemLinks WHERE [Source].[System.Id] > 0', 'x'), undefined);
+        assert.strictEqual(addChangedSinceFilter("SELECT [System.Id] FROM WorkItems ASOF '2025-01-01'", 'x'), undefined);
+    });
+
+    await test('fieldNamePrefix completes only inside an open bracket outside strings', () => {
+        assert.strictEqual(fieldNamePrefix('SELECT [System.Ti'), 'System.Ti');
+        assert.strictEqual(fieldNamePrefix('WHERE [System.State] = [Sys'), 'Sys');
+        assert.strictEqual(fieldNamePrefix('WHERE [System.State] = '), undefined);
+        assert.strictEqual(fieldNamePrefix("WHERE [System.Title] = 'a [b"), undefined);
+        assert.strictEqual(fieldNamePrefix("WHERE [System.Title] = 'a [b' AND ["), '');
+    });
+
+    await test('folderQueryDefinitions names subscribed queries by their path below the folder', () => {
+        const defs = folderQueryDefinitions({ path: 'Shared Queries/Team/', project: 'Web' }, [
+            { id: 'q2', name: 'Active', path: 'Shared Queries/Team/Bugs/Active' },
+            { id: 'f1', name: 'Bugs', path: 'Shared Queries/Team/Bugs', isFolder: true },
+            { id: 'q1', name: 'Sprint', path: 'Shared Queries/Team/Sprint' }
+        ]);
+        assert.deepStrictEqual(defs.map(d => [d.name, d.queryId, d.project]), [['Bugs/Active', 'q2', 'Web'], ['Sprint', 'q1', 'Web']]);
+    });
+
+    await test('isSameQueryFolder matches org, project and path together', () => {
+        const defaults = { organization: 'Contoso', project: 'Web' };
+        const folder = { path: 'Shared Queries/Team' };
+        assert.ok(isSameQueryFolder(folder, defaults, 'contoso', 'web', 'Shared Queries/Team/'));
+        assert.ok(!isSameQueryFolder(folder, defaults, 'Contoso', 'Mobile', 'Shared Queries/Team'));
+        assert.ok(!isSameQueryFolder({ ...folder, organization: 'Fabrikam' }, defaults, 'Contoso', 'Web', 'Shared Queries/Team'));
+        assert.ok(isSameQueryFolder({ ...folder, organization: 'https://dev.azure.com/Fabrikam', project: 'Mobile' }, defaults, 'fabrikam', 'Mobile', 'Shared Queries/Team'));
+    });
+
+    await test('SyncStateRepository stamps lastFullSyncUtc only on full syncs', async () => {
+        const db = await Database.openInMemory();
+        const state = new SyncStateRepository(db);
+        state.set('org/proj/q', '2026-01-01T00:00:00Z');
+        assert.strictEqual(state.get('org/proj/q')!.lastFullSyncUtc, undefined);
+        state.set('org/proj/q', '2026-01-02T00:00:00Z', true);
+        const full = state.get('org/proj/q')!.lastFullSyncUtc;
+        assert.ok(full, 'expected a full-sync timestamp');
+        state.set('org/proj/q', '2026-01-03T00:00:00Z');
+        assert.strictEqual(state.get('org/proj/q')!.lastFullSyncUtc, full, 'delta must not move the full-sync stamp');
+        assert.strictEqual(state.get('org/proj/q')!.watermark, '2026-01-03T00:00:00Z');
+    });
+
+    await test('SyncStateRepository finds and forgets sources no longer configured', async () => {
+        const db = await Database.openInMemory();
+        const state = new SyncStateRepository(db);
+        state.setIds('org/proj/kept', [1, 2], 'org');
+        state.setIds('org/proj/removed', [2, 3], 'org');
+        const stale = state.staleSources(['org/proj/kept']);
+        assert.deepStrictEqual(stale.map(s => [s.sourceKey, s.org, s.ids]), [['org/proj/removed', 'org', [2, 3]]]);
+        state.remove(stale.map(s => s.sourceKey));
+        assert.strictEqual(state.get('org/proj/removed'), undefined);
+        assert.deepStrictEqual([...state.idsHeldBy(['org/proj/kept'])], [1, 2]);
+    });
+
+    await test('SyncStateRepository.idsHeldBy unions only the named sources', async () => {
+        const db = await Database.openInMemory();
+        const state = new SyncStateRepository(db);
+        state.setIds('a', [1, 2]);
+        state.setIds('b', [2, 3]);
+        state.setIds('stale', [4]);
+        assert.deepStrictEqual([...state.idsHeldBy(['a', 'b'])].sort(), [1, 2, 3]);
+        state.setIds('a', [1]);
+        assert.deepStrictEqual([...state.idsHeldBy(['a'])], [1]);
+    });
+
+    await test('bindingWiql selects by path or parent and can be narrowed to a delta', () => {
+        const area: ProjectAdoBinding = { kind: 'areaPath', organization: 'org', project: 'Web', path: "Web\\Team's" };
+        assert.strictEqual(bindingWiql(area),
+            "SELECT [System.Id] FROM WorkItems WHERE [System.TeamProject] = @project AND [System.AreaPath] UNDER 'Web\\Team''s' ORDER BY [System.Id]");
+        assert.ok(bindingWiql({ ...area, kind: 'iteration' })!.includes('[System.IterationPath] UNDER'));
+        const parent = bindingWiql({ kind: 'parent', organization: 'org', project: 'Web', parentId: 42 })!;
+        assert.ok(parent.includes('[System.Parent] = 42'));
+        assert.ok(addChangedSinceFilter(parent, '2024-01-01T00:00:00Z')!.includes("AND [System.ChangedDate] > '2024-01-01T00:00:00Z' ORDER BY"));
+        assert.strictEqual(bindingWiql({ kind: 'parent', organization: 'org', project: 'Web' }), undefined);
+    });
+
+    await test('bindingChange sets the path or parent, only within the bound ADO project', () => {
+        const area: ProjectAdoBinding = { kind: 'areaPath', organization: 'Org', project: 'Web', path: 'Web\\Team' };
+        assert.deepStrictEqual(bindingChange(area, 'org', 'web', 7), { field: 'System.AreaPath', value: 'Web\\Team' });
+        assert.deepStrictEqual(bindingChange({ ...area, kind: 'iteration' }, 'Org', 'Web'), { field: 'System.IterationPath', value: 'Web\\Team' });
+        assert.strictEqual(bindingChange(area, 'Org', 'Mobile', 7), undefined);
+
+        const parent: ProjectAdoBinding = { kind: 'parent', organization: 'Org', project: 'Web', parentId: 42 };
+        assert.deepStrictEqual(bindingChange(parent, 'Org', 'Web', 7), { parentId: 42 });
+        assert.strictEqual(bindingChange(parent, 'Org', 'Web', 42), undefined, 'the parent is not its own child');
+    });
+
+    await test('runQueryAtPath resolves a query path once, then runs it by ID', async () => {
+        const db = await Database.openInMemory();
+        const paths = new QueryPathRepository(db);
+        const lookups: string[] = [];
+        let runnable = new Set(['q1']);
+        let failure = 404;
+        const rest = {
+            getQueryByPath: async (_org: string, _project: string, path: string) => {
+                lookups.push(path);
+                return path === 'Shared Queries/Team' ? { id: 'f1', name: 'Team', path, isFolder: true } : { id: `q${lookups.length}`, name: 'Bugs', path };
+            },
+            runSavedQuery: async (_org: string, _project: string, queryId: string) => runnable.has(queryId)
+                ? { success: true, ids: [1, 2] }
+                : { success: false, error: { status: failure, message: `HTTP ${failure}` } }
+        } as unknown as AdoRestClient;
+
+        assert.deepStrictEqual(await runQueryAtPath(rest, paths, 'Org', 'Web', 'Shared Queries/Team/Bugs'), [1, 2]);
+        assert.deepStrictEqual(await runQueryAtPath(rest, paths, 'org', 'web', 'shared queries/team/bugs'), [1, 2]);
+        assert.deepStrictEqual(lookups, ['Shared Queries/Team/Bugs'], 'the cached ID is reused, matching case-insensitively');
+        assert.strictEqual(await runQueryAtPath(rest, paths, 'Org', 'Web', 'Shared Queries/Team'), undefined, 'folders don\'t resolve');
+
+        // A passing failure (expired sign-in, throttling) keeps the cached ID.
+        runnable = new Set();
+        failure = 401;
+        assert.strictEqual(await runQueryAtPath(rest, paths, 'Org', 'Web', 'Shared Queries/Team/Bugs'), undefined);
+        assert.strictEqual(paths.get('Org', 'Web', 'Shared Queries/Team/Bugs'), 'q1');
+
+        // The query was recreated under the same path: the stale ID is dropped and looked up again.
+        runnable = new Set(['q3']);
+        failure = 404;
+        assert.strictEqual(await runQueryAtPath(rest, paths, 'Org', 'Web', 'Shared Queries/Team/Bugs'), undefined);
+        assert.strictEqual(paths.get('Org', 'Web', 'Shared Queries/Team/Bugs'), undefined);
+        assert.deepStrictEqual(await runQueryAtPath(rest, paths, 'Org', 'Web', 'Shared Queries/Team/Bugs'), [1, 2]);
+        assert.strictEqual(paths.get('Org', 'Web', 'Shared Queries/Team/Bugs'), 'q3');
+    });
+
+    console.log(`\n${passed}/${passed + failed} passed, ${failed} failed`);
+    if (failed > 0) {
+        throw new Error(`${failed} sync test(s) failed`);
+    }
+}
@@ -1,5 +1,8 @@
 import * as assert from 'assert';
-import { extractQueryInfoFromUrl } from '../utils/urlParser';
+import { extractQueryInfoFromUrl, workItemIdFromText } from '../utils/urlParser';
+import { latestApiVersionFromError, normalizeOrgUrl, withApiVersion } from '../ado/AdoRestClient';
+import { configuredTenant, tenantFromHeaders } from '../auth/tenant';
+import { basicAuthorization, daysUntilExpiry, parsePatOrgs, parseStoredPat } from '../auth/pat';
 
 /**
  * Unit tests for URL parsing
@@ -55,6 +58,19 @@ function runUrlParsingTests(): void {
         assert.strictEqual(result.queryId, 'abcdefab-abcd-abcd-abcd-abcdefabcdef');
     });
 
+    test('finds a query URL inside surrounding text', () => {
+        const result = extractQueryInfoFromUrl(
+            'Active Bugs - https://dev.azure.com/myorg/myproject/_queries/query/12345678-1234-1234-1234-123456789012.'
+        );
+        assert.strictEqual(result.organization, 'myorg');
+        assert.strictEqual(result.project, 'myproject');
+        assert.strictEqual(result.queryId, '12345678-1234-1234-1234-123456789012');
+        assert.strictEqual(
+            extractQueryInfoFromUrl('see (https://tfs.corp/tfs/DefaultCollection/proj/_workitems/edit/4711)').workItemId,
+            4711
+        );
+    });
+
     // ── Bare GUID ────────────────────────────────────────────────────
 
     test('parses bare GUID', () => {
@@ -103,6 +119,105 @@ function runUrlParsingTests(): void {
         );
         assert.strictEqual(result.queryId, 'ABCDEFAB-ABCD-ABCD-ABCD-ABCDEFABCDEF');
     });
+
+    // ── Azure DevOps Server ──────────────────────────────────────────
+
+    test('parses an on-premises collection query URL', () => {
+        const result = extractQueryInfoFromUrl(
+            'https://tfs.corp/tfs/DefaultCollection/My%20Project/_queries/query/12345678-1234-1234-1234-123456789012'
+        );
+        assert.strictEqual(result.organization, 'https://tfs.corp/tfs/DefaultCollection');
+        assert.strictEqual(result.project, 'My Project');
+        assert.strictEqual(result.queryId, '12345678-1234-1234-1234-123456789012');
+    });
+
+    test('reports a configured collection under its name', () => {
+        const result = extractQueryInfoFromUrl(
+            'https://tfs.corp/tfs/DefaultCollection/proj/_queries/query-edit/12345678-1234-1234-1234-123456789012',
+            { corp: 'https://TFS.corp/tfs/DefaultCollection/' }
+        );
+        assert.strictEqual(result.organization, 'corp');
+        assert.strictEqual(result.project, 'proj');
+    });
+
+    test('parses work item and backlog links', () => {
+        const edit = extractQueryInfoFromUrl('https://tfs.corp/tfs/DefaultCollection/proj/_workitems/edit/4711');
+        assert.deepStrictEqual(edit, { organization: 'https://tfs.corp/tfs/DefaultCollection', project: 'proj', workItemId: 4711 });
+        const backlog = extractQueryInfoFromUrl('https://dev.azure.com/myorg/proj/_backlogs/backlog/Team/Stories?workitem=42');
+        assert.deepStrictEqual(backlog, { organization: 'myorg', project: 'proj', workItemId: 42 });
+        assert.strictEqual(workItemIdFromText(' 17 '), 17);
+        assert.strictEqual(workItemIdFromText('https://myorg.visualstudio.com/proj/_boards/board/t/Team/Stories?workitem=9'), 9);
+        assert.strictEqual(workItemIdFromText('https://dev.azure.com/myorg/proj/_queries/query/12345678-1234-1234-1234-123456789012'), undefined);
+    });
+
+    test('resolves organizations to configured collection URLs', () => {
+        const collections = { Corp: 'https://tfs.corp/tfs/DefaultCollection/' };
+        assert.strictEqual(normalizeOrgUrl('corp', collections), 'https://tfs.corp/tfs/DefaultCollection');
+        assert.strictEqual(normalizeOrgUrl('contoso', collections), 'https://dev.azure.com/contoso');
+        assert.strictEqual(normalizeOrgUrl('https://tfs.corp/tfs/Other/'), 'https://tfs.corp/tfs/Other');
+    });
+
+    test('lowers the API version to what an older server supports', () => {
+        const message = 'The requested REST API version of 7.1 is out of range for this server. The latest REST API version for this server is 6.0.';
+        assert.strictEqual(latestApiVersionFromError(JSON.stringify({ message })), '6.0');
+        assert.strictEqual(latestApiVersionFromError('TF401232: Work item 1 does not exist'), undefined);
+        assert.strictEqual(
+            withApiVersion('https://tfs/c/p/_apis/wit/wiql?timePrecision=true&api-version=7.1', '6.0'),
+            'https://tfs/c/p/_apis/wit/wiql?timePrecision=true&api-version=6.0'
+        );
+        assert.strictEqual(
+            withApiVersion('https://tfs/c/p/_apis/wit/workItems/1/comments?api-version=7.1-preview.4&$top=200', '5.0'),
+            'https://tfs/c/p/_apis/wit/workItems/1/comments?api-version=5.0-preview&$top=200'
+        );
+    });
+
+    // ── Organization tenants ─────────────────────────────────────────
+
+    test('reads the tenant from an organization\'s sign-in redirect', () => {
+        assert.strictEqual(
+            tenantFromHeaders(new Headers({ 'X-VSS-ResourceTenant': '72F988BF-86F1-41AF-91AB-2D7CD011DB47' })),
+            '72f988bf-86f1-41af-91ab-2d7cd011db47'
+        );
+        assert.strictEqual(
+            tenantFromHeaders(new Headers({
+                'X-VSS-ResourceTenant': '00000000-0000-0000-0000-000000000000',
+                'WWW-Authenticate': 'Bearer authorization_uri=https://login.microsoftonline.com/5a3b1c2d-0000-4000-8000-123456789abc, Basic realm="x"'
+            })),
+            '5a3b1c2d-0000-4000-8000-123456789abc'
+        );
+        assert.strictEqual(tenantFromHeaders(new Headers({ 'X-VSS-ResourceTenant': '00000000-0000-0000-0000-000000000000' })), undefined);
+    });
+
+    test('matches configured tenants by organization name or URL', () => {
+        const tenants = { 'https://dev.azure.com/Contoso': '72f988bf-86f1-41af-91ab-2d7cd011db47' };
+        assert.strictEqual(configuredTenant(tenants, 'contoso'), '72f988bf-86f1-41af-91ab-2d7cd011db47');
+        assert.strictEqual(configuredTenant(tenants, 'https://contoso.visualstudio.com'), '72f988bf-86f1-41af-91ab-2d7cd011db47');
+        assert.strictEqual(configuredTenant(tenants, 'fabrikam'), undefined);
+    });
+
+    // ── Personal access tokens ───────────────────────────────────────
+
+    test('sends a PAT as Basic auth with an empty user name', () => {
+        assert.strictEqual(basicAuthorization('abc123'), 'Basic ' + Buffer.from(':abc123').toString('base64'));
+    });
+
+    test('counts the days left on a PAT through its expiry date', () => {
+        const now = new Date('2024-05-01T12:00:00Z');
+        assert.strictEqual(daysUntilExpiry({ token: 't', expiresOn: '2024-05-08' }, now), 7);
+        assert.strictEqual(daysUntilExpiry({ token: 't', expiresOn: '2024-05-01' }, now), 0);
+        assert.strictEqual(daysUntilExpiry({ token: 't', expiresOn: '2024-04-30' }, now), -1);
+        assert.strictEqual(daysUntilExpiry({ token: 't' }, now), undefined);
+        assert.strictEqual(parseStoredPat('{"expiresOn":"2024-05-08"}'), undefined);
+        assert.strictEqual(parseStoredPat('not json'), undefined);
+    });
+
+    test('reads a corrupt list of PAT organizations as empty', () => {
+        assert.deepStrictEqual(parsePatOrgs('["contoso","https://tfs.corp/tfs/DefaultCollection"]'), ['contoso', 'https://tfs.corp/tfs/DefaultCollection']);
+        assert.deepStrictEqual(parsePatOrgs('["contoso", 7]'), ['contoso']);
+        assert.deepStrictEqual(parsePatOrgs('{"contoso":true}'), []);
+        assert.deepStrictEqual(parsePatOrgs('["contoso"'), []);
+        assert.deepStrictEqual(parsePatOrgs(undefined), []);
+    });
 }
 
 // ─── Test infrastructure ─────────────────────────────────────────────
@@ -2,7 +2,8 @@ import * as vscode from 'vscode';
 import { AdoClient, WorkItem } from '../ado/AdoClient';
 import { AzCliRunner } from '../ado/AzCliRunner';
 import { GroupingEngine, TreeNode, GroupNode, WorkItemNode, QueryNode } from '../grouping/GroupingEngine';
-import { Settings, QueryDefinition } from '../config/Settings';
+import { Settings, QueryDefinition, QueryFolderDefinition } from '../config/Settings';
+import { orgKey } from '../model/workItemKey';
 import { DataStore, LiveDataStore } from '../data/DataStore';
 
 /**
@@ -142,6 +143,10 @@ export class AdoTreeProvider implements vscode.TreeDataProvider<AdoTreeItem> {
     private groupingEngine: GroupingEngine;
     
     private cachedQueries: QueryNode[] = [];
+    /** Queries found in subscribed folders at the last refresh that could list them, by folder. */
+    private folderQueries = new Map<string, QueryDefinition[]>();
+    /** Queries run from `.wiql` editors, shown after the configured ones until the window reloads. */
+    private adHocQueries: QueryDefinition[] = [];
     private isLoading = false;
     private lastError: string | undefined;
     private refreshTimer: NodeJS.Timeout | undefined;
@@ -287,19 +292,19 @@ export class AdoTreeProvider implements vscode.TreeDataProvider<AdoTreeItem> {
         // Track generation for stale request handling
         const generation = ++this.currentGeneration;
         
-        const queries = Settings.getActiveQueries();
-        if (queries.length === 0) {
-            this.cachedQueries = [];
-            this._onDidChangeTreeData.fire();
-            return;
-        }
-
         this.isLoading = true;
         this.lastError = undefined;
         this.updateStatusBar();
         this._onDidChangeTreeData.fire();
 
         try {
+            await this.listSubscribedFolders();
+            const queries = this.allQueries();
+            if (queries.length === 0) {
+                this.cachedQueries = [];
+                return;
+            }
+
             // Load all queries in parallel (CLI concurrency limit raised to 6)
             const queryPromises = queries.map(queryDef => this.loadQueryNode(queryDef));
             const results = await Promise.allSettled(queryPromises);
@@ -350,7 +355,7 @@ export class AdoTreeProvider implements vscode.TreeDataProvider<AdoTreeItem> {
      * Refresh a single query by index
      */
     async refreshSingleQuery(queryIndex: number): Promise<void> {
-        const queries = Settings.getActiveQueries();
+        const queries = this.allQueries();
         if (queryIndex < 0 || queryIndex >= queries.length) {
             return;
         }
@@ -370,6 +375,71 @@ export class AdoTreeProvider implements vscode.TreeDataProvider<AdoTreeItem> {
         this._onDidChangeTreeData.fire();
     }
 
+    /**
+     * Run an inline WIQL query (e.g. a saved `.wiql` document) into the tree.
+     * A query with the same name replaces the earlier run.
+     */
+    async runAdHocQuery(queryDef: QueryDefinition): Promise<void> {
+        const configured = this.allQueries().length - this.adHocQueries.length;
+        const existing = this.adHocQueries.findIndex(q => q.name === queryDef.name);
+        if (existing >= 0) {
+            this.adHocQueries[existing] = queryDef;
+        } else {
+            this.adHocQueries.push(queryDef);
+        }
+        const index = configured + (existing >= 0 ? existing : this.adHocQueries.length - 1);
+        if (index > this.cachedQueries.length) {
+            // The configured queries haven't loaded yet; load everything.
+            await this.refresh();
+            return;
+        }
+        if (index === this.cachedQueries.length) {
+            this.cachedQueries.push({ type: 'query', name: queryDef.name, count: 0, children: [], loading: true });
+            this._onDidChangeTreeData.fire();
+        }
+        await this.refreshSingleQuery(index);
+    }
+
+    /** Configured queries, then those in subscribed folders, then ad-hoc ones. */
+    private allQueries(): QueryDefinition[] {
+        const fromFolders = Settings.queryFolders.flatMap(f => this.folderQueries.get(this.folderKey(f)) ?? []);
+        return [...Settings.getActiveQueries(), ...fromFolders, ...this.adHocQueries];
+    }
+
+    /**
+     * Configured queries plus those in subscribed folders (re-listed first),
+     * for the background pull. Ad-hoc queries aren't pulled. `allListed` is
+     * false while a subscribed folder has never been listed (e.g. offline).
+     */
+    async syncedQueries(): Promise<{ queries: QueryDefinition[]; allListed: boolean }> {
+        await this.listSubscribedFolders();
+        const fromFolders = Settings.queryFolders.flatMap(f => this.folderQueries.get(this.folderKey(f)) ?? []);
+        return {
+            queries: [...Settings.getActiveQueries(), ...fromFolders],
+            allListed: Settings.queryFolders.every(f => this.folderQueries.has(this.folderKey(f)))
+        };
+    }
+
+    /**
+     * Re-list every subscribed folder so queries added there since the last
+     * refresh appear. A folder that can't be listed (e.g. offline) keeps the
+     * queries found last time.
+     */
+    private async listSubscribedFolders(): Promise<void> {
+        for (const folder of Settings.queryFolders) {
+            const queries = await this.dataStore.listFolderQueries(folder);
+            if (queries) {
+                this.folderQueries.set(this.folderKey(folder), queries);
+            } else {
+                this.outputChannel.appendLine(`[${new Date().toISOString()}] Could not list query folder "${folder.path}"`);
+            }
+        }
+    }
+
+    private folderKey(folder: QueryFolderDefinition): string {
+        return `${folder.organization ?? Settings.organization}/${folder.project ?? Settings.project}/${folder.path}`;
+    }
+
     /**
      * Find the index of a query node in the cached queries
      */
@@ -404,7 +474,7 @@ export class AdoTreeProvider implements vscode.TreeDataProvider<AdoTreeItem> {
 
         const workItems = result.data ?? [];
         const groupBy = queryDef.groupBy ?? Settings.groupBy;
-        const children = this.groupingEngine.buildTree(workItems, groupBy);
+        const children = this.groupingEngine.buildTree(workItems, groupBy, queryDef.organization ?? Settings.organization);
         const count = this.countWorkItems(children);
 
         return {
@@ -442,7 +512,7 @@ export class AdoTreeProvider implements vscode.TreeDataProvider<AdoTreeItem> {
         let url = node.url;
         
         if (!url) {
-            url = await this.dataStore.getWorkItemUrl(node.id);
+            url = await this.dataStore.getWorkItemUrl(node.id, node.org);
         }
         
         if (url) {
@@ -456,7 +526,7 @@ export class AdoTreeProvider implements vscode.TreeDataProvider<AdoTreeItem> {
      * Get the URL for a work item (for copying)
      */
     async getWorkItemUrl(node: WorkItemNode): Promise<string | undefined> {
-        return node.url ?? await this.dataStore.getWorkItemUrl(node.id);
+        return node.url ?? await this.dataStore.getWorkItemUrl(node.id, node.org);
     }
 
     /**
@@ -494,10 +564,13 @@ export class AdoTreeProvider implements vscode.TreeDataProvider<AdoTreeItem> {
     }
 
     /**
-     * Find the parent QueryNode for a given work item ID
+     * Find the parent QueryNode for a given work item ID, in `org` when given
      */
-    findParentQuery(workItemId: number): QueryNode | undefined {
+    findParentQuery(workItemId: number, org?: string): QueryNode | undefined {
         for (const query of this.cachedQueries) {
+            if (org !== undefined && orgKey(query.organization ?? Settings.organization) !== orgKey(org)) {
+                continue;
+            }
             if (this.containsWorkItem(query.children, workItemId)) {
                 return query;
             }
@@ -1,40 +1,147 @@
+import { Database } from '../db/Database';
+import { TaskRepository } from '../db/repositories/TaskRepository';
+import { newUuid } from '../db/repositories/WorkItemRepository';
+import { Task, UndoAdoField, UndoJournalEntry, WorkItemKey } from '../model/types';
+
 /**
- * A small bounded undo stack.
- *
- * Each entry pairs a human-readable label with an inverse operation captured at
- * mutation time. Because local mutations are cheap and snapshot-based, undo is
- * simply "run the inverse". Redo is intentionally out of scope for v1.
+ * Where undo sends ADO field edits. Implemented by the sync engine; kept as an
+ * interface so the journal stays free of `vscode`.
  */
-export interface UndoEntry {
-    label: string;
-    undo: () => void;
+export interface UndoOutbox {
+    /** Drop a still-queued op, reverting it locally. False once it has been pushed. */
+    discard(opId: string): boolean;
+    /** Queue a field change for ADO and return the new op's id. */
+    enqueueFieldUpdate(key: WorkItemKey, field: string, value: unknown): Promise<string | undefined>;
 }
 
+/** An entry as recorded, before the journal stamps its id, time and stack. */
+type Recorded<E> = E extends UndoJournalEntry ? Omit<E, 'id' | 'createdAt' | 'stack'> : never;
+type NewEntry = Recorded<UndoJournalEntry>;
+
+/**
+ * A bounded undo/redo history persisted in the database (`undo_journal`).
+ *
+ * Each entry records serialisable before/after states — task snapshots, or
+ * an ADO field's old and new value — so undo restores "before" and redo
+ * re-applies "after", even across reloads. Recording a new change clears the
+ * redo side. Undoing an ADO edit that is still queued simply discards its op;
+ * once it has reached ADO, a compensating op is queued instead.
+ */
 export class UndoStack {
-    private readonly entries: UndoEntry[] = [];
+    constructor(
+        private readonly db: Database,
+        private readonly tasks: TaskRepository,
+        private readonly outbox?: UndoOutbox,
+        private readonly limit = 200
+    ) {}
 
-    constructor(private readonly limit = 50) {}
+    private rows(): UndoJournalEntry[] {
+        return this.db.table<UndoJournalEntry>('undo_journal');
+    }
 
-    push(label: string, undo: () => void): void {
-        this.entries.push({ label, undo });
-        if (this.entries.length > this.limit) {
-            this.entries.shift();
+    /**
+     * Record a task change. Call after mutating, passing the snapshot taken
+     * before it (undefined when the change created the task).
+     */
+    recordTask(label: string, uuid: string, before: Task | undefined): void {
+        this.record({ kind: 'task', label, uuid, before, after: this.tasks.snapshot(uuid) });
+    }
+
+    /** Record an ADO field edit and the outbox op carrying it. */
+    recordAdoField(label: string, key: WorkItemKey, field: string, before: unknown, after: unknown, opId?: string): void {
+        this.record({ kind: 'adoField', label, workItemKey: key, field, before: before ?? null, after, opId });
+    }
+
+    /**
+     * Record an ADO field edit that task `uuid`'s latest change caused, as part
+     * of that change so one undo reverts both. Recorded on its own when the
+     * latest change isn't that task's.
+     */
+    attachAdoField(uuid: string, label: string, key: WorkItemKey, field: string, before: unknown, after: unknown, opId?: string): void {
+        const latest = this.latest('undo');
+        if (latest?.kind !== 'task' || latest.uuid !== uuid || latest.adoField) {
+            this.recordAdoField(label, key, field, before, after, opId);
+            return;
         }
+        latest.adoField = { workItemKey: key, field, before: before ?? null, after, opId };
+        this.db.save();
+    }
+
+    private record(entry: NewEntry): void {
+        const rows = this.rows().filter(e => e.stack === 'undo');
+        rows.push({ ...entry, id: newUuid(), createdAt: new Date().toISOString(), stack: 'undo' } as UndoJournalEntry);
+        this.db.setTable('undo_journal', rows.slice(-this.limit));
+        this.db.save();
     }
 
     get canUndo(): boolean {
-        return this.entries.length > 0;
+        return this.rows().some(e => e.stack === 'undo');
+    }
+
+    get canRedo(): boolean {
+        return this.rows().some(e => e.stack === 'redo');
     }
 
-    /** Pop and run the most recent inverse. Returns its label, if any. */
-    undo(): string | undefined {
-        const entry = this.entries.pop();
+    /** Revert the most recent change. Returns its label, if any. */
+    async undo(): Promise<string | undefined> {
+        const entry = this.latest('undo');
         if (!entry) return undefined;
-        entry.undo();
+        await this.apply(entry, 'before');
+        this.move(entry, 'redo');
+        return entry.label;
+    }
+
+    /** Re-apply the most recently undone change. Returns its label, if any. */
+    async redo(): Promise<string | undefined> {
+        const entry = this.latest('redo');
+        if (!entry) return undefined;
+        await this.apply(entry, 'after');
+        this.move(entry, 'undo');
         return entry.label;
     }
 
     clear(): void {
-        this.entries.length = 0;
+        this.db.setTable('undo_journal', []);
+        this.db.save();
+    }
+
+    private latest(stack: UndoJournalEntry['stack']): UndoJournalEntry | undefined {
+        const rows = this.rows();
+        for (let i = rows.length - 1; i >= 0; i--) {
+            if (rows[i].stack === stack) return rows[i];
+        }
+        return undefined;
+    }
+
+    /** Move an entry to the top of the other stack. */
+    private move(entry: UndoJournalEntry, stack: UndoJournalEntry['stack']): void {
+        const rows = this.rows().filter(e => e.id !== entry.id);
+        rows.push({ ...entry, stack });
+        this.db.setTable('undo_journal', rows);
+        this.db.save();
+    }
+
+    private async apply(entry: UndoJournalEntry, side: 'before' | 'after'): Promise<void> {
+        if (entry.kind === 'task') {
+            const state = entry[side];
+            if (state) {
+                this.tasks.restoreSnapshot(JSON.parse(JSON.stringify(state)) as Task);
+            } else {
+                this.tasks.remove(entry.uuid);
+            }
+            if (entry.adoField) await this.applyAdoField(entry.adoField, side);
+            return;
+        }
+        await this.applyAdoField(entry, side);
+    }
+
+    private async applyAdoField(change: UndoAdoField, side: 'before' | 'after'): Promise<void> {
+        if (!this.outbox) return;
+        // Undoing a change that hasn't left the outbox just drops it.
+        if (side === 'before' && change.opId && this.outbox.discard(change.opId)) {
+            change.opId = undefined;
+            return;
+        }
+        change.opId = await this.outbox.enqueueFieldUpdate(change.workItemKey, change.field, change[side]);
     }
 }
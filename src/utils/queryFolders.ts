@@ -0,0 +1,40 @@
+import type { AdoQueryItem } from '../ado/AdoClient';
+import type { QueryDefinition, QueryFolderDefinition } from '../config/Settings';
+import { orgKey } from '../model/workItemKey';
+
+/**
+ * The saved queries found under a subscribed folder as query definitions,
+ * named by their path below the folder (so "Team/Bugs/Active" under "Team"
+ * reads "Bugs/Active") and sorted by it.
+ */
+export function folderQueryDefinitions(folder: QueryFolderDefinition, queries: AdoQueryItem[]): QueryDefinition[] {
+    const prefix = folder.path.replace(/\/+$/, '') + '/';
+    return queries
+        .filter(q => !q.isFolder)
+        .map(q => ({
+            name: q.path.startsWith(prefix) ? q.path.slice(prefix.length) : q.name,
+            organization: folder.organization,
+            project: folder.project,
+            queryId: q.id,
+            groupBy: folder.groupBy
+        }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Whether a subscribed folder is the folder at `path` in `org`/`project`. A
+ * folder without its own organization or project uses the configured one,
+ * passed as `defaults`.
+ */
+export function isSameQueryFolder(
+    folder: QueryFolderDefinition,
+    defaults: { organization: string; project: string },
+    org: string,
+    project: string,
+    path: string
+): boolean {
+    const trim = (p: string) => p.replace(/\/+$/, '').toLowerCase();
+    return orgKey(folder.organization ?? defaults.organization) === orgKey(org)
+        && (folder.project ?? defaults.project).toLowerCase() === project.toLowerCase()
+        && trim(folder.path) === trim(path);
+}
@@ -5,6 +5,29 @@ export interface ParsedQueryUrl {
     organization?: string;
     project?: string;
     queryId?: string;
+    /** The work item a work item, board or backlog link points at. */
+    workItemId?: number;
+}
+
+const GUID_PATTERN = /^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$/;
+
+/** Project-level pages of the web UI; the path segment before one is the project. */
+const PROJECT_PAGE_PATTERN = /^_(queries|workitems|backlogs|boards|sprints)$/i;
+
+/**
+ * The organization a collection URL belongs to: the account name for Azure
+ * DevOps Services, the configured name for a listed Azure DevOps Server
+ * collection, else the collection URL itself.
+ */
+function organizationOf(collectionUrl: string, collectionUrls: Record<string, string>): string {
+    const devAzure = /^https?:\/\/dev\.azure\.com\/([^/]+)/i.exec(collectionUrl);
+    if (devAzure) return decodeURIComponent(devAzure[1]);
+    const vsts = /^https?:\/\/([^./]+)\.visualstudio\.com(\/DefaultCollection)?$/i.exec(collectionUrl);
+    if (vsts) return vsts[1];
+    const normalized = collectionUrl.toLowerCase();
+    const configured = Object.entries(collectionUrls)
+        .find(([, url]) => url.trim().replace(/\/+$/, '').toLowerCase() === normalized);
+    return configured?.[0] ?? collectionUrl;
 }
 
 /**
@@ -12,28 +35,62 @@ export interface ParsedQueryUrl {
  * Examples:
  * - https://dev.azure.com/org/project/_queries/query/12345678-1234-1234-1234-123456789012
  * - https://org.visualstudio.com/project/_queries/query/12345678-1234-1234-1234-123456789012
+ * - https://tfs.corp/tfs/DefaultCollection/project/_queries/query/12345678-1234-1234-1234-123456789012
+ *
+ * Work item (`_workitems/edit/123`) and board or backlog links
+ * (`?workitem=123`) give their organization, project and work item instead.
+ * On Azure DevOps Server the collection URL is everything before the project,
+ * reported under its name in `collectionUrls` when it's listed there.
  */
-export function extractQueryInfoFromUrl(text: string): ParsedQueryUrl {
-    // Pattern for dev.azure.com URLs
-    const devAzurePattern = /https?:\/\/dev\.azure\.com\/([^\/]+)\/([^\/]+)\/_queries\/query(?:-edit)?\/([0-9a-fA-F-]{36})/i;
-    // Pattern for org.visualstudio.com URLs
-    const vstsPattern = /https?:\/\/([^\.]+)\.visualstudio\.com\/([^\/]+)\/_queries\/query(?:-edit)?\/([0-9a-fA-F-]{36})/i;
-    
-    let match = text.match(devAzurePattern);
-    if (match) {
-        return { organization: match[1], project: decodeURIComponent(match[2]), queryId: match[3] };
-    }
-    
-    match = text.match(vstsPattern);
-    if (match) {
-        return { organization: match[1], project: decodeURIComponent(match[2]), queryId: match[3] };
-    }
-    
+export function extractQueryInfoFromUrl(text: string, collectionUrls: Record<string, string> = {}): ParsedQueryUrl {
+    const trimmed = text.trim();
+
     // Just a GUID
-    const guidPattern = /^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$/;
-    if (guidPattern.test(text.trim())) {
-        return { queryId: text.trim() };
+    if (GUID_PATTERN.test(trimmed)) {
+        return { queryId: trimmed };
+    }
+
+    // The link may come with surrounding text, e.g. "Active Bugs - https://dev.azure.com/…"
+    for (const [candidate] of trimmed.matchAll(/https?:\/\/[^\s<>"'`]+/gi)) {
+        const parsed = parseAdoUrl(candidate.replace(/[).,;:!?\]]+$/, ''), collectionUrls);
+        if (parsed) return parsed;
     }
-    
     return {};
 }
+
+/** Organization, project and query or work item of a single ADO web URL. */
+function parseAdoUrl(text: string, collectionUrls: Record<string, string>): ParsedQueryUrl | undefined {
+    let url: URL;
+    try {
+        url = new URL(text);
+    } catch {
+        return undefined;
+    }
+
+    const segments = url.pathname.split('/').filter(Boolean);
+    const page = segments.findIndex(s => PROJECT_PAGE_PATTERN.test(s));
+    if (page < 1) return undefined;
+
+    const collectionUrl = [url.origin, ...segments.slice(0, page - 1)].join('/');
+    const parsed: ParsedQueryUrl = {
+        organization: organizationOf(collectionUrl, collectionUrls),
+        project: decodeURIComponent(segments[page - 1])
+    };
+
+    const [area, action, target] = segments.slice(page).map(s => s.toLowerCase());
+    if (area === '_queries' && /^query(-edit)?$/.test(action ?? '') && GUID_PATTERN.test(target ?? '')) {
+        parsed.queryId = segments[page + 2];
+    }
+    const workItem = area === '_workitems' && action === 'edit' ? target : url.searchParams.get('workitem');
+    if (workItem && /^\d+$/.test(workItem)) {
+        parsed.workItemId = Number(workItem);
+    }
+    return parsed;
+}
+
+/** A work item ID typed as a number or pasted as a work item, board or backlog link. */
+export function workItemIdFromText(text: string): number | undefined {
+    const trimmed = text.trim();
+    if (/^\d+$/.test(trimmed)) return Number(trimmed);
+    return extractQueryInfoFromUrl(trimmed).workItemId;
+}
@@ -2,6 +2,8 @@ import * as vscode from 'vscode';
 import { TaskRepository } from '../db/repositories/TaskRepository';
 import { ProjectRepository } from '../db/repositories/ProjectRepository';
 import { ViewId } from './protocol';
+import { Project } from '../model/types';
+import { describeBinding } from '../sync/projectBinding';
 
 interface SmartList {
     id: ViewId;
@@ -86,19 +88,21 @@ export class NavigatorProvider implements vscode.TreeDataProvider<NavItem> {
         if (!this.projects) return [];
         return this.projects.allProjects()
             .filter(p => !p.areaUuid)
-            .map(p => this.projectItem(p.uuid, p.name));
+            .map(p => this.projectItem(p));
     }
 
     private projectItems(areaUuid: string): NavItem[] {
         if (!this.projects) return [];
         return this.projects.allProjects()
             .filter(p => p.areaUuid === areaUuid)
-            .map(p => this.projectItem(p.uuid, p.name));
+            .map(p => this.projectItem(p));
     }
 
-    private projectItem(uuid: string, name: string): NavItem {
+    private projectItem(project: Project): NavItem {
+        const { uuid, name } = project;
         const item = new NavItem(name, vscode.TreeItemCollapsibleState.None, 'project', `project:${uuid}`);
-        item.iconPath = new vscode.ThemeIcon('circle-large-outline');
+        item.iconPath = new vscode.ThemeIcon(project.adoBinding ? 'cloud' : 'circle-large-outline');
+        if (project.adoBinding) item.tooltip = `${name}\nSynced from Azure DevOps: ${describeBinding(project.adoBinding)}`;
         const prog = this.projects!.progress(uuid);
         if (prog.total > 0) {
             item.description = `${Math.round(prog.ratio * 100)}%`;
@@ -0,0 +1,116 @@
+import * as vscode from 'vscode';
+import { SyncQueueRepository } from '../db/repositories/SyncQueueRepository';
+import { WorkItemRepository } from '../db/repositories/WorkItemRepository';
+import { TaskRepository } from '../db/repositories/TaskRepository';
+import { SyncOp, SyncOpStatus, WorkItemKey } from '../model/types';
+import { adoIdOf } from '../model/workItemKey';
+
+const STATUS_ICONS: Record<SyncOpStatus, vscode.ThemeIcon> = {
+    pending: new vscode.ThemeIcon('clock'),
+    inflight: new vscode.ThemeIcon('sync~spin'),
+    failed: new vscode.ThemeIcon('error', new vscode.ThemeColor('errorForeground')),
+    done: new vscode.ThemeIcon('check')
+};
+
+/** A queued op, or one of its detail rows (kind 'detail'). */
+export class SyncQueueItem extends vscode.TreeItem {
+    constructor(
+        label: string,
+        collapsible: vscode.TreeItemCollapsibleState,
+        public readonly kind: 'op' | 'detail',
+        public readonly op: SyncOp
+    ) {
+        super(label, collapsible);
+    }
+
+    /** The ADO work item this op touches, if it has one yet. */
+    workItemKey(tasks: TaskRepository): WorkItemKey | undefined {
+        if (this.op.entity === 'workitem') return this.op.targetId;
+        return tasks.getByUuid(this.op.targetId)?.workItemKey;
+    }
+}
+
+/**
+ * The "Sync Queue" view: every outbox op that hasn't reached ADO yet —
+ * pending, inflight and failed — with its target, payload, attempts and last
+ * error. Expanding an op shows the details; context actions retry, discard or
+ * open the work item.
+ */
+export class SyncQueueProvider implements vscode.TreeDataProvider<SyncQueueItem> {
+    private readonly _onDidChangeTreeData = new vscode.EventEmitter<SyncQueueItem | undefined | void>();
+    readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    constructor(
+        private readonly queue: SyncQueueRepository,
+        private readonly workItems: WorkItemRepository,
+        private readonly tasks: TaskRepository
+    ) {}
+
+    refresh(): void {
+        this._onDidChangeTreeData.fire();
+    }
+
+    getTreeItem(element: SyncQueueItem): vscode.TreeItem {
+        return element;
+    }
+
+    getChildren(element?: SyncQueueItem): SyncQueueItem[] {
+        if (!element) return this.queue.unsynced().map(op => this.opItem(op));
+        if (element.kind === 'op') return this.detailItems(element.op);
+        return [];
+    }
+
+    private opItem(op: SyncOp): SyncQueueItem {
+        const item = new SyncQueueItem(this.targetLabel(op), vscode.TreeItemCollapsibleState.Collapsed, 'op', op);
+        item.id = op.opId;
+        item.iconPath = STATUS_ICONS[op.status];
+        item.description = `${describeOp(op)} · ${op.status}`;
+        item.contextValue = `syncOp.${op.status}`;
+        const tooltip = new vscode.MarkdownString(`**${this.targetLabel(op)}**\n\n${describeOp(op)} — ${op.status}`);
+        if (op.lastError) tooltip.appendMarkdown(`\n\nLast error: ${op.lastError}`);
+        item.tooltip = tooltip;
+        return item;
+    }
+
+    private detailItems(op: SyncOp): SyncQueueItem[] {
+        const rows: [string, string][] = [
+            ['Operation', op.opType],
+            ['Payload', JSON.stringify(op.payload)],
+            ['Attempts', String(op.attempts)],
+            ['Queued', new Date(op.createdAt).toLocaleString()]
+        ];
+        if (op.nextAttemptAt && op.status === 'pending') rows.push(['Next attempt', new Date(op.nextAttemptAt).toLocaleString()]);
+        if (op.lastError) rows.push(['Last error', op.lastError]);
+        return rows.map(([label, value]) => {
+            const item = new SyncQueueItem(label, vscode.TreeItemCollapsibleState.None, 'detail', op);
+            item.description = value;
+            item.tooltip = value;
+            return item;
+        });
+    }
+
+    private targetLabel(op: SyncOp): string {
+        if (op.entity === 'task') {
+            const title = this.tasks.getByUuid(op.targetId)?.title ?? String(op.payload['title'] ?? op.targetId);
+            return `New ${String(op.payload['type'] ?? 'work item')}: ${title}`;
+        }
+        const title = this.workItems.get(op.targetId)?.fields['System.Title'];
+        return typeof title === 'string' ? `#${adoIdOf(op.targetId)} ${title}` : `#${adoIdOf(op.targetId)}`;
+    }
+}
+
+/** One-line summary of what an op changes, e.g. "State → Active". */
+function describeOp(op: SyncOp): string {
+    if (op.opType === 'create_work_item') return 'Create';
+    if (op.opType === 'add_comment') return 'Comment';
+    if (op.opType === 'add_attachment') return `Attach ${String(op.payload['name'])}`;
+    if (op.opType === 'link') {
+        const kind = String(op.payload['kind']);
+        return `${op.payload['action'] === 'remove' ? 'Unlink' : 'Link'} ${kind} #${String(op.payload['targetId'])}`;
+    }
+    const [field, value] = op.opType === 'update_state'
+        ? ['System.State', op.payload['state']]
+        : [String(op.payload['field']), op.payload['value']];
+    const name = field.split('.').pop();
+    return value === null || value === undefined || value === '' ? `${name} cleared` : `${name} → ${String(value)}`;
+}
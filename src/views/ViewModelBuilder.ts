@@ -1,9 +1,20 @@
 import { TaskRepository } from '../db/repositories/TaskRepository';
 import { WorkItemRepository } from '../db/repositories/WorkItemRepository';
 import { TagRepository } from '../db/repositories/TagRepository';
-import { Task } from '../model/types';
-import { ViewId, TaskVM, ViewSnapshot, TaskGroupVM, TaskDetailVM, DetailField } from './protocol';
-import { resolveDetailFields } from './detailFields';
+import { ChecklistRepository } from '../db/repositories/ChecklistRepository';
+import { LinkRepository, LINK_LABELS, linkKindForRel } from '../db/repositories/LinkRepository';
+import { ProjectRepository } from '../db/repositories/ProjectRepository';
+import { CommentRepository } from '../db/repositories/CommentRepository';
+import { HistoryRepository } from '../db/repositories/HistoryRepository';
+import { AttachmentRepository } from '../db/repositories/AttachmentRepository';
+import { FieldMetadataRepository } from '../db/repositories/FieldMetadataRepository';
+import { WorkItemStateRepository, guessStateCategory, isClosedCategory } from '../db/repositories/WorkItemStateRepository';
+import { Task, WorkItemKey, WorkItemRow, WorkItemUpdate } from '../model/types';
+import { adoIdOf, siblingKey } from '../model/workItemKey';
+import { ViewId, TaskVM, ViewSnapshot, TaskGroupVM, TaskDetailVM, DetailField, ConflictVM, LinkVM, CommentVM, HistoryEntryVM, AttachmentVM } from './protocol';
+import { resolveDetailFields, getFieldDef, buildFieldCatalog, DetailFieldDef, DETAIL_FIELD_CATALOG } from './detailFields';
+import type { PendingConflict } from '../sync/ConflictQueue';
+import { describeBinding } from '../sync/projectBinding';
 
 const VIEW_TITLES: Record<string, string> = {
     inbox: 'Inbox',
@@ -25,38 +36,128 @@ function dateHeader(iso: string): string {
     return d.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
 }
 
+function formatBytes(bytes: number | undefined): string {
+    if (bytes === undefined) return '';
+    if (bytes < 1024) return `${bytes} B`;
+    const units = ['KB', 'MB', 'GB'];
+    let value = bytes / 1024;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024;
+        unit++;
+    }
+    return `${value < 10 ? value.toFixed(1) : Math.round(value)} ${units[unit]}`;
+}
+
 /** Builds {@link ViewSnapshot}s for the workbench from repositories. */
 export class ViewModelBuilder {
     constructor(
         private readonly tasks: TaskRepository,
         private readonly workItems: WorkItemRepository,
-        private readonly tags?: TagRepository
+        private readonly tags?: TagRepository,
+        private readonly checklists?: ChecklistRepository,
+        private readonly links?: LinkRepository,
+        private readonly projects?: ProjectRepository,
+        private readonly comments?: CommentRepository,
+        private readonly history?: HistoryRepository,
+        private readonly attachments?: AttachmentRepository,
+        private readonly fieldMetadata?: FieldMetadataRepository,
+        private readonly states?: WorkItemStateRepository
     ) {}
 
     toVM(task: Task): TaskVM {
         let state: string | undefined;
         let type: string | undefined;
-        if (task.adoId !== undefined) {
-            const wi = this.workItems.getById(task.adoId);
+        if (task.workItemKey !== undefined) {
+            const wi = this.workItems.get(task.workItemKey);
             state = wi?.state;
             type = wi?.type;
         }
+        const progress = this.checklists?.progress(task.uuid);
+        const parentKey = task.workItemKey !== undefined ? this.links?.parentOf(task.workItemKey) : undefined;
+        const childProgress = this.childProgress(task.workItemKey);
         return {
             uuid: task.uuid,
             title: task.title,
             notes: task.notes,
-            adoId: task.adoId,
+            workItemKey: task.workItemKey,
+            adoId: task.workItemKey !== undefined ? adoIdOf(task.workItemKey) : undefined,
             state,
             type,
             whenDate: task.whenDate,
             deadline: task.deadline,
             completed: !!task.completedAt || !!task.canceledAt,
             today: task.todayFlag === 1,
-            tags: this.tags?.namesFor(task.tagIds) ?? []
+            tags: this.tags?.namesFor(task.tagIds) ?? [],
+            checklist: progress && progress.total > 0 ? progress : undefined,
+            parent: parentKey !== undefined
+                ? { workItemKey: parentKey, adoId: adoIdOf(parentKey), title: this.titleOf(parentKey) }
+                : undefined,
+            childProgress
         };
     }
 
+    /** A work item's title from the mirror, if we have it. */
+    private titleOf(key: WorkItemKey): string | undefined {
+        const title = this.workItems.get(key)?.fields['System.Title'];
+        return typeof title === 'string' ? title : undefined;
+    }
+
+    /** Whether a work item is finished: its task is completed, or its state is in a Completed/Removed category. */
+    private isDone(key: WorkItemKey): boolean {
+        const task = this.tasks.getByWorkItem(key);
+        if (task?.completedAt || task?.canceledAt) return true;
+        const row = this.workItems.get(key);
+        return isClosedCategory(this.states ? this.states.categoryOf(row) : guessStateCategory(row?.state));
+    }
+
+    /** Done/total across a work item's children; undefined when it has none. */
+    private childProgress(key: WorkItemKey | undefined): { done: number; total: number } | undefined {
+        if (key === undefined || !this.links) return undefined;
+        const children = this.links.childrenOf(key);
+        if (children.length === 0) return undefined;
+        return { done: children.filter(k => this.isDone(k)).length, total: children.length };
+    }
+
+    /**
+     * Nest tasks under their parent when both are in the same list, so a story
+     * and its tasks read as one unit. Children whose parent isn't listed stay at
+     * the top level (they still carry {@link TaskVM.parent} for a hint).
+     */
+    private nest(vms: TaskVM[]): TaskVM[] {
+        const byKey = new Map(vms.filter(vm => vm.workItemKey !== undefined).map(vm => [vm.workItemKey!, vm]));
+        const top: TaskVM[] = [];
+        for (const vm of vms) {
+            const parent = vm.parent ? byKey.get(vm.parent.workItemKey) : undefined;
+            if (parent && parent !== vm && !this.isAncestor(vm, parent, byKey)) {
+                (parent.children ??= []).push(vm);
+            } else {
+                top.push(vm);
+            }
+        }
+        return top;
+    }
+
+    /** Guards {@link nest} against link cycles. */
+    private isAncestor(candidate: TaskVM, of: TaskVM, byKey: Map<string, TaskVM>): boolean {
+        const seen = new Set<TaskVM>();
+        let p = of.parent ? byKey.get(of.parent.workItemKey) : undefined;
+        while (p && !seen.has(p)) {
+            if (p === candidate) return true;
+            seen.add(p);
+            p = p.parent ? byKey.get(p.parent.workItemKey) : undefined;
+        }
+        return false;
+    }
+
+    /** Build a view, with sub-tasks nested under parents listed in the same group. */
     build(view: ViewId): ViewSnapshot {
+        const snapshot = this.buildFlat(view);
+        snapshot.groups = snapshot.groups.map(g => ({ ...g, tasks: this.nest(g.tasks) }));
+        return snapshot;
+    }
+
+    private buildFlat(view: ViewId): ViewSnapshot {
         if (view === 'today') {
             const tasks = this.tasks.getToday().map(t => this.toVM(t));
             return { view, title: 'Today', subtitle: new Date().toLocaleDateString(undefined, { weekday: 'long', month: 'long', day: 'numeric' }), groups: [{ tasks }] };
@@ -87,7 +188,9 @@ export class ViewModelBuilder {
                 .filter(t => t.projectUuid === uuid && !t.completedAt && !t.canceledAt)
                 .sort((a, b) => a.sortOrder - b.sortOrder)
                 .map(t => this.toVM(t));
-            return { view, title: 'Project', groups: [{ tasks }] };
+            const project = this.projects?.getProject(uuid);
+            const binding = project?.adoBinding;
+            return { view, title: project?.name ?? 'Project', subtitle: binding ? describeBinding(binding) : undefined, groups: [{ tasks }] };
         }
 
         // inbox / anytime / someday
@@ -104,20 +207,27 @@ export class ViewModelBuilder {
         const detail: TaskDetailVM = {
             uuid: task.uuid,
             title: task.title,
-            adoId: task.adoId,
+            workItemKey: task.workItemKey,
+            adoId: task.workItemKey !== undefined ? adoIdOf(task.workItemKey) : undefined,
             notes: task.notes,
+            checklist: (this.checklists?.forTask(uuid) ?? []).map(i => ({ id: i.id, text: i.text, done: !!i.done })),
+            links: this.buildLinks(task.workItemKey),
+            comments: task.workItemKey !== undefined && this.comments ? this.buildComments(task.workItemKey) : undefined,
+            history: task.workItemKey !== undefined && this.history ? this.buildHistory(task.workItemKey) : undefined,
+            attachments: task.workItemKey !== undefined && this.attachments ? this.buildAttachments(task.workItemKey) : undefined,
+            childProgress: this.childProgress(task.workItemKey),
             fields: []
         };
 
-        const defs = resolveDetailFields(configKeys);
         const localTags = this.tags?.namesFor(task.tagIds) ?? [];
-        const wi = task.adoId !== undefined ? this.workItems.getById(task.adoId) : undefined;
+        const wi = task.workItemKey !== undefined ? this.workItems.get(task.workItemKey) : undefined;
+        const defs = resolveDetailFields(configKeys, this.catalogFor(wi));
         const f = wi?.fields ?? {};
         detail.type = wi?.type;
         detail.state = wi?.state;
         detail.url = typeof f['_url'] === 'string' ? (f['_url'] as string) : undefined;
 
-        if (task.adoId === undefined) {
+        if (task.workItemKey === undefined) {
             detail.fields.push({ label: 'Source', value: 'Local-only task (not in Azure DevOps)' });
         }
 
@@ -127,7 +237,7 @@ export class ViewModelBuilder {
                 const desc = f['System.Description'];
                 if (typeof desc === 'string' && desc.trim()) detail.description = desc;
                 // Editable (plaintext) only for ADO-linked tasks.
-                if (task.adoId !== undefined) detail.descriptionEditable = true;
+                if (task.workItemKey !== undefined) detail.descriptionEditable = true;
                 continue;
             }
 
@@ -137,12 +247,12 @@ export class ViewModelBuilder {
             }
 
             // ADO field
-            if (task.adoId === undefined) continue; // no ADO data for local tasks
+            if (task.workItemKey === undefined) continue; // no ADO data for local tasks
             const raw = def.ref ? f[def.ref] : undefined;
             const kind: DetailField['kind'] | undefined =
                 def.control === 'date' ? 'date' : def.control === 'identity' ? 'identity' : undefined;
-            const value = this.formatFieldValue(raw, kind);
-            const editable = def.editable && task.adoId !== undefined;
+            const value = def.control === 'html' ? this.historyValue(raw, 'html') : this.formatFieldValue(raw, kind);
+            const editable = def.editable && task.workItemKey !== undefined;
             // Always show editable fields (so users can set an empty one); only
             // skip empty read-only fields to keep the pane tidy.
             if (!value && !editable) continue;
@@ -160,16 +270,115 @@ export class ViewModelBuilder {
                 control: def.control,
                 editable,
                 options: def.options,
+                required: def.required,
+                helpText: def.helpText,
                 editValue,
                 // State changes go through a transition picker (valid states are
                 // type-specific), surfaced as a "Change…" action on the row.
-                action: def.key === 'System.State' && task.adoId !== undefined ? 'changeState' : undefined
+                action: def.key === 'System.State' && task.workItemKey !== undefined ? 'changeState' : undefined
             });
         }
 
         return detail;
     }
 
+    /**
+     * The field catalog for a work item's type: the process's fields once
+     * they're cached, otherwise the built-in defaults.
+     */
+    private catalogFor(wi: WorkItemRow | undefined): DetailFieldDef[] {
+        if (!this.fieldMetadata || !wi?.org || !wi.project || !wi.type) return DETAIL_FIELD_CATALOG;
+        return buildFieldCatalog(this.fieldMetadata.forType(wi.org, wi.project, wi.type));
+    }
+
+    /** Every known field across cached types, for labelling fields outside any one item's type. */
+    private knownFields(): DetailFieldDef[] {
+        return buildFieldCatalog(this.fieldMetadata?.allFields() ?? []);
+    }
+
+    /** Links ordered parent, children, then the rest, each with the target's title if known. */
+    private buildLinks(key: WorkItemKey | undefined): LinkVM[] {
+        if (key === undefined || !this.links) return [];
+        const order = Object.keys(LINK_LABELS);
+        return this.links.linksOf(key)
+            .sort((a, b) => order.indexOf(a.kind) - order.indexOf(b.kind) || adoIdOf(a.targetKey) - adoIdOf(b.targetKey))
+            .map(l => ({
+                kind: l.kind,
+                label: LINK_LABELS[l.kind],
+                targetKey: l.targetKey,
+                targetId: adoIdOf(l.targetKey),
+                title: this.titleOf(l.targetKey),
+                done: l.kind === 'child' ? this.isDone(l.targetKey) : undefined
+            }));
+    }
+
+    /** A work item's cached discussion, oldest first; pending comments show as "You". */
+    buildComments(key: WorkItemKey): CommentVM[] {
+        if (!this.comments) return [];
+        return this.comments.forWorkItem(key).map(c => ({
+            id: c.opId ?? String(c.commentId),
+            author: c.author ?? (c.opId ? 'You' : 'Unknown'),
+            date: new Date(c.createdDate).toLocaleString(),
+            html: c.text,
+            pending: c.opId ? true : undefined
+        }));
+    }
+
+    /** A work item's attached files by name; pending uploads last. */
+    buildAttachments(key: WorkItemKey): AttachmentVM[] {
+        if (!this.attachments) return [];
+        return this.attachments.forWorkItem(key).map(a => ({
+            name: a.name,
+            size: formatBytes(a.size),
+            url: a.url,
+            pending: a.opId ? true : undefined
+        }));
+    }
+
+    /** A work item's cached revisions, newest first, skipping saves with nothing to show. */
+    buildHistory(key: WorkItemKey): HistoryEntryVM[] {
+        if (!this.history) return [];
+        const catalog = this.knownFields();
+        return this.history.forWorkItem(key)
+            .reverse()
+            .map(u => ({
+                updateId: u.updateId,
+                by: u.revisedBy ?? 'Unknown',
+                date: u.changedDate ? new Date(u.changedDate).toLocaleString() : '',
+                created: u.updateId === 1 ? true : undefined,
+                changes: this.historyChanges(u, catalog)
+            }))
+            .filter(e => e.changes.length > 0);
+    }
+
+    private historyChanges(update: WorkItemUpdate, catalog: DetailFieldDef[]): HistoryEntryVM['changes'] {
+        const changes = update.fields.map(c => {
+            const def = getFieldDef(c.field, catalog);
+            const show = (raw: unknown) => this.historyValue(raw, def?.control);
+            return { label: def?.label ?? c.field.split('.').pop() ?? c.field, from: show(c.oldValue), to: show(c.newValue) };
+        });
+        for (const r of update.relations) {
+            const kind = linkKindForRel(r.rel);
+            const label = kind ? LINK_LABELS[kind] : r.rel === 'AttachedFile' ? 'Attachment' : r.rel;
+            const title = r.targetId !== undefined ? this.titleOf(siblingKey(update.workItemKey, r.targetId)) : undefined;
+            const target = r.targetId !== undefined ? `#${r.targetId}${title ? ' ' + title : ''}` : 'link';
+            changes.push(r.action === 'added' ? { label, from: '', to: target } : { label, from: target, to: '' });
+        }
+        return changes.filter(c => c.from !== c.to);
+    }
+
+    /** A history value as one line: names for identities, dates for dates, text for rich text. */
+    private historyValue(raw: unknown, control?: string): string {
+        if (raw && typeof raw === 'object' && typeof (raw as Record<string, unknown>)['displayName'] === 'string') {
+            return this.formatFieldValue(raw, 'identity');
+        }
+        if (control === 'html' || (typeof raw === 'string' && /<[a-z][^>]*>/i.test(raw))) {
+            const text = String(raw).replace(/<[^>]+>/g, ' ').replace(/&nbsp;/g, ' ').replace(/\s+/g, ' ').trim();
+            return text.length > 120 ? text.slice(0, 119) + '…' : text;
+        }
+        return this.formatFieldValue(raw, control === 'date' ? 'date' : undefined);
+    }
+
     private pushLocalField(detail: TaskDetailVM, def: { key: string; label: string; control: string; editable: boolean }, task: Task, localTags: string[]): void {
         if (def.key === 'local.when') {
             detail.fields.push({
@@ -189,9 +398,37 @@ export class ViewModelBuilder {
             if (localTags.length > 0) {
                 detail.fields.push({ label: def.label, value: localTags.join(', '), key: def.key, source: 'local', control: 'readonly', editable: false });
             }
+        } else if (def.key === 'local.project' && this.projects) {
+            const project = task.projectUuid ? this.projects.getProject(task.projectUuid) : undefined;
+            detail.fields.push({
+                label: def.label, value: project?.name ?? '', key: def.key, source: 'local', control: 'readonly', editable: false,
+                action: 'moveToProject'
+            });
         }
     }
 
+    /** Present a queued conflict; identities show display names, edits start from "mine". */
+    buildConflict(conflict: PendingConflict): ConflictVM {
+        const def = getFieldDef(conflict.field, this.knownFields());
+        const kind: DetailField['kind'] = def?.control === 'identity' ? 'identity' : def?.control === 'date' ? 'date' : undefined;
+        const show = (raw: unknown) => this.formatFieldValue(raw, kind) || '—';
+        const changedDate = conflict.changedDate ? new Date(conflict.changedDate) : undefined;
+        return {
+            id: conflict.id,
+            workItemKey: conflict.workItemKey,
+            adoId: conflict.adoId,
+            title: conflict.title,
+            field: conflict.field,
+            label: def?.label ?? conflict.field.split('.').pop() ?? conflict.field,
+            base: conflict.base === undefined ? undefined : show(conflict.base),
+            mine: show(conflict.mine),
+            theirs: show(conflict.theirs),
+            mergeValue: kind === 'identity' ? this.identityUniqueName(conflict.mine) : this.editValueFor(conflict.mine, def?.control ?? 'text'),
+            changedBy: conflict.changedBy ? this.formatFieldValue(conflict.changedBy, 'identity') : undefined,
+            changedDate: changedDate && !Number.isNaN(changedDate.getTime()) ? changedDate.toLocaleString() : undefined
+        };
+    }
+
     /** Extract an identity's unique name (email/UPN) for editing. */
     private identityUniqueName(raw: unknown): string {
         if (raw && typeof raw === 'object') {
@@ -0,0 +1,61 @@
+import * as vscode from 'vscode';
+import { WorkItemRepository } from '../db/repositories/WorkItemRepository';
+import { FieldMetadataRepository } from '../db/repositories/FieldMetadataRepository';
+import { DETAIL_FIELD_CATALOG } from './detailFields';
+import { DEFAULT_FIELDS } from '../sync/SyncEngine';
+import { WIQL_KEYWORDS, WIQL_MACROS, fieldNamePrefix } from '../sync/wiql';
+
+/**
+ * Completion for `.wiql` documents. Inside `[brackets]` it offers field
+ * reference names from the local catalog: the fields we mirror, the detail
+ * pane's catalog, the cached process fields, and any other field seen on a
+ * mirrored work item.
+ * Elsewhere it offers WIQL keywords and macros.
+ */
+export class WiqlCompletionProvider implements vscode.CompletionItemProvider {
+    constructor(
+        private readonly workItems: WorkItemRepository,
+        private readonly fieldMetadata?: FieldMetadataRepository
+    ) {}
+
+    provideCompletionItems(document: vscode.TextDocument, position: vscode.Position): vscode.CompletionItem[] {
+        const before = document.lineAt(position.line).text.slice(0, position.character);
+        const prefix = fieldNamePrefix(before);
+        if (prefix === undefined) {
+            return [
+                ...WIQL_KEYWORDS.map(k => new vscode.CompletionItem(k, vscode.CompletionItemKind.Keyword)),
+                ...WIQL_MACROS.map(m => new vscode.CompletionItem(m, vscode.CompletionItemKind.Constant))
+            ];
+        }
+
+        const range = new vscode.Range(position.line, position.character - prefix.length, position.line, position.character);
+        const closed = document.lineAt(position.line).text.charAt(position.character) === ']';
+        return [...this.fieldNames()].map(([ref, label]) => {
+            const item = new vscode.CompletionItem(ref, vscode.CompletionItemKind.Field);
+            item.detail = label;
+            item.range = range;
+            item.insertText = closed ? ref : `${ref}]`;
+            return item;
+        });
+    }
+
+    /** Field reference names, with a friendly label where the catalog has one. */
+    private fieldNames(): Map<string, string | undefined> {
+        const names = new Map<string, string | undefined>();
+        for (const def of DETAIL_FIELD_CATALOG) {
+            if (def.ref) names.set(def.ref, def.label);
+        }
+        for (const field of this.fieldMetadata?.allFields() ?? []) {
+            if (!names.has(field.ref)) names.set(field.ref, field.name);
+        }
+        for (const ref of DEFAULT_FIELDS) {
+            if (!names.has(ref)) names.set(ref, undefined);
+        }
+        for (const row of this.workItems.all()) {
+            for (const ref of Object.keys(row.fields)) {
+                if (!ref.startsWith('_') && !names.has(ref)) names.set(ref, undefined);
+            }
+        }
+        return names;
+    }
+}
@@ -1,11 +1,15 @@
 import * as vscode from 'vscode';
 import { TaskRepository } from '../db/repositories/TaskRepository';
 import { TagRepository } from '../db/repositories/TagRepository';
+import { ProjectRepository } from '../db/repositories/ProjectRepository';
+import { ChecklistRepository } from '../db/repositories/ChecklistRepository';
 import { ViewModelBuilder } from './ViewModelBuilder';
-import { parseQuickEntry } from './quickEntry';
+import { parseQuickEntry, createTaskFromQuickEntry, describeToken } from './quickEntry';
 import { UndoStack } from '../undo/UndoStack';
 import { Settings } from '../config/Settings';
-import { ViewId, WebviewToHost, HostToWebview, SyncStatusVM } from './protocol';
+import { ViewId, WebviewToHost, HostToWebview, SyncStatusVM, ConflictVM } from './protocol';
+import { ConflictDecision } from '../sync/ConflictResolver';
+import { LinkKind, WorkItemKey } from '../model/types';
 
 function getNonce(): string {
     let text = '';
@@ -16,15 +20,47 @@ function getNonce(): string {
     return text;
 }
 
+/** Plaintext typed in the pane as ADO rich text: escaped, with line breaks kept. */
+function textToHtml(text: string): string {
+    const escaped = text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/\r\n|\r|\n/g, '<br>');
+    return `<div>${escaped}</div>`;
+}
+
 export interface WorkbenchCallbacks {
     /** User asked to change a linked work item's ADO state. */
     onChangeState(uuid: string): Promise<void> | void;
+    /** User completed a task; push its work item's Completed state, if it has one. */
+    onTaskCompleted(uuid: string): Promise<void> | void;
     /** User asked to open a work item in the browser. */
-    onOpenWorkItem(adoId: number): void;
+    onOpenWorkItem(key: WorkItemKey): void;
     /** User asked to push a local-only task to ADO as a new work item. */
     onPushToAdo(uuid: string): Promise<void> | void;
     /** User edited an ADO field in the detail pane. */
     onUpdateField(uuid: string, ref: string, value: unknown): Promise<void> | void;
+    /** User asked to turn a checklist item into a child ADO Task of its task's work item. */
+    onConvertChecklistItem(uuid: string, id: number): Promise<void> | void;
+    /** User asked to file the task under a different project. */
+    onMoveToProject(uuid: string): Promise<void> | void;
+    /** User asked to link the task's work item to another one. */
+    onAddLink(uuid: string): Promise<void> | void;
+    /** User removed one of the task's work item links. */
+    onRemoveLink(uuid: string, kind: LinkKind, targetId: number): Promise<void> | void;
+    /** The task's details were opened; refresh its work item's discussion from ADO. */
+    onLoadComments(uuid: string): Promise<void> | void;
+    /** User posted a comment (HTML) on the task's work item. */
+    onAddComment(uuid: string, html: string): Promise<void> | void;
+    /** User opened the History section; fetch any revisions newer than the cached ones. */
+    onLoadHistory(uuid: string): Promise<void> | void;
+    /** User opened one of the work item's attachments. */
+    onOpenAttachment(uuid: string, url: string, name: string): Promise<void> | void;
+    /** User asked to attach a file to the task's work item. */
+    onAttachFile(uuid: string): Promise<void> | void;
+    /** User settled a queued sync conflict. */
+    onResolveConflict(id: string, decision: ConflictDecision): Promise<void> | void;
     /** Something changed; refresh the navigator counts. */
     onDataChanged(): void;
 }
@@ -39,6 +75,7 @@ export class WorkbenchHost {
     private panel: vscode.WebviewPanel | undefined;
     private currentView: ViewId = 'today';
     private lastStatus: SyncStatusVM = { phase: 'idle', pendingCount: 0 };
+    private conflicts: ConflictVM[] = [];
     private openDetailUuid: string | undefined;
     private currentUser: string | undefined;
 
@@ -48,7 +85,9 @@ export class WorkbenchHost {
         private readonly vmBuilder: ViewModelBuilder,
         private readonly callbacks: WorkbenchCallbacks,
         private readonly tags?: TagRepository,
-        private readonly undoStack?: UndoStack
+        private readonly undoStack?: UndoStack,
+        private readonly projects?: ProjectRepository,
+        private readonly checklists?: ChecklistRepository
     ) {}
 
     /** Open (or reveal) the workbench focused on a given view. */
@@ -76,12 +115,18 @@ export class WorkbenchHost {
         this.panel.webview.onDidReceiveMessage((msg: WebviewToHost) => this.handleMessage(msg));
     }
 
+    /** Open (or reveal) the workbench on whatever view it last showed. */
+    reveal(): void {
+        this.openView(this.currentView);
+    }
+
     /** Push a fresh snapshot of the current view to the webview. */
     postSnapshot(): void {
         if (!this.panel) return;
         const snapshot = this.vmBuilder.build(this.currentView);
         this.post({ type: 'snapshot', snapshot });
         this.post({ type: 'syncStatus', status: this.lastStatus });
+        this.post({ type: 'conflict', conflicts: this.conflicts });
     }
 
     /** Update the sync status banner in the webview. */
@@ -90,6 +135,12 @@ export class WorkbenchHost {
         this.post({ type: 'syncStatus', status });
     }
 
+    /** Replace the queued conflicts shown above the list. */
+    setConflicts(conflicts: ConflictVM[]): void {
+        this.conflicts = conflicts;
+        this.post({ type: 'conflict', conflicts });
+    }
+
     /** Provide the signed-in user's name for the "Assign to me" shortcut. */
     setCurrentUser(user: string | undefined): void {
         this.currentUser = user;
@@ -111,8 +162,9 @@ export class WorkbenchHost {
             case 'completeTask': {
                 const snap = this.tasks.snapshot(msg.uuid);
                 this.tasks.complete(msg.uuid);
-                if (snap) this.undoStack?.push('Complete task', () => this.tasks.restoreSnapshot(snap));
+                if (snap) this.undoStack?.recordTask('Complete task', msg.uuid, snap);
                 this.afterMutation();
+                await this.callbacks.onTaskCompleted(msg.uuid);
                 break;
             }
             case 'uncompleteTask':
@@ -122,7 +174,7 @@ export class WorkbenchHost {
             case 'updateTask': {
                 const snap = this.tasks.snapshot(msg.uuid);
                 this.tasks.update(msg.uuid, msg.patch);
-                if (snap) this.undoStack?.push('Edit task', () => this.tasks.restoreSnapshot(snap));
+                if (snap) this.undoStack?.recordTask('Edit task', msg.uuid, snap);
                 this.afterMutation();
                 break;
             }
@@ -140,6 +192,12 @@ export class WorkbenchHost {
                 this.afterMutation();
                 this.reopenDetail(msg.uuid);
                 break;
+            case 'previewQuickEntry': {
+                const tokens = parseQuickEntry(msg.text).tokens
+                    .map(t => ({ kind: t.kind, start: t.start, end: t.end, label: describeToken(t) }));
+                this.post({ type: 'quickEntryPreview', text: msg.text, tokens });
+                break;
+            }
             case 'createTask': {
                 this.createFromQuickEntry(msg.title, msg.view);
                 this.afterMutation();
@@ -154,8 +212,13 @@ export class WorkbenchHost {
                 await this.callbacks.onPushToAdo(msg.uuid);
                 this.afterMutation();
                 break;
+            case 'moveToProject':
+                await this.callbacks.onMoveToProject(msg.uuid);
+                this.afterMutation();
+                this.reopenDetail(msg.uuid);
+                break;
             case 'openWorkItem':
-                this.callbacks.onOpenWorkItem(msg.adoId);
+                this.callbacks.onOpenWorkItem(msg.workItemKey);
                 break;
             case 'openTask': {
                 this.openDetailUuid = msg.uuid;
@@ -163,9 +226,31 @@ export class WorkbenchHost {
                 if (detail) {
                     detail.currentUser = this.currentUser;
                     this.post({ type: 'taskDetail', detail });
+                    if (detail.workItemKey !== undefined) void this.loadComments(msg.uuid);
                 }
                 break;
             }
+            case 'addComment': {
+                if (!msg.text.trim()) break;
+                await this.callbacks.onAddComment(msg.uuid, textToHtml(msg.text));
+                this.postComments(msg.uuid);
+                break;
+            }
+            case 'loadHistory': {
+                await this.callbacks.onLoadHistory(msg.uuid);
+                const key = this.tasks.getByUuid(msg.uuid)?.workItemKey;
+                if (key !== undefined && this.openDetailUuid === msg.uuid) {
+                    this.post({ type: 'history', uuid: msg.uuid, history: this.vmBuilder.buildHistory(key) });
+                }
+                break;
+            }
+            case 'openAttachment':
+                await this.callbacks.onOpenAttachment(msg.uuid, msg.url, msg.name);
+                break;
+            case 'attachFile':
+                await this.callbacks.onAttachFile(msg.uuid);
+                this.reopenDetail(msg.uuid);
+                break;
             case 'closeTask':
                 this.openDetailUuid = undefined;
                 break;
@@ -174,6 +259,46 @@ export class WorkbenchHost {
                 this.afterMutation();
                 this.reopenDetail(msg.uuid);
                 break;
+            case 'addChecklistItem':
+                if (msg.text.trim()) this.checklists?.add(msg.uuid, msg.text.trim());
+                this.afterChecklistChange(msg.uuid);
+                break;
+            case 'toggleChecklistItem':
+                this.checklists?.toggle(msg.id);
+                this.afterChecklistChange(msg.uuid);
+                break;
+            case 'reorderChecklistItem':
+                this.checklists?.reorder(msg.id, msg.beforeId, msg.afterId);
+                this.afterChecklistChange(msg.uuid);
+                break;
+            case 'deleteChecklistItem':
+                this.checklists?.remove(msg.id);
+                this.afterChecklistChange(msg.uuid);
+                break;
+            case 'convertChecklistItem':
+                await this.callbacks.onConvertChecklistItem(msg.uuid, msg.id);
+                this.afterChecklistChange(msg.uuid);
+                break;
+            case 'addLink':
+                await this.callbacks.onAddLink(msg.uuid);
+                this.afterMutation();
+                this.reopenDetail(msg.uuid);
+                break;
+            case 'removeLink':
+                await this.callbacks.onRemoveLink(msg.uuid, msg.kind as LinkKind, msg.targetId);
+                this.afterMutation();
+                this.reopenDetail(msg.uuid);
+                break;
+            case 'resolveConflict': {
+                const conflict = this.conflicts.find(c => c.id === msg.id);
+                if (!conflict) break;
+                const decision: ConflictDecision = msg.choice === 'merged'
+                    ? { merged: this.normalizeFieldValue(conflict.field, msg.value ?? '') }
+                    : msg.choice;
+                await this.callbacks.onResolveConflict(msg.id, decision);
+                this.afterMutation();
+                break;
+            }
             case 'search': {
                 const tasks = this.tasks.search(msg.query).map(t => this.vmBuilder.toVM(t));
                 this.post({ type: 'searchResults', tasks });
@@ -187,6 +312,12 @@ export class WorkbenchHost {
         this.callbacks.onDataChanged();
     }
 
+    /** Checklist progress shows on list rows, so refresh both the list and the open detail. */
+    private afterChecklistChange(uuid: string): void {
+        this.afterMutation();
+        this.reopenDetail(uuid);
+    }
+
     /** Re-send the detail snapshot so edited values reflect immediately. */
     private reopenDetail(uuid: string): void {
         const detail = this.vmBuilder.buildDetail(uuid, Settings.detailFields);
@@ -196,6 +327,18 @@ export class WorkbenchHost {
         }
     }
 
+    /** Fetch the open task's discussion, then update just that section of the pane. */
+    private async loadComments(uuid: string): Promise<void> {
+        await this.callbacks.onLoadComments(uuid);
+        this.postComments(uuid);
+    }
+
+    private postComments(uuid: string): void {
+        const key = this.tasks.getByUuid(uuid)?.workItemKey;
+        if (key === undefined || this.openDetailUuid !== uuid) return;
+        this.post({ type: 'comments', uuid, comments: this.vmBuilder.buildComments(key) });
+    }
+
     /** Refresh the currently open detail pane (e.g. after a settings change). */
     refreshOpenDetail(): void {
         if (this.openDetailUuid) this.reopenDetail(this.openDetailUuid);
@@ -203,34 +346,22 @@ export class WorkbenchHost {
 
     /**
      * Normalize an inbound field value before it is pushed to ADO.
-     * Description is edited as plaintext but stored as HTML in ADO, so we escape
-     * it and preserve line breaks.
+     * Description is edited as plaintext but stored as HTML in ADO.
      */
     private normalizeFieldValue(ref: string, value: unknown): unknown {
         if (ref === 'System.Description' && typeof value === 'string') {
-            if (value.trim() === '') return '';
-            const escaped = value
-                .replace(/&/g, '&amp;')
-                .replace(/</g, '&lt;')
-                .replace(/>/g, '&gt;')
-                .replace(/\r\n|\r|\n/g, '<br>');
-            return `<div>${escaped}</div>`;
+            return value.trim() === '' ? '' : textToHtml(value);
         }
         return value;
     }
 
-    /** Create a task from a quick-entry line, applying #tags and today/tomorrow. */
+    /** Create a task from a quick-entry line, applying every token it recognises. */
     private createFromQuickEntry(raw: string, view: ViewId): void {
-        const parsed = parseQuickEntry(raw);
-        const title = parsed.title || raw.trim();
         const list = view === 'someday' ? 'someday' : view === 'anytime' ? 'anytime' : 'inbox';
-        const task = this.tasks.createLocal(title, list);
-        if (parsed.whenDate) this.tasks.setWhen(task.uuid, parsed.whenDate);
-        if (this.tags && parsed.tags.length > 0) {
-            const ids = parsed.tags.map(name => this.tags!.getOrCreate(name).id);
-            this.tasks.setTags(task.uuid, ids);
-        }
-        this.undoStack?.push('Add task', () => this.tasks.remove(task.uuid));
+        const { task } = createTaskFromQuickEntry(parseQuickEntry(raw), raw, list, {
+            tasks: this.tasks, tags: this.tags, projects: this.projects
+        });
+        this.undoStack?.recordTask('Add task', task.uuid, undefined);
     }
 
     private renderHtml(webview: vscode.Webview): string {
@@ -260,8 +391,11 @@ export class WorkbenchHost {
             <div id="view-subtitle"></div>
         </header>
         <div id="sync-banner" class="hidden"></div>
+        <section id="conflicts" class="hidden" aria-label="Sync conflicts"></section>
         <div id="quick-add">
+            <div id="quick-add-highlight" aria-hidden="true"></div>
             <input id="quick-add-input" type="text" placeholder="New To-Do" aria-label="New to-do" />
+            <div id="quick-add-summary" class="hidden"></div>
         </div>
         <main id="list"></main>
         <div id="empty-state" class="hidden"></div>
@@ -274,11 +408,34 @@ export class WorkbenchHost {
         <h2 id="detail-title"></h2>
         <div id="detail-subtitle"></div>
         <div id="detail-description" class="hidden"></div>
+        <div id="detail-checklist-wrap">
+            <div class="detail-section-label">Checklist <span id="detail-checklist-progress"></span></div>
+            <ul id="detail-checklist"></ul>
+            <input id="detail-checklist-input" class="detail-input" type="text" placeholder="Add checklist item" aria-label="Add checklist item" />
+        </div>
+        <div id="detail-links-wrap" class="hidden">
+            <div class="detail-section-label">Links <span id="detail-child-progress"></span> <button id="detail-add-link" class="action-btn" title="Add link">+ Add</button></div>
+            <ul id="detail-links"></ul>
+        </div>
         <dl id="detail-fields"></dl>
+        <div id="detail-attachments-wrap" class="hidden">
+            <div class="detail-section-label">Attachments <button id="detail-attach-file" class="action-btn" title="Attach a file">+ Attach</button></div>
+            <ul id="detail-attachments"></ul>
+        </div>
         <div id="detail-notes-wrap" class="hidden">
             <div class="detail-section-label">Notes</div>
             <div id="detail-notes"></div>
         </div>
+        <details id="detail-history-wrap" class="hidden">
+            <summary class="detail-section-label">History</summary>
+            <ol id="detail-history"></ol>
+        </details>
+        <div id="detail-comments-wrap" class="hidden">
+            <div class="detail-section-label">Discussion</div>
+            <ul id="detail-comments"></ul>
+            <textarea id="detail-comment-input" class="detail-input" rows="3" placeholder="Add a comment (Ctrl+Enter to post)" aria-label="Add a comment"></textarea>
+            <button id="detail-comment-post" class="action-btn">Comment</button>
+        </div>
     </aside>
     <script nonce="${nonce}" src="${jsUri}"></script>
 </body>
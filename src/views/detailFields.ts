@@ -6,10 +6,17 @@
  * stores: an ADO field reference name for ADO fields, or a `local.*` key for
  * the extension's own fields.
  *
+ * The static entries below are the built-in defaults. Once a work item type's
+ * field metadata has been fetched from its process, {@link buildFieldCatalog}
+ * layers the real allowed values and read-only/required flags on top and adds
+ * the type's other fields (custom ones included).
+ *
  * This module is intentionally free of any `vscode` dependency so it can be
  * unit-tested and used by the (vscode-free) ViewModelBuilder.
  */
 
+import type { FieldMetadata } from '../model/types';
+
 export type DetailControl = 'text' | 'date' | 'number' | 'enum' | 'identity' | 'html' | 'readonly';
 
 export interface DetailFieldDef {
@@ -23,6 +30,9 @@ export interface DetailFieldDef {
     editable: boolean;
     /** For enum controls. */
     options?: string[];
+    /** The process requires a value. */
+    required?: boolean;
+    helpText?: string;
 }
 
 export const DETAIL_FIELD_CATALOG: DetailFieldDef[] = [
@@ -47,7 +57,8 @@ export const DETAIL_FIELD_CATALOG: DetailFieldDef[] = [
     { key: 'System.ChangedDate', ref: 'System.ChangedDate', label: 'Changed', source: 'ado', control: 'readonly', editable: false },
     { key: 'local.when', label: 'When', source: 'local', control: 'date', editable: true },
     { key: 'local.deadline', label: 'Deadline', source: 'local', control: 'date', editable: true },
-    { key: 'local.tags', label: 'Tags', source: 'local', control: 'readonly', editable: false }
+    { key: 'local.tags', label: 'Tags', source: 'local', control: 'readonly', editable: false },
+    { key: 'local.project', label: 'Project', source: 'local', control: 'readonly', editable: false }
 ];
 
 /** Sensible default: a useful subset rather than every field. */
@@ -62,22 +73,84 @@ export const DEFAULT_DETAIL_KEYS: string[] = [
     'local.when',
     'local.deadline',
     'local.tags',
+    'local.project',
     'System.ChangedDate'
 ];
 
 const BY_KEY = new Map(DETAIL_FIELD_CATALOG.map(d => [d.key, d]));
 
-export function getFieldDef(key: string): DetailFieldDef | undefined {
-    return BY_KEY.get(key);
+export function getFieldDef(key: string, catalog?: DetailFieldDef[]): DetailFieldDef | undefined {
+    return catalog ? catalog.find(d => d.key === key) : BY_KEY.get(key);
 }
 
 /** Resolve which field defs to show, in the user's configured order. */
-export function resolveDetailFields(configKeys?: string[]): DetailFieldDef[] {
+export function resolveDetailFields(configKeys?: string[], catalog?: DetailFieldDef[]): DetailFieldDef[] {
     const keys = configKeys && configKeys.length > 0 ? configKeys : DEFAULT_DETAIL_KEYS;
+    const byKey = catalog ? new Map(catalog.map(d => [d.key, d])) : BY_KEY;
     const out: DetailFieldDef[] = [];
     for (const key of keys) {
-        const def = BY_KEY.get(key);
+        const def = byKey.get(key);
         if (def) out.push(def);
     }
     return out;
 }
+
+/** The editor control for a field the built-in catalog doesn't know, from its ADO type. */
+function controlFor(meta: FieldMetadata): DetailControl {
+    if (meta.allowedValues) return 'enum';
+    switch (meta.type) {
+        case 'identity': return 'identity';
+        case 'dateTime': return 'date';
+        case 'integer':
+        case 'double': return 'number';
+        case 'boolean': return 'enum';
+        case 'html': return 'html';
+        case 'string':
+        case 'plainText':
+        case 'picklistString':
+        case 'picklistInteger':
+        case 'picklistDouble': return 'text';
+        default: return 'readonly';
+    }
+}
+
+/**
+ * The detail field catalog for a work item type, given its cached metadata.
+ * Built-in entries keep their labels, order and special handling but take the
+ * process's allowed values and flags; the type's remaining fields follow by
+ * name. With no metadata this is the static catalog.
+ */
+export function buildFieldCatalog(metadata: FieldMetadata[]): DetailFieldDef[] {
+    if (metadata.length === 0) return DETAIL_FIELD_CATALOG;
+    const byRef = new Map(metadata.map(m => [m.ref, m]));
+    const known = DETAIL_FIELD_CATALOG.map(def => {
+        const meta = def.ref ? byRef.get(def.ref) : undefined;
+        if (!meta) return def;
+        const picklist = meta.allowedValues && (def.control === 'enum' || def.control === 'text' || def.control === 'number');
+        return {
+            ...def,
+            control: picklist ? 'enum' as const : def.control,
+            options: picklist ? meta.allowedValues : def.options,
+            editable: def.editable && !meta.readOnly,
+            required: meta.required || undefined,
+            helpText: meta.helpText
+        };
+    });
+    const extra = metadata
+        .filter(m => !BY_KEY.has(m.ref))
+        .map((m): DetailFieldDef => {
+            const control = controlFor(m);
+            return {
+                key: m.ref,
+                ref: m.ref,
+                label: m.name,
+                source: 'ado',
+                control,
+                editable: !m.readOnly && control !== 'readonly' && control !== 'html',
+                options: m.allowedValues ?? (m.type === 'boolean' ? ['True', 'False'] : undefined),
+                required: m.required || undefined,
+                helpText: m.helpText
+            };
+        });
+    return [...known, ...extra];
+}
@@ -22,6 +22,8 @@ export interface TaskVM {
     uuid: string;
     title: string;
     notes: string;
+    /** Org-qualified key of the linked work item; `adoId` is its display number. */
+    workItemKey?: string;
     adoId?: number;
     state?: string;
     type?: string;
@@ -30,6 +32,14 @@ export interface TaskVM {
     completed: boolean;
     today: boolean;
     tags: string[];
+    /** Checklist progress; absent when the task has no checklist. */
+    checklist?: { done: number; total: number };
+    /** The work item's parent, when it has one. */
+    parent?: { workItemKey: string; adoId: number; title?: string };
+    /** Sub-tasks shown nested under this one (their parent is in the same list). */
+    children?: TaskVM[];
+    /** Rolled-up completion across all of the work item's children. */
+    childProgress?: { done: number; total: number };
 }
 
 /** A labelled group of tasks (e.g. a date header in Upcoming). */
@@ -67,21 +77,57 @@ export interface DetailField {
     control?: 'text' | 'date' | 'number' | 'enum' | 'identity' | 'html' | 'readonly';
     editable?: boolean;
     options?: string[];
+    /** The work item's process requires a value. */
+    required?: boolean;
+    /** The process's help text for the field, shown as a tooltip. */
+    helpText?: string;
     /** Raw value bound to the editor control (e.g. YYYY-MM-DD for dates). */
     editValue?: string;
     /** A non-inline action this field offers (e.g. State opens a transition picker). */
-    action?: 'changeState';
+    action?: 'changeState' | 'moveToProject';
+}
+
+/** One step of a task's checklist. */
+export interface ChecklistItemVM {
+    id: number;
+    text: string;
+    done: boolean;
+}
+
+/** A link from the task's work item to another one. */
+export interface LinkVM {
+    /** parent / child / related / predecessor / successor */
+    kind: string;
+    /** Friendly kind, e.g. "Parent". */
+    label: string;
+    targetKey: string;
+    targetId: number;
+    /** The target's title, when it is in the local mirror. */
+    title?: string;
+    /** Whether the target is finished, when known. */
+    done?: boolean;
 }
 
 /** Full read-only detail for one task (rich ADO fields + local fields). */
 export interface TaskDetailVM {
     uuid: string;
     title: string;
+    workItemKey?: string;
     adoId?: number;
     type?: string;
     state?: string;
     /** Local-only markdown notes. */
     notes: string;
+    checklist: ChecklistItemVM[];
+    /** Links of the task's work item; empty for local-only tasks. */
+    links: LinkVM[];
+    /** The work item's discussion, oldest first (ADO-linked tasks only). */
+    comments?: CommentVM[];
+    /** Cached revision history, newest first (ADO-linked tasks only). */
+    history?: HistoryEntryVM[];
+    /** Files attached to the work item (ADO-linked tasks only). */
+    attachments?: AttachmentVM[];
+    childProgress?: { done: number; total: number };
     /** ADO rich-text description (HTML), if any. */
     description?: string;
     /** True when the description can be edited (plaintext) and pushed to ADO. */
@@ -93,6 +139,71 @@ export interface TaskDetailVM {
     currentUser?: string;
 }
 
+/** One comment in a work item's discussion. */
+export interface CommentVM {
+    /** ADO comment id, or the outbox op id while pending. */
+    id: string;
+    author: string;
+    /** Localized date and time. */
+    date: string;
+    /** ADO rich text; the webview renders it as plain text. */
+    html: string;
+    /** Still waiting in the outbox. */
+    pending?: boolean;
+}
+
+/** One file attached to a work item. */
+export interface AttachmentVM {
+    name: string;
+    /** Human-readable size, e.g. "1.2 MB"; empty when unknown. */
+    size: string;
+    /** Attachment URL; absent while the upload is pending. */
+    url?: string;
+    pending?: boolean;
+}
+
+/** One save in a work item's history, as a field-by-field diff. */
+export interface HistoryEntryVM {
+    updateId: number;
+    by: string;
+    /** Localized date and time. */
+    date: string;
+    /** Whether this is the save that created the item. */
+    created?: boolean;
+    /** `from` is empty for a field that was set, `to` for one that was cleared. */
+    changes: { label: string; from: string; to: string }[];
+}
+
+/** A field both sides changed, presented side by side for the user to settle. */
+export interface ConflictVM {
+    id: string;
+    workItemKey: string;
+    adoId: number;
+    title?: string;
+    field: string;
+    /** Friendly field name (e.g. "Priority"). */
+    label: string;
+    /** Formatted values; `base` is absent when the change didn't record one. */
+    base?: string;
+    mine: string;
+    theirs: string;
+    /** Editable starting point for a merged value. */
+    mergeValue: string;
+    changedBy?: string;
+    changedDate?: string;
+}
+
+/** A recognised quick-entry token, for highlighting the input as the user types. */
+export interface QuickEntryTokenVM {
+    /** tag / when / deadline / project / list / priority / type */
+    kind: string;
+    /** Offsets into the previewed text, end exclusive. */
+    start: number;
+    end: number;
+    /** What it sets, e.g. "When: Fri 23 Oct". */
+    label: string;
+}
+
 /** Webview -> Host */
 export type WebviewToHost =
     | { type: 'ready' }
@@ -104,13 +215,27 @@ export type WebviewToHost =
     | { type: 'setWhen'; uuid: string; date?: string }
     | { type: 'setDeadline'; uuid: string; date?: string }
     | { type: 'createTask'; title: string; view: ViewId }
-    | { type: 'openWorkItem'; adoId: number }
+    | { type: 'previewQuickEntry'; text: string }
+    | { type: 'openWorkItem'; workItemKey: string }
     | { type: 'changeState'; uuid: string }
     | { type: 'pushToAdo'; uuid: string }
     | { type: 'openTask'; uuid: string }
     | { type: 'closeTask' }
     | { type: 'updateField'; uuid: string; ref: string; value: unknown }
-    | { type: 'search'; query: string };
+    | { type: 'search'; query: string }
+    | { type: 'addChecklistItem'; uuid: string; text: string }
+    | { type: 'toggleChecklistItem'; uuid: string; id: number }
+    | { type: 'reorderChecklistItem'; uuid: string; id: number; beforeId?: number; afterId?: number }
+    | { type: 'deleteChecklistItem'; uuid: string; id: number }
+    | { type: 'convertChecklistItem'; uuid: string; id: number }
+    | { type: 'moveToProject'; uuid: string }
+    | { type: 'addLink'; uuid: string }
+    | { type: 'removeLink'; uuid: string; kind: string; targetId: number }
+    | { type: 'addComment'; uuid: string; text: string }
+    | { type: 'loadHistory'; uuid: string }
+    | { type: 'openAttachment'; uuid: string; url: string; name: string }
+    | { type: 'attachFile'; uuid: string }
+    | { type: 'resolveConflict'; id: string; choice: 'mine' | 'theirs' | 'merged'; value?: string };
 
 /** Host -> Webview */
 export type HostToWebview =
@@ -118,4 +243,8 @@ export type HostToWebview =
     | { type: 'syncStatus'; status: SyncStatusVM }
     | { type: 'taskUpdated'; task: TaskVM }
     | { type: 'taskDetail'; detail: TaskDetailVM }
-    | { type: 'searchResults'; tasks: TaskVM[] };
+    | { type: 'comments'; uuid: string; comments: CommentVM[] }
+    | { type: 'history'; uuid: string; history: HistoryEntryVM[] }
+    | { type: 'searchResults'; tasks: TaskVM[] }
+    | { type: 'conflict'; conflicts: ConflictVM[] }
+    | { type: 'quickEntryPreview'; text: string; tokens: QuickEntryTokenVM[] };
@@ -1,50 +1,256 @@
+import { ListName, Task } from '../model/types';
+import { TaskRepository } from '../db/repositories/TaskRepository';
+import { TagRepository } from '../db/repositories/TagRepository';
+import { ProjectRepository } from '../db/repositories/ProjectRepository';
+
 /**
  * Natural-language quick entry, à la Things.
  *
  * From a single typed line we extract:
  *  - inline `#tag` tokens
- *  - scheduling keywords `today` / `tomorrow` (as a do-date)
- * leaving a clean title behind.
+ *  - a do-date: `today`, `tomorrow`, a weekday (`friday`, `on friday`),
+ *    `next week`, `in 3 days` / `in 2 weeks` / `in a month`, or an absolute
+ *    date (`2026-11-03`, `nov 3`, `3rd November 2027`)
+ *  - a deadline: `!` followed by any date above (`!friday`, `!nov 3`)
+ *  - `@project` (or `@"Quoted Name"`), `someday` / `anytime` for the list
+ *  - `p1`..`p4` for ADO priority, `type:Bug` (or `type:"User Story"`) for
+ *    the work item type to create on push
+ * leaving a clean title behind. Every recognised token is reported with its
+ * span in the raw input so the UI can highlight it.
  */
 
+export type QuickEntryTokenKind = 'tag' | 'when' | 'deadline' | 'project' | 'list' | 'priority' | 'type';
+
+export interface QuickEntryToken {
+    kind: QuickEntryTokenKind;
+    /** Offsets into the raw input, end exclusive. */
+    start: number;
+    end: number;
+    /** What the token means: an ISO date, tag/project name, list, priority or type. */
+    value: string;
+}
+
 export interface ParsedQuickEntry {
     title: string;
-    /** ISO date for the do-date, if a scheduling keyword was present. */
+    /** ISO date for the do-date, if a scheduling phrase was present. */
     whenDate?: string;
+    /** ISO date from a `!date` token. */
+    deadline?: string;
     tags: string[];
+    /** Project name from `@project`; resolve it with {@link ProjectRepository.findProjectByName}. */
+    project?: string;
+    list?: Extract<ListName, 'someday' | 'anytime'>;
+    /** ADO priority, 1 (highest) to 4. */
+    priority?: number;
+    /** Work item type to create when the task is pushed to ADO. */
+    workItemType?: string;
+    tokens: QuickEntryToken[];
 }
 
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const KNOWN_TYPES = ['Task', 'Bug', 'User Story', 'Feature', 'Epic', 'Issue', 'Product Backlog Item'];
+
+const MONTH = '(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)';
+const DAY = '\\d{1,2}(?:st|nd|rd|th)?';
+const DATE_PHRASE = [
+    'today',
+    'tomorrow',
+    'next\\s+week',
+    `(?:on\\s+)?(?:${WEEKDAYS.join('|')})`,
+    'in\\s+(?:\\d+|an?)\\s+(?:days?|weeks?|months?)',
+    '\\d{4}-\\d{2}-\\d{2}',
+    `${MONTH}\\.?\\s+${DAY}(?:,?\\s+\\d{4})?`,
+    `${DAY}\\s+${MONTH}\\.?(?:,?\\s+\\d{4})?`
+].join('|');
+
+/** Tokens must stand alone: start of input or whitespace before, a break after. */
+const BEFORE = '(?<=^|\\s)';
+const AFTER = '(?=$|\\s|[,.;:!?)])';
+
+function token(body: string): RegExp {
+    return new RegExp(`${BEFORE}(?:${body})${AFTER}`, 'gi');
+}
+
+/** The local calendar date of `d` as YYYY-MM-DD (not its UTC date, which differs east of UTC). */
 function isoDate(d: Date): string {
-    d.setHours(0, 0, 0, 0);
-    return d.toISOString().slice(0, 10);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+function addDays(d: Date, days: number): Date {
+    const out = new Date(d);
+    out.setDate(out.getDate() + days);
+    return out;
+}
+
+/** A calendar date, or undefined when it doesn't exist (e.g. Feb 30). */
+function makeDate(year: number, month: number, day: number): Date | undefined {
+    const d = new Date(year, month, day);
+    return d.getMonth() === month && d.getDate() === day ? d : undefined;
+}
+
+/** Month and day with no year means the next time that date comes round. */
+function upcoming(month: number, day: number, year: string | undefined, today: Date): Date | undefined {
+    if (year) return makeDate(Number(year), month, day);
+    const thisYear = makeDate(today.getFullYear(), month, day);
+    if (thisYear && thisYear >= today) return thisYear;
+    return makeDate(today.getFullYear() + 1, month, day);
+}
+
+/** Resolve a phrase matched by {@link DATE_PHRASE} to an ISO date. */
+function resolveDate(phrase: string, now: Date): string | undefined {
+    const p = phrase.toLowerCase().replace(/\s+/g, ' ').replace(/^on /, '');
+    const today = new Date(now);
+    today.setHours(0, 0, 0, 0);
+
+    if (p === 'today') return isoDate(today);
+    if (p === 'tomorrow') return isoDate(addDays(today, 1));
+    // Weekdays and "next week" mean the next one strictly after today.
+    if (p === 'next week') return isoDate(addDays(today, (8 - today.getDay()) % 7 || 7));
+    const weekday = WEEKDAYS.indexOf(p);
+    if (weekday >= 0) return isoDate(addDays(today, (weekday - today.getDay() + 7) % 7 || 7));
+
+    const relative = /^in (\d+|an?) (day|week|month)s?$/.exec(p);
+    if (relative) {
+        const n = /^\d+$/.test(relative[1]) ? Number(relative[1]) : 1;
+        if (relative[2] === 'day') return isoDate(addDays(today, n));
+        if (relative[2] === 'week') return isoDate(addDays(today, n * 7));
+        // Clamp to the month's last day rather than spilling over (Jan 31 + 1 month = Feb 28).
+        const target = new Date(today.getFullYear(), today.getMonth() + n, 1);
+        const lastDay = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate();
+        target.setDate(Math.min(today.getDate(), lastDay));
+        return isoDate(target);
+    }
+
+    const iso = /^(\d{4})-(\d{2})-(\d{2})$/.exec(p);
+    if (iso) {
+        const d = makeDate(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]));
+        return d ? isoDate(d) : undefined;
+    }
+
+    const monthFirst = /^([a-z]+)\.? (\d{1,2})(?:st|nd|rd|th)?(?:,? (\d{4}))?$/.exec(p);
+    const dayFirst = /^(\d{1,2})(?:st|nd|rd|th)? ([a-z]+)\.?(?:,? (\d{4}))?$/.exec(p);
+    const [monthName, day, year] = monthFirst
+        ? [monthFirst[1], monthFirst[2], monthFirst[3]]
+        : dayFirst ? [dayFirst[2], dayFirst[1], dayFirst[3]] : [];
+    if (monthName && day) {
+        const d = upcoming(MONTHS.indexOf(monthName.slice(0, 3)), Number(day), year, today);
+        return d ? isoDate(d) : undefined;
+    }
+    return undefined;
+}
+
+/** Map `bug` / `user-story` onto the canonical type name where we know it. */
+function canonicalType(raw: string): string {
+    const key = raw.replace(/[-_]+/g, ' ').toLowerCase();
+    return KNOWN_TYPES.find(t => t.toLowerCase() === key) ?? raw;
 }
 
 export function parseQuickEntry(raw: string, now: Date = new Date()): ParsedQuickEntry {
-    let text = raw.trim();
-    const tags: string[] = [];
-
-    // Extract #tags (letters, digits, dash, underscore).
-    text = text.replace(/#([\w-]+)/g, (_m, tag) => {
-        tags.push(String(tag));
-        return '';
-    });
-
-    let whenDate: string | undefined;
-    // Scheduling keywords as standalone words (case-insensitive).
-    const todayRe = /\btoday\b/i;
-    const tomorrowRe = /\btomorrow\b/i;
-    if (tomorrowRe.test(text)) {
-        const d = new Date(now);
-        d.setDate(d.getDate() + 1);
-        whenDate = isoDate(d);
-        text = text.replace(tomorrowRe, '');
-    } else if (todayRe.test(text)) {
-        whenDate = isoDate(new Date(now));
-        text = text.replace(todayRe, '');
+    const tokens: QuickEntryToken[] = [];
+    const overlaps = (start: number, end: number) => tokens.some(t => start < t.end && end > t.start);
+
+    /** Claim each free match of `re` whose value `read` accepts; stop after `limit` claims. */
+    const scan = (kind: QuickEntryTokenKind, re: RegExp, read: (m: RegExpExecArray) => string | undefined, limit = Infinity) => {
+        let claimed = 0;
+        for (const m of raw.matchAll(re)) {
+            if (claimed >= limit) break;
+            const start = m.index ?? 0;
+            const end = start + m[0].length;
+            if (overlaps(start, end)) continue;
+            const value = read(m as RegExpExecArray);
+            if (value === undefined) continue;
+            tokens.push({ kind, start, end, value });
+            claimed++;
+        }
+    };
+
+    scan('type', token('type:(?:"([^"]+)"|([\\w-]+))'), m => canonicalType((m[1] ?? m[2]).trim()), 1);
+    scan('deadline', token(`!(${DATE_PHRASE})`), m => resolveDate(m[1], now), 1);
+    scan('tag', token('#([\\w-]+)'), m => m[1]);
+    scan('project', token('@(?:"([^"]+)"|([\\w-]+))'), m => (m[1] ?? m[2]).trim(), 1);
+    scan('priority', token('p([1-4])'), m => m[1], 1);
+    scan('list', token('someday|anytime'), m => m[0].toLowerCase(), 1);
+    scan('when', token(DATE_PHRASE), m => resolveDate(m[0], now), 1);
+
+    tokens.sort((a, b) => a.start - b.start);
+    const valueOf = (kind: QuickEntryTokenKind) => tokens.find(t => t.kind === kind)?.value;
+
+    // Cut the tokens out and collapse leftover whitespace.
+    let title = '';
+    let from = 0;
+    for (const t of tokens) {
+        title += raw.slice(from, t.start) + ' ';
+        from = t.end;
     }
+    title = (title + raw.slice(from)).replace(/\s{2,}/g, ' ').trim();
 
-    // Collapse leftover whitespace.
-    const title = text.replace(/\s{2,}/g, ' ').trim();
+    const priority = valueOf('priority');
+    return {
+        title,
+        whenDate: valueOf('when'),
+        deadline: valueOf('deadline'),
+        tags: tokens.filter(t => t.kind === 'tag').map(t => t.value),
+        project: valueOf('project'),
+        list: valueOf('list') as ParsedQuickEntry['list'],
+        priority: priority ? Number(priority) : undefined,
+        workItemType: valueOf('type'),
+        tokens
+    };
+}
 
-    return { title, whenDate, tags };
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+function friendlyDate(iso: string): string {
+    const [y, m, d] = iso.split('-').map(Number);
+    const date = new Date(y, m - 1, d);
+    return `${DAY_NAMES[date.getDay()]} ${d} ${MONTH_NAMES[m - 1]}${y === new Date().getFullYear() ? '' : ` ${y}`}`;
+}
+
+/** A short human description of a token, e.g. "When: Fri 23 Oct" or "Priority 1". */
+export function describeToken(t: QuickEntryToken): string {
+    switch (t.kind) {
+        case 'tag': return `#${t.value}`;
+        case 'when': return `When: ${friendlyDate(t.value)}`;
+        case 'deadline': return `Deadline: ${friendlyDate(t.value)}`;
+        case 'project': return `Project: ${t.value}`;
+        case 'list': return t.value === 'someday' ? 'Someday' : 'Anytime';
+        case 'priority': return `Priority ${t.value}`;
+        case 'type': return `Type: ${t.value}`;
+    }
+}
+
+export interface QuickEntryRepositories {
+    tasks: TaskRepository;
+    tags?: TagRepository;
+    projects?: ProjectRepository;
+}
+
+/**
+ * Create a task with every field a parsed entry carries. `list` is the
+ * bucket to use when the entry names none (a task filed under a project
+ * skips the Inbox). Returns the task, plus the `@project` name if no project
+ * matched it.
+ */
+export function createTaskFromQuickEntry(
+    parsed: ParsedQuickEntry,
+    fallbackTitle: string,
+    list: Extract<ListName, 'inbox' | 'anytime' | 'someday'>,
+    repos: QuickEntryRepositories
+): { task: Task; unknownProject?: string } {
+    const project = parsed.project ? repos.projects?.findProjectByName(parsed.project) : undefined;
+    const target = parsed.list ?? (project && list === 'inbox' ? 'anytime' : list);
+    const task = repos.tasks.createLocal(parsed.title || fallbackTitle.trim(), target);
+    if (parsed.whenDate) repos.tasks.setWhen(task.uuid, parsed.whenDate);
+    if (parsed.deadline) repos.tasks.setDeadline(task.uuid, parsed.deadline);
+    if (project) repos.tasks.assignToProject(task.uuid, project.uuid);
+    if (parsed.priority !== undefined || parsed.workItemType) {
+        repos.tasks.update(task.uuid, { priority: parsed.priority, workItemType: parsed.workItemType });
+    }
+    if (repos.tags && parsed.tags.length > 0) {
+        repos.tasks.setTags(task.uuid, parsed.tags.map(name => repos.tags!.getOrCreate(name).id));
+    }
+    return { task, unknownProject: parsed.project && !project ? parsed.project : undefined };
 }